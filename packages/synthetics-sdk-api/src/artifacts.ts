@@ -0,0 +1,220 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { Bucket, Storage } from '@google-cloud/storage';
+import { SyntheticAttachment } from './generated/proto/synthetic_response';
+
+const attachmentNameRegex = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+const maxAttachmentNameLength = 256;
+const gcsLocationRegex = /^gs:\/\/([^/]+)\/?(.*)$/;
+
+/**
+ * @public
+ *
+ * A backend that attachments are stored in.
+ */
+export interface ArtifactStorage {
+  /**
+   * Stores `bytes` under `objectName`, a '/' separated relative path.
+   *
+   * @returns The uri that the artifact was stored at.
+   */
+  save(objectName: string, bytes: Buffer, contentType: string): Promise<string>;
+}
+
+/**
+ * @public
+ *
+ * Stores artifacts in a directory of the local filesystem.
+ */
+export class LocalArtifactStorage implements ArtifactStorage {
+  constructor(readonly directory: string) {}
+
+  async save(objectName: string, bytes: Buffer): Promise<string> {
+    const directory = path.resolve(this.directory);
+    const filePath = path.resolve(directory, ...objectName.split('/'));
+    const relativePath = path.relative(directory, filePath);
+    if (
+      !relativePath ||
+      relativePath.startsWith('..') ||
+      path.isAbsolute(relativePath)
+    ) {
+      throw new TypeError(
+        `Invalid object name '${objectName}': artifacts must be stored ` +
+          `within '${directory}'.`
+      );
+    }
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, bytes);
+    return pathToFileURL(filePath).href;
+  }
+}
+
+/**
+ * @public
+ *
+ * Stores artifacts in a Google Cloud Storage bucket, optionally under a
+ * prefix within that bucket.
+ */
+export class GcsArtifactStorage implements ArtifactStorage {
+  constructor(readonly bucket: Bucket, readonly prefix = '') {}
+
+  async save(
+    objectName: string,
+    bytes: Buffer,
+    contentType: string
+  ): Promise<string> {
+    const destination = path.posix.join(this.prefix, objectName);
+    await this.bucket.file(destination).save(bytes, { contentType });
+    return `gs://${this.bucket.name}/${destination}`;
+  }
+}
+
+/**
+ * @public
+ *
+ * Creates an {@link ArtifactStorage} from a location, being either a Google
+ * Cloud Storage location such as `gs://bucket/prefix`, or a path to a local
+ * directory.
+ *
+ * @param location - Where artifacts are to be stored.
+ * @returns Storage for the provided location.
+ */
+export function createArtifactStorage(location: string): ArtifactStorage {
+  const gcsLocation = location.match(gcsLocationRegex);
+  if (gcsLocation) {
+    return new GcsArtifactStorage(
+      new Storage().bucket(gcsLocation[1]),
+      gcsLocation[2]
+    );
+  }
+  return new LocalArtifactStorage(location);
+}
+
+/**
+ * Returns the directory that the artifacts of an execution are stored in,
+ * named after its execution id. Execution ids are read from a request header,
+ * and so a random directory is used for those that are not a valid name, eg.
+ * `../../tmp`, as well as when there is none.
+ *
+ * @param executionId - The value of the `Synthetic-Execution-Id` header, if
+ *                      present.
+ * @returns The name of a directory within artifact storage.
+ */
+export function artifactDirectoryName(executionId: string | undefined) {
+  return executionId && isValidName(executionId) ? executionId : randomUUID();
+}
+
+/**
+ * Stores an artifact, such as a screenshot, and lists it in the attachments of
+ * the synthetic's result. Strings are stored utf-8 encoded. Rejects with a
+ * TypeError if the name or content type are invalid, or if the name has
+ * already been attached.
+ */
+export type AttachFunction = (
+  name: string,
+  bytes: Uint8Array | string,
+  contentType: string
+) => Promise<SyntheticAttachment>;
+
+/**
+ * Creates an {@link AttachFunction} that saves artifacts to `storage`, and
+ * pushes references to them onto `attachments`.
+ *
+ * @param attachments - Array that attachments are pushed onto, once stored.
+ * @param storage - Storage to save artifacts to. When not provided, attaching
+ *                  rejects with an error.
+ * @param directory - Directory within storage that artifacts are saved to,
+ *                    unique to the current attempt of the synthetic's
+ *                    execution.
+ * @returns An attach function to be provided to user written synthetic code.
+ */
+export function createAttachFunction(
+  attachments: SyntheticAttachment[],
+  storage: ArtifactStorage | undefined,
+  directory: string
+): AttachFunction {
+  const names = new Set<string>();
+
+  return async (name, bytes, contentType) => {
+    validateAttachmentName(name);
+    if (typeof contentType !== 'string' || !contentType) {
+      throw new TypeError(
+        `Invalid content type for attachment '${name}': expected a non-empty ` +
+          'string.'
+      );
+    }
+    if (names.has(name)) {
+      throw new TypeError(
+        `Invalid attachment name '${name}': an attachment with this name ` +
+          'has already been attached.'
+      );
+    }
+    if (!storage) {
+      throw new Error(
+        `Unable to attach '${name}': no artifact storage has been configured.`
+      );
+    }
+    names.add(name);
+
+    const buffer =
+      typeof bytes === 'string'
+        ? Buffer.from(bytes, 'utf-8')
+        : Buffer.from(bytes);
+    let uri: string;
+    try {
+      uri = await storage.save(
+        path.posix.join(directory, name),
+        buffer,
+        contentType
+      );
+    } catch (err: unknown) {
+      // Allows for the attachment to be retried.
+      names.delete(name);
+      throw err;
+    }
+
+    const attachment = SyntheticAttachment.create({
+      name,
+      content_type: contentType,
+      uri,
+      size_bytes: buffer.length,
+      attach_time: new Date().toISOString(),
+    });
+    attachments.push(attachment);
+    return attachment;
+  };
+}
+
+function isValidName(name: unknown): name is string {
+  return (
+    typeof name === 'string' &&
+    attachmentNameRegex.test(name) &&
+    name.length <= maxAttachmentNameLength
+  );
+}
+
+function validateAttachmentName(name: unknown) {
+  if (!isValidName(name)) {
+    throw new TypeError(
+      `Invalid attachment name '${name}': names must start with a letter or ` +
+        'digit, only contain letters, digits, dots, underscores and dashes, ' +
+        `and be at most ${maxAttachmentNameLength} characters long.`
+    );
+  }
+}
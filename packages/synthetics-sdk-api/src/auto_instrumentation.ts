@@ -16,43 +16,79 @@ import { getNodeAutoInstrumentations } from '@opentelemetry/auto-instrumentation
 import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
 import { registerInstrumentations } from '@opentelemetry/instrumentation';
 import {
-  BatchSpanProcessor,
   AlwaysOnSampler,
+  InMemorySpanExporter,
+  Sampler,
+  SpanExporter,
+  SpanProcessor,
 } from '@opentelemetry/sdk-trace-base';
-import { Span, TraceFlags } from '@opentelemetry/api';
-import { GoogleAuth, GoogleAuthOptions } from 'google-auth-library';
+import { Resource } from '@opentelemetry/resources';
+import { Attributes, trace, Tracer, TracerProvider } from '@opentelemetry/api';
+import { GoogleAuthOptions } from 'google-auth-library';
 import { Logger } from 'winston';
-import { TraceExporter } from '@google-cloud/opentelemetry-cloud-trace-exporter';
-
-const LOGGING_TRACE_KEY = 'logging.googleapis.com/trace';
-const LOGGING_SPAN_KEY = 'logging.googleapis.com/spanId';
-const LOGGING_SAMPLED_KEY = 'logging.googleapis.com/trace_sampled';
-const LOGGING_SEVERITY_KEY = 'severity';
-
-const levelToSeverityMap: { [key: string]: string } = {
-  error: 'ERROR',
-  warn: 'WARNING',
-  info: 'INFO',
-  http: 'INFO',
-  verbose: 'DEBUG',
-  debug: 'DEBUG',
-  silly: 'DEBUG',
-};
+import {
+  createExportingSpanProcessor,
+  createTraceExporter,
+  OtlpExporterOptions,
+  TraceExporterName,
+} from './trace_exporters';
+import {
+  createLoggerAdapter,
+  LoggerAdapter,
+  LoggerAdapterName,
+  WinstonLoggerAdapter,
+} from './logger_adapters';
+import { getEnvironmentResolver } from './environment_resolver';
+import { WarnLogger } from './warnings';
+
+const defaultLoggerAdapter = new WinstonLoggerAdapter();
 
 let singletonAutoInstrumentation: SyntheticsAutoInstrumentation | null;
 
+/**
+ * @public
+ *
+ * Options for {@link instantiateAutoInstrumentation}.
+ */
+export interface AutoInstrumentationOptions {
+  /** Options used to resolve the project id that logs are written for. */
+  googleAuthOptions?: GoogleAuthOptions;
+  /**
+   * The exporter that traces are written with, either the name of a
+   * supported exporter or an exporter instance. Defaults to `cloud_trace`.
+   */
+  traceExporter?: TraceExporterName | SpanExporter;
+  /** Options for the `otlp_http` and `otlp_grpc` exporters. */
+  otlpExporterOptions?: OtlpExporterOptions;
+  /** The sampler that decides which traces are recorded, always on by default. */
+  sampler?: Sampler;
+  /**
+   * Span processors that are added in addition to the one that writes spans
+   * to `traceExporter`.
+   */
+  spanProcessors?: SpanProcessor[];
+  /** Attributes that describe the resource that spans are emitted by. */
+  resourceAttributes?: Attributes;
+  /**
+   * The logging library that synthetics are provided a logger of, either the
+   * name of a supported library or an adapter. Defaults to `winston`.
+   */
+  loggerAdapter?: LoggerAdapterName | LoggerAdapter;
+}
+
 /**
  * @public
  *
  * This function sets up user authored synthetic code with a baseline open
  * telemetry setup that will write traces and logs to cloud trace and cloud
- * logging.
+ * logging. Where traces are written to, and how they are sampled, may be
+ * configured through `args`.
  *
  * NOTE: For this module to be used effectively, it needs to be included
  * and ran before any other code within your synthetic application runs.
  */
 export const instantiateAutoInstrumentation = (
-  args: { googleAuthOptions?: GoogleAuthOptions } = {}
+  args: AutoInstrumentationOptions = {}
 ) => {
   singletonAutoInstrumentation = new SyntheticsAutoInstrumentation(args);
 };
@@ -60,7 +96,47 @@ export const instantiateAutoInstrumentation = (
 /**
  * @public
  *
- * Returns a winston logger that is instrumented to use the console transport.
+ * Returns the exporter that spans are written to when auto instrumentation
+ * was instantiated with the `in_memory` trace exporter, eg. to make
+ * assertions on spans within tests.
+ */
+export const getInMemorySpanExporter = (): InMemorySpanExporter | undefined =>
+  singletonAutoInstrumentation?.exporter instanceof InMemorySpanExporter
+    ? singletonAutoInstrumentation.exporter
+    : undefined;
+
+/**
+ * Returns the provider that {@link instantiateAutoInstrumentation} registered,
+ * falling back to the globally registered tracer provider.
+ */
+export const getTracerProvider = (): TracerProvider =>
+  singletonAutoInstrumentation?.provider ?? trace.getTracerProvider();
+
+/**
+ * Returns a tracer of the provider that {@link instantiateAutoInstrumentation}
+ * registered, falling back to the globally registered tracer provider. The
+ * provider is used directly as it may have been registered through a
+ * different copy of `@opentelemetry/api` than the one that this sdk loads.
+ *
+ * @param name - The name of the instrumentation library.
+ */
+export const getTracer = (name: string): Tracer =>
+  getTracerProvider().getTracer(name);
+
+/**
+ * Returns the adapter of the loggers that {@link getInstrumentedLogger}
+ * returns.
+ */
+export const getLoggerAdapter = (): LoggerAdapter =>
+  singletonAutoInstrumentation?.loggerAdapter ?? defaultLoggerAdapter;
+
+/**
+ * @public
+ *
+ * Returns a logger that is instrumented to write to the console, a winston
+ * logger unless another `loggerAdapter` was provided to
+ * {@link #instantiateAutoInstrumentation}, in which case `L` must be the type
+ * of its loggers.
  *
  * If {@link #instantiateAutoInstrumentation} is ran prior to any other code,
  * and a project id is detected according to the logs will be instrumented
@@ -68,73 +144,59 @@ export const instantiateAutoInstrumentation = (
  * {@link https://cloud.google.com/logging/docs/structured-logging|structured logging}
  * format.
  */
-export const getInstrumentedLogger = async (): Promise<Logger> => {
-  if (singletonAutoInstrumentation) {
-    return await singletonAutoInstrumentation.getInstrumentedLogger();
-  } else {
-    const winston = require('winston');
-    return winston.createLogger({
-      transports: [new winston.transports.Console()],
-    });
-  }
+export const getInstrumentedLogger = async <
+  L extends WarnLogger = Logger
+>(): Promise<L> => {
+  const logger = singletonAutoInstrumentation
+    ? await singletonAutoInstrumentation.getInstrumentedLogger()
+    : defaultLoggerAdapter.createLogger();
+  return logger as L;
 };
 
 class SyntheticsAutoInstrumentation {
   provider: NodeTracerProvider;
+  exporter: SpanExporter;
+  loggerAdapter: LoggerAdapter;
 
-  private logger: Logger;
+  private logger: WarnLogger;
   private gcpProjectId?: string | null;
   private authArgs: GoogleAuthOptions;
 
-  constructor(args: { googleAuthOptions?: GoogleAuthOptions } = {}) {
+  constructor(args: AutoInstrumentationOptions = {}) {
     this.authArgs = args.googleAuthOptions || {};
 
     this.provider = new NodeTracerProvider({
-      sampler: new AlwaysOnSampler(),
+      sampler: args.sampler ?? new AlwaysOnSampler(),
+      resource: new Resource(args.resourceAttributes ?? {}),
     });
-    const exporter = new TraceExporter();
-    this.provider.addSpanProcessor(new BatchSpanProcessor(exporter));
+    this.exporter = createTraceExporter(
+      args.traceExporter,
+      args.otlpExporterOptions
+    );
+    this.provider.addSpanProcessor(createExportingSpanProcessor(this.exporter));
+    for (const spanProcessor of args.spanProcessors ?? []) {
+      this.provider.addSpanProcessor(spanProcessor);
+    }
     this.provider.register();
 
-    // add node auto instrumentation
+    // add node auto instrumentation. If the auto instrumentation has detected
+    // a project id, the logger adapter converts otel fields that are
+    // automatically added to records to use structured logging fields instead.
+    this.loggerAdapter = createLoggerAdapter(args.loggerAdapter);
     registerInstrumentations({
       instrumentations: [
-        getNodeAutoInstrumentations({
-          '@opentelemetry/instrumentation-winston': {
-            logHook: (span: Span, record: Record<string, string | boolean>) => {
-              // If the auto instrumentation has detected a project id, convert
-              // otel fields that are automatically added to the record to use
-              // structured logging fields instead.
-              if (this.gcpProjectId) {
-                record[LOGGING_TRACE_KEY] = `projects/${
-                  this.gcpProjectId
-                }/traces/${span.spanContext().traceId}`;
-                record[LOGGING_SPAN_KEY] = span.spanContext().spanId;
-                record[LOGGING_SAMPLED_KEY] =
-                  span.spanContext().traceFlags === TraceFlags.SAMPLED;
-                record[LOGGING_SEVERITY_KEY] =
-                  levelToSeverityMap[String(record.level)] ?? 'DEFAULT';
-                delete record['span_id'];
-                delete record['trace_flags'];
-                delete record['level'];
-                delete record['trace_id'];
-              }
-            },
-          },
-        }),
+        getNodeAutoInstrumentations(
+          this.loggerAdapter.instrumentationConfig(() => this.gcpProjectId)
+        ),
       ],
     });
 
-    // Require dependencies after instrumentation is registered,
-    // otherwise they wont be instrumented.
-    const winston = require('winston');
-    const logger = winston.createLogger({
-      transports: [new winston.transports.Console()],
-    });
-    this.logger = logger;
+    // Create the logger after instrumentation is registered, otherwise it
+    // wont be instrumented.
+    this.logger = this.loggerAdapter.createLogger();
   }
 
-  async getInstrumentedLogger(): Promise<Logger> {
+  async getInstrumentedLogger(): Promise<WarnLogger> {
     this.gcpProjectId = await resolveProjectId(
       this.gcpProjectId,
       this.authArgs
@@ -159,21 +221,13 @@ export const resolveProjectId = async (
     return gcpProjectId;
   }
 
-  const auth = new GoogleAuth({
-    credentials: googleAuthOptions?.credentials,
-    keyFile: googleAuthOptions?.keyFile,
-    keyFilename: googleAuthOptions?.keyFilename,
-    projectId: googleAuthOptions?.projectId,
-    scopes: ['https://www.googleapis.com/auth/cloud-platform'],
-  });
-
-  try {
-    return await auth.getProjectId();
-  } catch (e) {
+  const projectId = await getEnvironmentResolver().getProjectId(
+    googleAuthOptions
+  );
+  if (projectId === null) {
     console.log(
       'Unable to resolve gcpProjectId, logs will not be written in GCP Structured Logging format'
     );
   }
-
-  return null;
+  return projectId;
 };
@@ -0,0 +1,290 @@
+#!/usr/bin/env node
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { randomUUID } from 'crypto';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { SyntheticResult } from './generated/proto/synthetic_response';
+import { InvokeFunction } from './handler_adapters';
+import {
+  MetadataServerEmulator,
+  startMetadataServerEmulator,
+} from './metadata_server_emulator';
+import {
+  isSyntheticResultPassing,
+  renderJUnit,
+  renderMarkdown,
+  renderText,
+} from './renderers';
+
+const usage = `Usage: synthetics <module> [options]
+
+Runs a synthetic that is exported, or registered with the functions framework,
+by <module>, and prints its result.
+
+Options:
+  --target <name>        Name of the export or registered function to run.
+                         Required when <module> provides more than one.
+  --format <format>      Output format, one of "text" (default), "json",
+                         "markdown" or "junit".
+  --execution-id <id>    Value of the Synthetic-Execution-Id header, a random
+                         id by default.
+  --check-id <id>        Value of the Check-Id header, "local" by default.
+  --emulate-metadata-server
+                         Serves the project, region and access tokens from an
+                         emulator of the GCE metadata server, for running
+                         offline.
+  --project-id <id>      Project id that the emulator reports,
+                         "local-project" by default.
+  --region <region>      Region that the emulator reports, "us-central1" by
+                         default.
+  -h, --help             Prints this message.
+
+Exits with 0 if the synthetic passed, 1 if it failed, and 2 if it could not
+be ran.
+`;
+
+const renderers: { [format: string]: (result: SyntheticResult) => string } = {
+  text: renderText,
+  json: (result) =>
+    `${JSON.stringify(SyntheticResult.toJSON(result), null, 2)}\n`,
+  markdown: renderMarkdown,
+  junit: renderJUnit,
+};
+
+// A function that a module exports or registers, which is only ran when it is
+// middleware that keeps its invoke function, as created by the sdk.
+type SyntheticMiddleware = ((...args: unknown[]) => unknown) & {
+  invoke?: InvokeFunction;
+};
+
+/**
+ * Output streams of the cli, which may be replaced for testing.
+ */
+export interface CliIo {
+  stdout: { write(chunk: string): unknown };
+  stderr: { write(chunk: string): unknown };
+}
+
+/**
+ * Error that is reported when the cli could not run a synthetic.
+ */
+class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+/**
+ * Runs the `synthetics` cli.
+ *
+ * @param args - Command line arguments, excluding the node binary and script.
+ * @param io - Streams that output is written to.
+ * @returns The exit code of the cli.
+ */
+export async function runCli(
+  args: string[],
+  io: CliIo = process
+): Promise<number> {
+  let options;
+  try {
+    options = parseCliArgs(args);
+  } catch (err: unknown) {
+    io.stderr.write(`${err instanceof Error ? err.message : err}\n\n${usage}`);
+    return 2;
+  }
+  if (options.help) {
+    io.stdout.write(usage);
+    return 0;
+  }
+
+  let syntheticResult: SyntheticResult;
+  let emulator: MetadataServerEmulator | undefined;
+  try {
+    if (options.emulateMetadataServer) {
+      emulator = await startMetadataServerEmulator({
+        projectId: options.projectId,
+        region: options.region,
+      });
+    }
+    const invoke = loadInvokeFunction(options.module, options.target);
+    syntheticResult = await invoke({
+      headers: {
+        'synthetic-execution-id': options.executionId,
+        'check-id': options.checkId,
+      },
+      query: {},
+      body: undefined,
+    });
+  } catch (err: unknown) {
+    io.stderr.write(
+      err instanceof CliUsageError
+        ? `${err.message}\n`
+        : `Failed to run synthetic: ${
+            err instanceof Error ? err.stack : String(err)
+          }\n`
+    );
+    return 2;
+  } finally {
+    await emulator?.stop();
+  }
+
+  io.stdout.write(renderers[options.format](syntheticResult));
+  return isSyntheticResultPassing(syntheticResult) ? 0 : 1;
+}
+
+function parseCliArgs(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      target: { type: 'string' },
+      format: { type: 'string', default: 'text' },
+      'execution-id': { type: 'string' },
+      'check-id': { type: 'string', default: 'local' },
+      'emulate-metadata-server': { type: 'boolean', default: false },
+      'project-id': { type: 'string' },
+      region: { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) {
+    return { help: true } as const;
+  }
+  if (positionals.length !== 1) {
+    throw new CliUsageError('Expected exactly one module to be provided.');
+  }
+  const emulateMetadataServer = values['emulate-metadata-server'] ?? false;
+  if (
+    !emulateMetadataServer &&
+    (values['project-id'] !== undefined || values.region !== undefined)
+  ) {
+    throw new CliUsageError(
+      '--project-id and --region require --emulate-metadata-server.'
+    );
+  }
+  const format = values.format ?? 'text';
+  if (!Object.prototype.hasOwnProperty.call(renderers, format)) {
+    throw new CliUsageError(
+      `Unknown format '${format}', expected one of: ` +
+        `${Object.keys(renderers).join(', ')}.`
+    );
+  }
+
+  return {
+    help: false,
+    module: path.resolve(positionals[0]),
+    target: values.target,
+    format,
+    executionId: values['execution-id'] ?? randomUUID().replace(/-/g, ''),
+    checkId: values['check-id'] ?? 'local',
+    emulateMetadataServer,
+    projectId: values['project-id'],
+    region: values.region,
+  } as const;
+}
+
+/**
+ * Loads the invoke function of the middleware to run, as kept by
+ * `toExpressHandler`, throwing a CliUsageError if the middleware was not
+ * created by the sdk.
+ */
+function loadInvokeFunction(
+  modulePath: string,
+  target: string | undefined
+): InvokeFunction {
+  const middleware = loadMiddleware(modulePath, target);
+  if (typeof middleware.invoke !== 'function') {
+    throw new CliUsageError(
+      `Function '${target ?? middleware.name}' of module '${modulePath}' ` +
+        'was not created by the synthetics sdk, eg. with runSyntheticHandler.'
+    );
+  }
+  return middleware.invoke;
+}
+
+/**
+ * Loads the middleware to run from `modulePath`, being either one of its
+ * exports, or a function that it registered with the functions framework.
+ */
+function loadMiddleware(
+  modulePath: string,
+  target: string | undefined
+): SyntheticMiddleware {
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const exported = require(modulePath);
+
+  if (target === undefined) {
+    if (typeof exported === 'function') {
+      return exported;
+    }
+    const exportedFunctions = Object.keys(exported ?? {}).filter(
+      (key) => typeof exported[key] === 'function'
+    );
+    if (exportedFunctions.length === 1) {
+      return exported[exportedFunctions[0]];
+    }
+    throw new CliUsageError(
+      exportedFunctions.length
+        ? `Module '${modulePath}' exports multiple functions, select one ` +
+          `with --target: ${exportedFunctions.join(', ')}.`
+        : `Module '${modulePath}' does not export a function, provide the ` +
+          'name of a function that it registers with --target.'
+    );
+  }
+
+  if (typeof exported?.[target] === 'function') {
+    return exported[target];
+  }
+  const registered = getRegisteredFunction(modulePath, target);
+  if (registered) {
+    return registered;
+  }
+  throw new CliUsageError(
+    `Module '${modulePath}' neither exports nor registers a function ` +
+      `named '${target}'.`
+  );
+}
+
+/**
+ * Looks up a function registered through `functions.http`, using the
+ * functions framework that is resolvable from the user's module.
+ */
+function getRegisteredFunction(
+  modulePath: string,
+  target: string
+): SyntheticMiddleware | undefined {
+  try {
+    const testing = require(require.resolve(
+      '@google-cloud/functions-framework/testing',
+      { paths: [path.dirname(modulePath)] }
+    ));
+    return testing.getFunction(target);
+  } catch (e) {
+    // The functions framework is not installed, and so nothing is registered.
+    return undefined;
+  }
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then((exitCode) => {
+    // Instrumentation and user code, such as open browsers, may keep the
+    // event loop alive.
+    // eslint-disable-next-line no-process-exit
+    process.stdout.write('', () => process.exit(exitCode));
+  });
+}
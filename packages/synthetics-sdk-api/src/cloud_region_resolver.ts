@@ -12,37 +12,15 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-import axios, { AxiosResponse } from 'axios';
+import { getEnvironmentResolver } from './environment_resolver';
 
 /**
  *
  * @public
  *
  * Retrieves the region in which the current Google Cloud Function (v2) is
- * executing by querying the metadata server.
+ * executing, which is resolved once by the shared environment resolver.
  */
 export async function getExecutionRegion(): Promise<string | null> {
-  const metadataServerUrl =
-    'http://metadata.google.internal/computeMetadata/v1/instance/region';
-  const headers = { 'Metadata-Flavor': 'Google' };
-
-  try {
-    const response: AxiosResponse = await axios.get(metadataServerUrl, {
-      headers,
-    });
-
-    // Extract region from the response (e.g., 'us-east1')
-    const regions = response.data.split('/');
-    const region = regions[regions.length - 1];
-
-    return region;
-  } catch (error) {
-    if (axios.isAxiosError(error)) {
-      console.error('Error fetching region from metadata server:', error);
-    } else {
-      console.error('Unexpected error:', error);
-    }
-  }
-
-  return null;
+  return getEnvironmentResolver().getRegion();
 }
@@ -0,0 +1,134 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  GenericResultV1,
+  GenericResultV1_GenericError,
+  SyntheticResult,
+} from './generated/proto/synthetic_response';
+import {
+  getRequestHeader,
+  InvokeFunction,
+  SyntheticRequest,
+} from './handler_adapters';
+import { collectRuntimeMetadata } from './runtime_metadata_extractor';
+
+/**
+ * How an execution is handled while another execution of the same check is
+ * still running on the same instance:
+ *
+ * * `allow` runs executions alongside each other.
+ * * `queue` waits for the running executions to complete before running.
+ * * `reject` does not run, serving a result that failed with a
+ *   `SyntheticConcurrencyError` instead.
+ */
+export type ConcurrencyPolicy = 'allow' | 'queue' | 'reject';
+
+const concurrencyPolicies: ConcurrencyPolicy[] = ['allow', 'queue', 'reject'];
+
+/**
+ * The error that executions which are rejected by the `reject` concurrency
+ * policy fail with.
+ */
+export class SyntheticConcurrencyError extends Error {
+  constructor(checkId: string | undefined) {
+    super(
+      `An execution of ${
+        checkId === undefined ? 'the synthetic' : `check ${checkId}`
+      } is already running on this instance`
+    );
+    this.name = 'SyntheticConcurrencyError';
+  }
+}
+
+/**
+ * Validates a concurrency policy, throwing a TypeError when it is invalid.
+ *
+ * @param policy - The concurrency policy to validate.
+ */
+export function validateConcurrencyPolicy(policy: ConcurrencyPolicy) {
+  if (!concurrencyPolicies.includes(policy)) {
+    throw new TypeError(
+      `concurrency must be one of ${concurrencyPolicies.join(', ')}`
+    );
+  }
+}
+
+const createRejectedResult = async (
+  checkId: string | undefined
+): Promise<SyntheticResult> => {
+  const startTime = new Date().toISOString();
+  const error = new SyntheticConcurrencyError(checkId);
+  return SyntheticResult.create({
+    synthetic_generic_result_v1: GenericResultV1.create({
+      ok: false,
+      generic_error: GenericResultV1_GenericError.create({
+        error_type: error.name,
+        error_message: error.message,
+      }),
+    }),
+    start_time: startTime,
+    end_time: startTime,
+    runtime_metadata: await collectRuntimeMetadata(),
+  });
+};
+
+/**
+ * @public
+ *
+ * Applies a concurrency policy to an invoke function, keyed on the `Check-Id`
+ * header of its requests, so that executions of a check that overlap on an
+ * instance, eg. when a previous execution has not completed by the time that
+ * the next is scheduled, do not compete for its memory and cpu. Requests
+ * without a check id share a key.
+ *
+ * @param invoke - The function that runs the synthetic.
+ * @param policy - How overlapping executions are handled, `allow` by default.
+ * @returns An invoke function that applies the policy.
+ */
+export function withConcurrencyPolicy(
+  invoke: InvokeFunction,
+  policy: ConcurrencyPolicy = 'allow'
+): InvokeFunction {
+  validateConcurrencyPolicy(policy);
+  if (policy === 'allow') {
+    return invoke;
+  }
+
+  // The settled promise of the last execution of each check, which queued
+  // executions wait on.
+  const lastExecutions = new Map<string, Promise<unknown>>();
+
+  return async (request: SyntheticRequest) => {
+    const checkId = getRequestHeader(request, 'Check-Id');
+    const key = checkId ?? '';
+    const previous = lastExecutions.get(key);
+    if (previous && policy === 'reject') {
+      return createRejectedResult(checkId);
+    }
+
+    const execution = (previous ?? Promise.resolve()).then(() =>
+      invoke(request)
+    );
+    const settled = execution.catch(() => undefined);
+    lastExecutions.set(key, settled);
+    try {
+      return await execution;
+    } finally {
+      if (lastExecutions.get(key) === settled) {
+        lastExecutions.delete(key);
+      }
+    }
+  };
+}
@@ -0,0 +1,253 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import axios from 'axios';
+import { GoogleAuth, GoogleAuthOptions } from 'google-auth-library';
+
+export const DEFAULT_METADATA_SERVER_URL = 'http://metadata.google.internal';
+export const DEFAULT_METADATA_TIMEOUT_MILLIS = 1000;
+
+// Environment variables that override what would otherwise be resolved, in
+// order of precedence.
+const projectIdEnvVariables = [
+  'GOOGLE_CLOUD_PROJECT',
+  'GCLOUD_PROJECT',
+  'GCP_PROJECT',
+];
+const projectNumberEnvVariables = ['GOOGLE_CLOUD_PROJECT_NUMBER'];
+const regionEnvVariables = ['GOOGLE_CLOUD_REGION', 'FUNCTION_REGION'];
+const zoneEnvVariables = ['GOOGLE_CLOUD_ZONE'];
+
+/**
+ * Options that control how the environment is resolved.
+ */
+export interface EnvironmentResolverOptions {
+  /**
+   * The url of the metadata server, eg. that of an emulator. Defaults to the
+   * `GCE_METADATA_HOST` environment variable, and otherwise to
+   * `http://metadata.google.internal`.
+   */
+  metadataServerUrl?: string;
+  /**
+   * How long a request to the metadata server is waited on before it is
+   * abandoned. Default 1000.
+   */
+  timeoutMillis?: number;
+  /**
+   * Options of the `GoogleAuth` that the project id is resolved with.
+   */
+  googleAuthOptions?: GoogleAuthOptions;
+}
+
+const getEnvOverride = (envVariables: string[]): string | undefined =>
+  envVariables.map((envVariable) => process.env[envVariable]).find(Boolean);
+
+// Metadata such as `projects/123456789/regions/us-east1` is reduced to its
+// last segment.
+const lastSegment = (value: string | null) =>
+  value === null ? null : value.split('/').pop() ?? null;
+
+/**
+ * @public
+ *
+ * Resolves the project, region and zone that the current process executes
+ * within, from environment variable overrides or the metadata server. Values
+ * that are resolved are cached for the lifetime of the resolver, while those
+ * that fail to resolve, eg. as the metadata server is slow to respond while an
+ * instance starts, are looked up again when next requested.
+ */
+export class EnvironmentResolver {
+  private metadataServerUrl?: string;
+  private timeoutMillis: number;
+  private googleAuthOptions: GoogleAuthOptions;
+  private googleAuth?: GoogleAuth;
+  private cache = new Map<string, Promise<string | null>>();
+
+  constructor(options: EnvironmentResolverOptions = {}) {
+    this.metadataServerUrl = options.metadataServerUrl;
+    this.timeoutMillis =
+      options.timeoutMillis ?? DEFAULT_METADATA_TIMEOUT_MILLIS;
+    this.googleAuthOptions = options.googleAuthOptions ?? {};
+  }
+
+  /**
+   * Resolves the project id, eg. `my-project`, that may be overridden with
+   * the `GOOGLE_CLOUD_PROJECT`, `GCLOUD_PROJECT` or `GCP_PROJECT` environment
+   * variables. It is resolved with `GoogleAuth`, which reads it from
+   * credentials and the gcloud configuration, and otherwise from the metadata
+   * server.
+   *
+   * @param googleAuthOptions - Options of the `GoogleAuth` that the project
+   *                            id is resolved with, if it has not yet been
+   *                            resolved.
+   */
+  getProjectId(googleAuthOptions?: GoogleAuthOptions): Promise<string | null> {
+    const projectId =
+      getEnvOverride(projectIdEnvVariables) ??
+      googleAuthOptions?.projectId ??
+      this.googleAuthOptions.projectId;
+    if (projectId) {
+      return Promise.resolve(projectId);
+    }
+
+    return this.cached('project_id', async () => {
+      const googleAuthProjectId = await this.getGoogleAuthProjectId(
+        googleAuthOptions
+      );
+      return googleAuthProjectId ?? this.fetchMetadata('project/project-id');
+    });
+  }
+
+  /**
+   * Resolves the project number, eg. `123456789`, that may be overridden with
+   * the `GOOGLE_CLOUD_PROJECT_NUMBER` environment variable.
+   */
+  getProjectNumber(): Promise<string | null> {
+    const projectNumber = getEnvOverride(projectNumberEnvVariables);
+    if (projectNumber) {
+      return Promise.resolve(projectNumber);
+    }
+
+    return this.cached('project_number', () =>
+      this.fetchMetadata('project/numeric-project-id')
+    );
+  }
+
+  /**
+   * Resolves the region, eg. `us-east1`, that may be overridden with the
+   * `GOOGLE_CLOUD_REGION` or `FUNCTION_REGION` environment variables. Where
+   * the metadata server does not report a region, as on GKE, it is derived
+   * from the zone.
+   */
+  getRegion(): Promise<string | null> {
+    const region = getEnvOverride(regionEnvVariables);
+    if (region) {
+      return Promise.resolve(region);
+    }
+
+    return this.cached('region', async () => {
+      const metadataRegion = lastSegment(
+        await this.fetchMetadata('instance/region')
+      );
+      if (metadataRegion) {
+        return metadataRegion;
+      }
+      const zone = await this.getZone();
+      return zone ? zone.replace(/-[a-z]$/, '') : null;
+    });
+  }
+
+  /**
+   * Resolves the zone, eg. `us-east1-b`, that may be overridden with the
+   * `GOOGLE_CLOUD_ZONE` environment variable.
+   */
+  getZone(): Promise<string | null> {
+    const zone = getEnvOverride(zoneEnvVariables);
+    if (zone) {
+      return Promise.resolve(zone);
+    }
+
+    return this.cached('zone', async () =>
+      lastSegment(await this.fetchMetadata('instance/zone'))
+    );
+  }
+
+  private cached(
+    key: string,
+    resolve: () => Promise<string | null>
+  ): Promise<string | null> {
+    let value = this.cache.get(key);
+    if (!value) {
+      const resolving = resolve();
+      this.cache.set(key, resolving);
+      resolving.then((resolved) => {
+        if (resolved === null && this.cache.get(key) === resolving) {
+          this.cache.delete(key);
+        }
+      });
+      value = resolving;
+    }
+    return value;
+  }
+
+  private getMetadataServerUrl() {
+    if (this.metadataServerUrl) {
+      return this.metadataServerUrl;
+    }
+    return process.env.GCE_METADATA_HOST
+      ? `http://${process.env.GCE_METADATA_HOST}`
+      : DEFAULT_METADATA_SERVER_URL;
+  }
+
+  private async fetchMetadata(path: string): Promise<string | null> {
+    try {
+      const response = await axios.get(
+        `${this.getMetadataServerUrl()}/computeMetadata/v1/${path}`,
+        {
+          headers: { 'Metadata-Flavor': 'Google' },
+          timeout: this.timeoutMillis,
+        }
+      );
+      return String(response.data);
+    } catch (err) {
+      // The metadata server is unavailable outside of GCP, eg. locally and in
+      // tests, where every lookup fails, and so failures are not logged.
+      return null;
+    }
+  }
+
+  private async getGoogleAuthProjectId(
+    googleAuthOptions: GoogleAuthOptions = this.googleAuthOptions
+  ): Promise<string | null> {
+    this.googleAuth ??= new GoogleAuth({
+      credentials: googleAuthOptions.credentials,
+      keyFile: googleAuthOptions.keyFile,
+      keyFilename: googleAuthOptions.keyFilename,
+      scopes: ['https://www.googleapis.com/auth/cloud-platform'],
+    });
+
+    try {
+      return await this.googleAuth.getProjectId();
+    } catch (err) {
+      return null;
+    }
+  }
+}
+
+let environmentResolver = new EnvironmentResolver();
+
+/**
+ * @public
+ *
+ * Returns the resolver that the sdk resolves its environment with.
+ */
+export const getEnvironmentResolver = (): EnvironmentResolver =>
+  environmentResolver;
+
+/**
+ * @public
+ *
+ * Replaces the resolver that the sdk resolves its environment with, which
+ * discards any values that were cached. This may be used to point the sdk at
+ * a fake metadata server in tests.
+ *
+ * @param options - Options of the new resolver.
+ * @returns The new resolver.
+ */
+export const configureEnvironmentResolver = (
+  options: EnvironmentResolverOptions = {}
+): EnvironmentResolver => {
+  environmentResolver = new EnvironmentResolver(options);
+  return environmentResolver;
+};
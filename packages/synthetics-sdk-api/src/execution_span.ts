@@ -0,0 +1,117 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  Attributes,
+  context,
+  Span,
+  SpanStatusCode,
+  trace,
+  Tracer,
+} from '@opentelemetry/api';
+import { getTracer } from './auto_instrumentation';
+import { SyntheticResult } from './generated/proto/synthetic_response';
+import { isSyntheticResultPassing } from './renderers';
+import { extractTraceContext, TraceContextCarrier } from './trace_context';
+
+const TRACER_NAME = '@google-cloud/synthetics-sdk-api';
+const EXECUTION_SPAN_NAME = 'synthetic_execution';
+
+const EXECUTION_ID_ATTRIBUTE = 'synthetic.execution_id';
+const CHECK_ID_ATTRIBUTE = 'synthetic.check_id';
+const OUTCOME_ATTRIBUTE = 'synthetic.outcome';
+
+/** Identifies the synthetic execution that a span is recorded for. */
+export interface SyntheticExecutionDetails {
+  /** The value of the `Synthetic-Execution-Id` header, if present. */
+  executionId?: string;
+  /** The value of the `Check-Id` header, if present. */
+  checkId?: string;
+  /**
+   * The headers of the request that triggered the execution. When no span is
+   * active, such as one created by http instrumentation, the span continues
+   * the W3C trace context of the `traceparent` header.
+   */
+  headers?: TraceContextCarrier;
+}
+
+/**
+ * @public
+ *
+ * Runs a synthetic's execution within a span, which spans created by auto
+ * instrumentation, such as those of outbound http calls, are parented to.
+ *
+ * The span is tagged with the execution and check ids, along with the
+ * `passed` or `failed` outcome of the returned result. When the span is
+ * recorded, the ids of the trace and span are written to the result's
+ * `trace_id` and `span_id`, so that the result may be linked to its trace.
+ *
+ * @param details - Identifies the execution that is being ran.
+ * @param execute - Runs the synthetic within the span, resolving with its
+ *                  result.
+ * @param tracer - The tracer that the span is started with, by default that of
+ *                 the auto instrumentation's provider.
+ * @returns The result of `execute`.
+ */
+export async function runInExecutionSpan(
+  details: SyntheticExecutionDetails,
+  execute: (span: Span) => Promise<SyntheticResult>,
+  tracer: Tracer = getTracer(TRACER_NAME)
+): Promise<SyntheticResult> {
+  const attributes: Attributes = {};
+  if (details.executionId) {
+    attributes[EXECUTION_ID_ATTRIBUTE] = details.executionId;
+  }
+  if (details.checkId) {
+    attributes[CHECK_ID_ATTRIBUTE] = details.checkId;
+  }
+
+  const parentContext =
+    trace.getActiveSpan() || !details.headers
+      ? context.active()
+      : extractTraceContext(details.headers);
+
+  return tracer.startActiveSpan(
+    EXECUTION_SPAN_NAME,
+    { attributes },
+    parentContext,
+    async (span) => {
+      try {
+        const syntheticResult = await execute(span);
+
+        const passed = isSyntheticResultPassing(syntheticResult);
+        span.setAttribute(OUTCOME_ATTRIBUTE, passed ? 'passed' : 'failed');
+        if (!passed) {
+          span.setStatus({ code: SpanStatusCode.ERROR });
+        }
+
+        if (span.isRecording()) {
+          const spanContext = span.spanContext();
+          syntheticResult.trace_id = spanContext.traceId;
+          syntheticResult.span_id = spanContext.spanId;
+        }
+
+        return syntheticResult;
+      } catch (err: unknown) {
+        if (err instanceof Error) {
+          span.recordException(err);
+        }
+        span.setStatus({ code: SpanStatusCode.ERROR });
+        throw err;
+      } finally {
+        span.end();
+      }
+    }
+  );
+}
@@ -105,7 +105,36 @@ export interface GenericResultV1 {
     | boolean
     | undefined;
   /** Error that was associated with this result, causing it to fail. */
-  generic_error: GenericResultV1_GenericError | undefined;
+  generic_error:
+    | GenericResultV1_GenericError
+    | undefined;
+  /**
+   * The steps that were ran as part of the synthetic, in the order in which
+   * they were started.
+   */
+  steps: GenericResultV1_GenericStep[];
+  /**
+   * Every attempt that was made at running the synthetic, in order. A
+   * synthetic that passed on retry has more than one attempt.
+   */
+  attempts: GenericResultV1_GenericAttempt[];
+  /**
+   * The most recent records that were written through the synthetic's logger,
+   * in order, when log capture is enabled.
+   */
+  logs: GenericResultV1_GenericLogEntry[];
+  /**
+   * The number of records that were not kept, as the maximum number of
+   * captured records was exceeded.
+   */
+  dropped_log_count?:
+    | number
+    | undefined;
+  /**
+   * The warnings that were raised while the synthetic was running, in order.
+   * Warnings do not affect whether or not the synthetic is ok.
+   */
+  warnings: GenericResultV1_GenericWarning[];
 }
 
 export interface GenericResultV1_GenericError {
@@ -126,6 +155,81 @@ export interface GenericResultV1_GenericError {
     | undefined;
   /** The raw stack trace that is associated with this error. */
   stack_trace: string;
+  /**
+   * The errors that caused this error, as provided by `Error.cause`, or by
+   * the `errors` of an `AggregateError`. Causes may themselves have causes.
+   */
+  causes: GenericResultV1_GenericError[];
+  /** Column number that reported the error. */
+  column?: number | undefined;
+}
+
+/** A single named step of a generic synthetic, eg. "login" or "checkout". */
+export interface GenericResultV1_GenericStep {
+  /** The name of the step. */
+  name: string;
+  /** Whether or not the step passed. */
+  ok?:
+    | boolean
+    | undefined;
+  /** The start time of the step in iso format. */
+  step_start_time: string;
+  /** The end time of the step in iso format. */
+  step_end_time: string;
+  /** The amount of time the step took to run, in milliseconds. */
+  duration_millis?:
+    | number
+    | undefined;
+  /** The error that was the result of a step failure. */
+  step_error: GenericResultV1_GenericError | undefined;
+}
+
+/**
+ * A single attempt at running the synthetic, of which there are several
+ * when retries are configured.
+ */
+export interface GenericResultV1_GenericAttempt {
+  /** The number of the attempt, starting at 1. */
+  attempt_number?:
+    | number
+    | undefined;
+  /** Whether or not the attempt passed. */
+  ok?:
+    | boolean
+    | undefined;
+  /** The start time of the attempt in iso format. */
+  attempt_start_time: string;
+  /** The end time of the attempt in iso format. */
+  attempt_end_time: string;
+  /** The amount of time the attempt took to run, in milliseconds. */
+  duration_millis?:
+    | number
+    | undefined;
+  /** The error that was the result of an attempt failure. */
+  attempt_error: GenericResultV1_GenericError | undefined;
+}
+
+/** A record that was written through the synthetic's logger. */
+export interface GenericResultV1_GenericLogEntry {
+  /** The time at which the record was written, in iso format. */
+  log_time: string;
+  /** The level of the record, eg. "info" or "error". */
+  level: string;
+  /** The message of the record, truncated to the configured maximum length. */
+  message: string;
+}
+
+/**
+ * A degradation that the synthetic flagged without failing, eg. a slow
+ * response or a deprecated api.
+ */
+export interface GenericResultV1_GenericWarning {
+  /** The type of the warning, eg. "SlowResponse". */
+  warning_type: string;
+  /** A message that describes the warning. */
+  warning_message: string;
+  /** The time at which the warning was raised in iso format. */
+  warning_time: string;
 }
 
 /**
@@ -493,6 +597,81 @@ export interface BrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput {
   screenshot_error: BaseError | undefined;
 }
 
+/**
+ * A custom metric that was recorded by user written synthetic code, eg. the
+ * number of search results that were returned.
+ */
+export interface SyntheticMetric {
+  /** The name of the metric, eg. "search_result_count". */
+  name: string;
+  /** An integer value. */
+  int64_value?:
+    | number
+    | undefined;
+  /** A floating point value. */
+  double_value?:
+    | number
+    | undefined;
+  /** A boolean value. */
+  bool_value?:
+    | boolean
+    | undefined;
+  /** Labels that further describe the metric, eg. {"tenant": "acme"}. */
+  labels: { [key: string]: string };
+  /** The time at which the metric was recorded in iso format. */
+  record_time: string;
+}
+
+export interface SyntheticMetric_LabelsEntry {
+  key: string;
+  value: string;
+}
+
+/**
+ * An artifact, such as a screenshot, that was stored by the synthetic with
+ * `attach`, and which is listed in the result rather than embedded in it.
+ */
+export interface SyntheticAttachment {
+  /**
+   * The name of the attachment, unique within an attempt of the synthetic,
+   * eg. "checkout.png".
+   */
+  name: string;
+  /** The media type of the attachment, eg. "image/png". */
+  content_type: string;
+  /**
+   * The location that the attachment was stored at, within a directory of the
+   * execution and attempt, eg. "gs://bucket/execution_id/attempt_1/checkout.png".
+   */
+  uri: string;
+  /** The size of the attachment in bytes. */
+  size_bytes: number;
+  /** The time at which the attachment was stored in iso format. */
+  attach_time: string;
+}
+
+/**
+ * A field of a result that was truncated, so that the result fits within its
+ * size budget.
+ */
+export interface SyntheticResultTruncation {
+  /**
+   * The path of the field within the result, eg.
+   * "synthetic_generic_result_v1.steps[2].step_error.stack_trace".
+   */
+  field_path: string;
+  /**
+   * The length of the field before it was truncated, in characters for
+   * strings, and in elements for lists.
+   */
+  original_length: number;
+  /**
+   * The length of the field as it was stored, which for strings includes the
+   * "... [truncated]" marker that they end with.
+   */
+  truncated_length: number;
+}
+
 export interface SyntheticResult {
   synthetic_test_framework_result_v1?: TestFrameworkResultV1 | undefined;
   synthetic_generic_result_v1?: GenericResultV1 | undefined;
@@ -509,6 +688,37 @@ export interface SyntheticResult {
   start_time: string;
   /** The end time of the synthetic in iso format. */
   end_time: string;
+  /** Custom metrics that were recorded while the synthetic was running. */
+  metrics: SyntheticMetric[];
+  /**
+   * Artifacts, such as screenshots, that were attached while the synthetic was
+   * running.
+   */
+  attachments: SyntheticAttachment[];
+  /**
+   * The id of the trace that the synthetic's execution was recorded in, as a
+   * 32 character hex string. Unset when the execution was not traced.
+   */
+  trace_id?:
+    | string
+    | undefined;
+  /**
+   * The id of the span that wraps the synthetic's execution, as a 16
+   * character hex string. Unset when the execution was not traced.
+   */
+  span_id?:
+    | string
+    | undefined;
+  /**
+   * Errors that occurred while running the synthetic, but that did not affect
+   * its outcome, such as a failure to flush its traces.
+   */
+  non_fatal_errors: BaseError[];
+  /**
+   * Fields that were truncated, in the order that they were truncated, as the
+   * result exceeded its size budget.
+   */
+  truncations: SyntheticResultTruncation[];
 }
 
 export interface SyntheticResult_RuntimeMetadataEntry {
@@ -992,7 +1202,15 @@ export const TestFrameworkResultV1 = {
 };
 
 function createBaseGenericResultV1(): GenericResultV1 {
-  return { ok: undefined, generic_error: undefined };
+  return {
+    ok: undefined,
+    generic_error: undefined,
+    steps: [],
+    attempts: [],
+    logs: [],
+    dropped_log_count: undefined,
+    warnings: [],
+  };
 }
 
 export const GenericResultV1 = {
@@ -1003,6 +1221,21 @@ export const GenericResultV1 = {
     if (message.generic_error !== undefined) {
       GenericResultV1_GenericError.encode(message.generic_error, writer.uint32(18).fork()).ldelim();
     }
+    for (const v of message.steps) {
+      GenericResultV1_GenericStep.encode(v!, writer.uint32(26).fork()).ldelim();
+    }
+    for (const v of message.attempts) {
+      GenericResultV1_GenericAttempt.encode(v!, writer.uint32(34).fork()).ldelim();
+    }
+    for (const v of message.logs) {
+      GenericResultV1_GenericLogEntry.encode(v!, writer.uint32(42).fork()).ldelim();
+    }
+    if (message.dropped_log_count !== undefined) {
+      writer.uint32(48).int64(message.dropped_log_count);
+    }
+    for (const v of message.warnings) {
+      GenericResultV1_GenericWarning.encode(v!, writer.uint32(58).fork()).ldelim();
+    }
     return writer;
   },
 
@@ -1027,6 +1260,41 @@ export const GenericResultV1 = {
 
           message.generic_error = GenericResultV1_GenericError.decode(reader, reader.uint32());
           continue;
+        case 3:
+          if (tag !== 26) {
+            break;
+          }
+
+          message.steps.push(GenericResultV1_GenericStep.decode(reader, reader.uint32()));
+          continue;
+        case 4:
+          if (tag !== 34) {
+            break;
+          }
+
+          message.attempts.push(GenericResultV1_GenericAttempt.decode(reader, reader.uint32()));
+          continue;
+        case 5:
+          if (tag !== 42) {
+            break;
+          }
+
+          message.logs.push(GenericResultV1_GenericLogEntry.decode(reader, reader.uint32()));
+          continue;
+        case 6:
+          if (tag !== 48) {
+            break;
+          }
+
+          message.dropped_log_count = longToNumber(reader.int64() as Long);
+          continue;
+        case 7:
+          if (tag !== 58) {
+            break;
+          }
+
+          message.warnings.push(GenericResultV1_GenericWarning.decode(reader, reader.uint32()));
+          continue;
       }
       if ((tag & 7) === 4 || tag === 0) {
         break;
@@ -1042,6 +1310,15 @@ export const GenericResultV1 = {
       generic_error: isSet(object.generic_error)
         ? GenericResultV1_GenericError.fromJSON(object.generic_error)
         : undefined,
+      steps: Array.isArray(object?.steps) ? object.steps.map((e: any) => GenericResultV1_GenericStep.fromJSON(e)) : [],
+      attempts: Array.isArray(object?.attempts)
+        ? object.attempts.map((e: any) => GenericResultV1_GenericAttempt.fromJSON(e))
+        : [],
+      logs: Array.isArray(object?.logs) ? object.logs.map((e: any) => GenericResultV1_GenericLogEntry.fromJSON(e)) : [],
+      dropped_log_count: isSet(object.dropped_log_count) ? Number(object.dropped_log_count) : undefined,
+      warnings: Array.isArray(object?.warnings)
+        ? object.warnings.map((e: any) => GenericResultV1_GenericWarning.fromJSON(e))
+        : [],
     };
   },
 
@@ -1051,6 +1328,27 @@ export const GenericResultV1 = {
     message.generic_error !== undefined && (obj.generic_error = message.generic_error
       ? GenericResultV1_GenericError.toJSON(message.generic_error)
       : undefined);
+    if (message.steps) {
+      obj.steps = message.steps.map((e) => e ? GenericResultV1_GenericStep.toJSON(e) : undefined);
+    } else {
+      obj.steps = [];
+    }
+    if (message.attempts) {
+      obj.attempts = message.attempts.map((e) => e ? GenericResultV1_GenericAttempt.toJSON(e) : undefined);
+    } else {
+      obj.attempts = [];
+    }
+    if (message.logs) {
+      obj.logs = message.logs.map((e) => e ? GenericResultV1_GenericLogEntry.toJSON(e) : undefined);
+    } else {
+      obj.logs = [];
+    }
+    message.dropped_log_count !== undefined && (obj.dropped_log_count = Math.round(message.dropped_log_count));
+    if (message.warnings) {
+      obj.warnings = message.warnings.map((e) => e ? GenericResultV1_GenericWarning.toJSON(e) : undefined);
+    } else {
+      obj.warnings = [];
+    }
     return obj;
   },
 
@@ -1064,12 +1362,26 @@ export const GenericResultV1 = {
     message.generic_error = (object.generic_error !== undefined && object.generic_error !== null)
       ? GenericResultV1_GenericError.fromPartial(object.generic_error)
       : undefined;
+    message.steps = object.steps?.map((e) => GenericResultV1_GenericStep.fromPartial(e)) || [];
+    message.attempts = object.attempts?.map((e) => GenericResultV1_GenericAttempt.fromPartial(e)) || [];
+    message.logs = object.logs?.map((e) => GenericResultV1_GenericLogEntry.fromPartial(e)) || [];
+    message.dropped_log_count = object.dropped_log_count ?? undefined;
+    message.warnings = object.warnings?.map((e) => GenericResultV1_GenericWarning.fromPartial(e)) || [];
     return message;
   },
 };
 
 function createBaseGenericResultV1_GenericError(): GenericResultV1_GenericError {
-  return { error_type: "", error_message: "", function_name: "", file_path: "", line: undefined, stack_trace: "" };
+  return {
+    error_type: "",
+    error_message: "",
+    function_name: "",
+    file_path: "",
+    line: undefined,
+    stack_trace: "",
+    causes: [],
+    column: undefined,
+  };
 }
 
 export const GenericResultV1_GenericError = {
@@ -1092,6 +1404,12 @@ export const GenericResultV1_GenericError = {
     if (message.stack_trace !== "") {
       writer.uint32(50).string(message.stack_trace);
     }
+    for (const v of message.causes) {
+      GenericResultV1_GenericError.encode(v!, writer.uint32(58).fork()).ldelim();
+    }
+    if (message.column !== undefined) {
+      writer.uint32(64).int64(message.column);
+    }
     return writer;
   },
 
@@ -1144,6 +1462,20 @@ export const GenericResultV1_GenericError = {
 
           message.stack_trace = reader.string();
           continue;
+        case 7:
+          if (tag !== 58) {
+            break;
+          }
+
+          message.causes.push(GenericResultV1_GenericError.decode(reader, reader.uint32()));
+          continue;
+        case 8:
+          if (tag !== 64) {
+            break;
+          }
+
+          message.column = longToNumber(reader.int64() as Long);
+          continue;
       }
       if ((tag & 7) === 4 || tag === 0) {
         break;
@@ -1161,6 +1493,10 @@ export const GenericResultV1_GenericError = {
       file_path: isSet(object.file_path) ? String(object.file_path) : "",
       line: isSet(object.line) ? Number(object.line) : undefined,
       stack_trace: isSet(object.stack_trace) ? String(object.stack_trace) : "",
+      causes: Array.isArray(object?.causes)
+        ? object.causes.map((e: any) => GenericResultV1_GenericError.fromJSON(e))
+        : [],
+      column: isSet(object.column) ? Number(object.column) : undefined,
     };
   },
 
@@ -1172,6 +1508,12 @@ export const GenericResultV1_GenericError = {
     message.file_path !== undefined && (obj.file_path = message.file_path);
     message.line !== undefined && (obj.line = Math.round(message.line));
     message.stack_trace !== undefined && (obj.stack_trace = message.stack_trace);
+    if (message.causes) {
+      obj.causes = message.causes.map((e) => e ? GenericResultV1_GenericError.toJSON(e) : undefined);
+    } else {
+      obj.causes = [];
+    }
+    message.column !== undefined && (obj.column = Math.round(message.column));
     return obj;
   },
 
@@ -1187,45 +1529,94 @@ export const GenericResultV1_GenericError = {
     message.file_path = object.file_path ?? "";
     message.line = object.line ?? undefined;
     message.stack_trace = object.stack_trace ?? "";
+    message.causes = object.causes?.map((e) => GenericResultV1_GenericError.fromPartial(e)) || [];
+    message.column = object.column ?? undefined;
     return message;
   },
 };
 
-function createBaseResponseStatusCode(): ResponseStatusCode {
-  return { status_value: undefined, status_class: undefined };
+function createBaseGenericResultV1_GenericStep(): GenericResultV1_GenericStep {
+  return {
+    name: "",
+    ok: undefined,
+    step_start_time: "",
+    step_end_time: "",
+    duration_millis: undefined,
+    step_error: undefined,
+  };
 }
 
-export const ResponseStatusCode = {
-  encode(message: ResponseStatusCode, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
-    if (message.status_value !== undefined) {
-      writer.uint32(8).int32(message.status_value);
+export const GenericResultV1_GenericStep = {
+  encode(message: GenericResultV1_GenericStep, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.name !== "") {
+      writer.uint32(10).string(message.name);
     }
-    if (message.status_class !== undefined) {
-      writer.uint32(16).int32(message.status_class);
+    if (message.ok !== undefined) {
+      writer.uint32(16).bool(message.ok);
+    }
+    if (message.step_start_time !== "") {
+      writer.uint32(26).string(message.step_start_time);
+    }
+    if (message.step_end_time !== "") {
+      writer.uint32(34).string(message.step_end_time);
+    }
+    if (message.duration_millis !== undefined) {
+      writer.uint32(40).int64(message.duration_millis);
+    }
+    if (message.step_error !== undefined) {
+      GenericResultV1_GenericError.encode(message.step_error, writer.uint32(50).fork()).ldelim();
     }
     return writer;
   },
 
-  decode(input: _m0.Reader | Uint8Array, length?: number): ResponseStatusCode {
+  decode(input: _m0.Reader | Uint8Array, length?: number): GenericResultV1_GenericStep {
     const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
     let end = length === undefined ? reader.len : reader.pos + length;
-    const message = createBaseResponseStatusCode();
+    const message = createBaseGenericResultV1_GenericStep();
     while (reader.pos < end) {
       const tag = reader.uint32();
       switch (tag >>> 3) {
         case 1:
-          if (tag !== 8) {
+          if (tag !== 10) {
             break;
           }
 
-          message.status_value = reader.int32();
+          message.name = reader.string();
           continue;
         case 2:
           if (tag !== 16) {
             break;
           }
 
-          message.status_class = reader.int32() as any;
+          message.ok = reader.bool();
+          continue;
+        case 3:
+          if (tag !== 26) {
+            break;
+          }
+
+          message.step_start_time = reader.string();
+          continue;
+        case 4:
+          if (tag !== 34) {
+            break;
+          }
+
+          message.step_end_time = reader.string();
+          continue;
+        case 5:
+          if (tag !== 40) {
+            break;
+          }
+
+          message.duration_millis = longToNumber(reader.int64() as Long);
+          continue;
+        case 6:
+          if (tag !== 50) {
+            break;
+          }
+
+          message.step_error = GenericResultV1_GenericError.decode(reader, reader.uint32());
           continue;
       }
       if ((tag & 7) === 4 || tag === 0) {
@@ -1236,266 +1627,316 @@ export const ResponseStatusCode = {
     return message;
   },
 
-  fromJSON(object: any): ResponseStatusCode {
+  fromJSON(object: any): GenericResultV1_GenericStep {
     return {
-      status_value: isSet(object.status_value) ? Number(object.status_value) : undefined,
-      status_class: isSet(object.status_class)
-        ? responseStatusCode_StatusClassFromJSON(object.status_class)
-        : undefined,
+      name: isSet(object.name) ? String(object.name) : "",
+      ok: isSet(object.ok) ? Boolean(object.ok) : undefined,
+      step_start_time: isSet(object.step_start_time) ? String(object.step_start_time) : "",
+      step_end_time: isSet(object.step_end_time) ? String(object.step_end_time) : "",
+      duration_millis: isSet(object.duration_millis) ? Number(object.duration_millis) : undefined,
+      step_error: isSet(object.step_error) ? GenericResultV1_GenericError.fromJSON(object.step_error) : undefined,
     };
   },
 
-  toJSON(message: ResponseStatusCode): unknown {
+  toJSON(message: GenericResultV1_GenericStep): unknown {
     const obj: any = {};
-    message.status_value !== undefined && (obj.status_value = Math.round(message.status_value));
-    message.status_class !== undefined && (obj.status_class = message.status_class !== undefined
-      ? responseStatusCode_StatusClassToJSON(message.status_class)
-      : undefined);
+    message.name !== undefined && (obj.name = message.name);
+    message.ok !== undefined && (obj.ok = message.ok);
+    message.step_start_time !== undefined && (obj.step_start_time = message.step_start_time);
+    message.step_end_time !== undefined && (obj.step_end_time = message.step_end_time);
+    message.duration_millis !== undefined && (obj.duration_millis = Math.round(message.duration_millis));
+    message.step_error !== undefined &&
+      (obj.step_error = message.step_error ? GenericResultV1_GenericError.toJSON(message.step_error) : undefined);
     return obj;
   },
 
-  create<I extends Exact<DeepPartial<ResponseStatusCode>, I>>(base?: I): ResponseStatusCode {
-    return ResponseStatusCode.fromPartial(base ?? {});
+  create<I extends Exact<DeepPartial<GenericResultV1_GenericStep>, I>>(base?: I): GenericResultV1_GenericStep {
+    return GenericResultV1_GenericStep.fromPartial(base ?? {});
   },
 
-  fromPartial<I extends Exact<DeepPartial<ResponseStatusCode>, I>>(object: I): ResponseStatusCode {
-    const message = createBaseResponseStatusCode();
-    message.status_value = object.status_value ?? undefined;
-    message.status_class = object.status_class ?? undefined;
+  fromPartial<I extends Exact<DeepPartial<GenericResultV1_GenericStep>, I>>(object: I): GenericResultV1_GenericStep {
+    const message = createBaseGenericResultV1_GenericStep();
+    message.name = object.name ?? "";
+    message.ok = object.ok ?? undefined;
+    message.step_start_time = object.step_start_time ?? "";
+    message.step_end_time = object.step_end_time ?? "";
+    message.duration_millis = object.duration_millis ?? undefined;
+    message.step_error = (object.step_error !== undefined && object.step_error !== null)
+      ? GenericResultV1_GenericError.fromPartial(object.step_error)
+      : undefined;
     return message;
   },
 };
 
-function createBaseBaseError(): BaseError {
-  return { error_type: "", error_message: "" };
+function createBaseGenericResultV1_GenericAttempt(): GenericResultV1_GenericAttempt {
+  return {
+    attempt_number: undefined,
+    ok: undefined,
+    attempt_start_time: "",
+    attempt_end_time: "",
+    duration_millis: undefined,
+    attempt_error: undefined,
+  };
 }
 
-export const BaseError = {
-  encode(message: BaseError, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
-    if (message.error_type !== "") {
-      writer.uint32(10).string(message.error_type);
+export const GenericResultV1_GenericAttempt = {
+  encode(message: GenericResultV1_GenericAttempt, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.attempt_number !== undefined) {
+      writer.uint32(8).int64(message.attempt_number);
     }
-    if (message.error_message !== "") {
-      writer.uint32(18).string(message.error_message);
+    if (message.ok !== undefined) {
+      writer.uint32(16).bool(message.ok);
+    }
+    if (message.attempt_start_time !== "") {
+      writer.uint32(26).string(message.attempt_start_time);
+    }
+    if (message.attempt_end_time !== "") {
+      writer.uint32(34).string(message.attempt_end_time);
+    }
+    if (message.duration_millis !== undefined) {
+      writer.uint32(40).int64(message.duration_millis);
+    }
+    if (message.attempt_error !== undefined) {
+      GenericResultV1_GenericError.encode(message.attempt_error, writer.uint32(50).fork()).ldelim();
     }
     return writer;
   },
 
-  decode(input: _m0.Reader | Uint8Array, length?: number): BaseError {
+  decode(input: _m0.Reader | Uint8Array, length?: number): GenericResultV1_GenericAttempt {
     const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
     let end = length === undefined ? reader.len : reader.pos + length;
-    const message = createBaseBaseError();
+    const message = createBaseGenericResultV1_GenericAttempt();
     while (reader.pos < end) {
       const tag = reader.uint32();
       switch (tag >>> 3) {
         case 1:
-          if (tag !== 10) {
+          if (tag !== 8) {
             break;
           }
 
-          message.error_type = reader.string();
+          message.attempt_number = longToNumber(reader.int64() as Long);
           continue;
         case 2:
-          if (tag !== 18) {
+          if (tag !== 16) {
             break;
           }
 
-          message.error_message = reader.string();
+          message.ok = reader.bool();
           continue;
-      }
-      if ((tag & 7) === 4 || tag === 0) {
-        break;
-      }
-      reader.skipType(tag & 7);
-    }
-    return message;
-  },
-
-  fromJSON(object: any): BaseError {
+        case 3:
+          if (tag !== 26) {
+            break;
+          }
+
+          message.attempt_start_time = reader.string();
+          continue;
+        case 4:
+          if (tag !== 34) {
+            break;
+          }
+
+          message.attempt_end_time = reader.string();
+          continue;
+        case 5:
+          if (tag !== 40) {
+            break;
+          }
+
+          message.duration_millis = longToNumber(reader.int64() as Long);
+          continue;
+        case 6:
+          if (tag !== 50) {
+            break;
+          }
+
+          message.attempt_error = GenericResultV1_GenericError.decode(reader, reader.uint32());
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): GenericResultV1_GenericAttempt {
     return {
-      error_type: isSet(object.error_type) ? String(object.error_type) : "",
-      error_message: isSet(object.error_message) ? String(object.error_message) : "",
+      attempt_number: isSet(object.attempt_number) ? Number(object.attempt_number) : undefined,
+      ok: isSet(object.ok) ? Boolean(object.ok) : undefined,
+      attempt_start_time: isSet(object.attempt_start_time) ? String(object.attempt_start_time) : "",
+      attempt_end_time: isSet(object.attempt_end_time) ? String(object.attempt_end_time) : "",
+      duration_millis: isSet(object.duration_millis) ? Number(object.duration_millis) : undefined,
+      attempt_error: isSet(object.attempt_error)
+        ? GenericResultV1_GenericError.fromJSON(object.attempt_error)
+        : undefined,
     };
   },
 
-  toJSON(message: BaseError): unknown {
+  toJSON(message: GenericResultV1_GenericAttempt): unknown {
     const obj: any = {};
-    message.error_type !== undefined && (obj.error_type = message.error_type);
-    message.error_message !== undefined && (obj.error_message = message.error_message);
+    message.attempt_number !== undefined && (obj.attempt_number = Math.round(message.attempt_number));
+    message.ok !== undefined && (obj.ok = message.ok);
+    message.attempt_start_time !== undefined && (obj.attempt_start_time = message.attempt_start_time);
+    message.attempt_end_time !== undefined && (obj.attempt_end_time = message.attempt_end_time);
+    message.duration_millis !== undefined && (obj.duration_millis = Math.round(message.duration_millis));
+    message.attempt_error !== undefined && (obj.attempt_error = message.attempt_error
+      ? GenericResultV1_GenericError.toJSON(message.attempt_error)
+      : undefined);
     return obj;
   },
 
-  create<I extends Exact<DeepPartial<BaseError>, I>>(base?: I): BaseError {
-    return BaseError.fromPartial(base ?? {});
+  create<I extends Exact<DeepPartial<GenericResultV1_GenericAttempt>, I>>(base?: I): GenericResultV1_GenericAttempt {
+    return GenericResultV1_GenericAttempt.fromPartial(base ?? {});
   },
 
-  fromPartial<I extends Exact<DeepPartial<BaseError>, I>>(object: I): BaseError {
-    const message = createBaseBaseError();
-    message.error_type = object.error_type ?? "";
-    message.error_message = object.error_message ?? "";
+  fromPartial<I extends Exact<DeepPartial<GenericResultV1_GenericAttempt>, I>>(
+    object: I,
+  ): GenericResultV1_GenericAttempt {
+    const message = createBaseGenericResultV1_GenericAttempt();
+    message.attempt_number = object.attempt_number ?? undefined;
+    message.ok = object.ok ?? undefined;
+    message.attempt_start_time = object.attempt_start_time ?? "";
+    message.attempt_end_time = object.attempt_end_time ?? "";
+    message.duration_millis = object.duration_millis ?? undefined;
+    message.attempt_error = (object.attempt_error !== undefined && object.attempt_error !== null)
+      ? GenericResultV1_GenericError.fromPartial(object.attempt_error)
+      : undefined;
     return message;
   },
 };
 
-function createBaseBrokenLinksResultV1(): BrokenLinksResultV1 {
-  return {
-    link_count: undefined,
-    passing_link_count: undefined,
-    failing_link_count: undefined,
-    unreachable_count: undefined,
-    status2xx_count: undefined,
-    status3xx_count: undefined,
-    status4xx_count: undefined,
-    status5xx_count: undefined,
-    options: undefined,
-    origin_link_result: undefined,
-    followed_link_results: [],
-    execution_data_storage_path: "",
-    errors: [],
-  };
+function createBaseGenericResultV1_GenericLogEntry(): GenericResultV1_GenericLogEntry {
+  return { log_time: "", level: "", message: "" };
 }
 
-export const BrokenLinksResultV1 = {
-  encode(message: BrokenLinksResultV1, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
-    if (message.link_count !== undefined) {
-      writer.uint32(8).int64(message.link_count);
-    }
-    if (message.passing_link_count !== undefined) {
-      writer.uint32(16).int64(message.passing_link_count);
-    }
-    if (message.failing_link_count !== undefined) {
-      writer.uint32(24).int64(message.failing_link_count);
-    }
-    if (message.unreachable_count !== undefined) {
-      writer.uint32(32).int64(message.unreachable_count);
-    }
-    if (message.status2xx_count !== undefined) {
-      writer.uint32(40).int64(message.status2xx_count);
-    }
-    if (message.status3xx_count !== undefined) {
-      writer.uint32(48).int64(message.status3xx_count);
-    }
-    if (message.status4xx_count !== undefined) {
-      writer.uint32(56).int64(message.status4xx_count);
-    }
-    if (message.status5xx_count !== undefined) {
-      writer.uint32(64).int64(message.status5xx_count);
-    }
-    if (message.options !== undefined) {
-      BrokenLinksResultV1_BrokenLinkCheckerOptions.encode(message.options, writer.uint32(74).fork()).ldelim();
-    }
-    if (message.origin_link_result !== undefined) {
-      BrokenLinksResultV1_SyntheticLinkResult.encode(message.origin_link_result, writer.uint32(82).fork()).ldelim();
-    }
-    for (const v of message.followed_link_results) {
-      BrokenLinksResultV1_SyntheticLinkResult.encode(v!, writer.uint32(90).fork()).ldelim();
+export const GenericResultV1_GenericLogEntry = {
+  encode(message: GenericResultV1_GenericLogEntry, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.log_time !== "") {
+      writer.uint32(10).string(message.log_time);
     }
-    if (message.execution_data_storage_path !== "") {
-      writer.uint32(98).string(message.execution_data_storage_path);
+    if (message.level !== "") {
+      writer.uint32(18).string(message.level);
     }
-    for (const v of message.errors) {
-      BaseError.encode(v!, writer.uint32(106).fork()).ldelim();
+    if (message.message !== "") {
+      writer.uint32(26).string(message.message);
     }
     return writer;
   },
 
-  decode(input: _m0.Reader | Uint8Array, length?: number): BrokenLinksResultV1 {
+  decode(input: _m0.Reader | Uint8Array, length?: number): GenericResultV1_GenericLogEntry {
     const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
     let end = length === undefined ? reader.len : reader.pos + length;
-    const message = createBaseBrokenLinksResultV1();
+    const message = createBaseGenericResultV1_GenericLogEntry();
     while (reader.pos < end) {
       const tag = reader.uint32();
       switch (tag >>> 3) {
         case 1:
-          if (tag !== 8) {
+          if (tag !== 10) {
             break;
           }
 
-          message.link_count = longToNumber(reader.int64() as Long);
+          message.log_time = reader.string();
           continue;
         case 2:
-          if (tag !== 16) {
+          if (tag !== 18) {
             break;
           }
 
-          message.passing_link_count = longToNumber(reader.int64() as Long);
+          message.level = reader.string();
           continue;
         case 3:
-          if (tag !== 24) {
+          if (tag !== 26) {
             break;
           }
 
-          message.failing_link_count = longToNumber(reader.int64() as Long);
+          message.message = reader.string();
           continue;
-        case 4:
-          if (tag !== 32) {
-            break;
-          }
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
 
-          message.unreachable_count = longToNumber(reader.int64() as Long);
-          continue;
-        case 5:
-          if (tag !== 40) {
-            break;
-          }
+  fromJSON(object: any): GenericResultV1_GenericLogEntry {
+    return {
+      log_time: isSet(object.log_time) ? String(object.log_time) : "",
+      level: isSet(object.level) ? String(object.level) : "",
+      message: isSet(object.message) ? String(object.message) : "",
+    };
+  },
 
-          message.status2xx_count = longToNumber(reader.int64() as Long);
-          continue;
-        case 6:
-          if (tag !== 48) {
-            break;
-          }
+  toJSON(message: GenericResultV1_GenericLogEntry): unknown {
+    const obj: any = {};
+    message.log_time !== undefined && (obj.log_time = message.log_time);
+    message.level !== undefined && (obj.level = message.level);
+    message.message !== undefined && (obj.message = message.message);
+    return obj;
+  },
 
-          message.status3xx_count = longToNumber(reader.int64() as Long);
-          continue;
-        case 7:
-          if (tag !== 56) {
-            break;
-          }
+  create<I extends Exact<DeepPartial<GenericResultV1_GenericLogEntry>, I>>(base?: I): GenericResultV1_GenericLogEntry {
+    return GenericResultV1_GenericLogEntry.fromPartial(base ?? {});
+  },
 
-          message.status4xx_count = longToNumber(reader.int64() as Long);
-          continue;
-        case 8:
-          if (tag !== 64) {
-            break;
-          }
+  fromPartial<I extends Exact<DeepPartial<GenericResultV1_GenericLogEntry>, I>>(
+    object: I,
+  ): GenericResultV1_GenericLogEntry {
+    const message = createBaseGenericResultV1_GenericLogEntry();
+    message.log_time = object.log_time ?? "";
+    message.level = object.level ?? "";
+    message.message = object.message ?? "";
+    return message;
+  },
+};
 
-          message.status5xx_count = longToNumber(reader.int64() as Long);
-          continue;
-        case 9:
-          if (tag !== 74) {
-            break;
-          }
+function createBaseGenericResultV1_GenericWarning(): GenericResultV1_GenericWarning {
+  return { warning_type: "", warning_message: "", warning_time: "" };
+}
 
-          message.options = BrokenLinksResultV1_BrokenLinkCheckerOptions.decode(reader, reader.uint32());
-          continue;
-        case 10:
-          if (tag !== 82) {
-            break;
-          }
+export const GenericResultV1_GenericWarning = {
+  encode(message: GenericResultV1_GenericWarning, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.warning_type !== "") {
+      writer.uint32(10).string(message.warning_type);
+    }
+    if (message.warning_message !== "") {
+      writer.uint32(18).string(message.warning_message);
+    }
+    if (message.warning_time !== "") {
+      writer.uint32(26).string(message.warning_time);
+    }
+    return writer;
+  },
 
-          message.origin_link_result = BrokenLinksResultV1_SyntheticLinkResult.decode(reader, reader.uint32());
-          continue;
-        case 11:
-          if (tag !== 90) {
+  decode(input: _m0.Reader | Uint8Array, length?: number): GenericResultV1_GenericWarning {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseGenericResultV1_GenericWarning();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
             break;
           }
 
-          message.followed_link_results.push(BrokenLinksResultV1_SyntheticLinkResult.decode(reader, reader.uint32()));
+          message.warning_type = reader.string();
           continue;
-        case 12:
-          if (tag !== 98) {
+        case 2:
+          if (tag !== 18) {
             break;
           }
 
-          message.execution_data_storage_path = reader.string();
+          message.warning_message = reader.string();
           continue;
-        case 13:
-          if (tag !== 106) {
+        case 3:
+          if (tag !== 26) {
             break;
           }
 
-          message.errors.push(BaseError.decode(reader, reader.uint32()));
+          message.warning_time = reader.string();
           continue;
       }
       if ((tag & 7) === 4 || tag === 0) {
@@ -1506,243 +1947,1116 @@ export const BrokenLinksResultV1 = {
     return message;
   },
 
-  fromJSON(object: any): BrokenLinksResultV1 {
+  fromJSON(object: any): GenericResultV1_GenericWarning {
     return {
-      link_count: isSet(object.link_count) ? Number(object.link_count) : undefined,
-      passing_link_count: isSet(object.passing_link_count) ? Number(object.passing_link_count) : undefined,
-      failing_link_count: isSet(object.failing_link_count) ? Number(object.failing_link_count) : undefined,
-      unreachable_count: isSet(object.unreachable_count) ? Number(object.unreachable_count) : undefined,
-      status2xx_count: isSet(object.status2xx_count) ? Number(object.status2xx_count) : undefined,
-      status3xx_count: isSet(object.status3xx_count) ? Number(object.status3xx_count) : undefined,
-      status4xx_count: isSet(object.status4xx_count) ? Number(object.status4xx_count) : undefined,
-      status5xx_count: isSet(object.status5xx_count) ? Number(object.status5xx_count) : undefined,
-      options: isSet(object.options)
-        ? BrokenLinksResultV1_BrokenLinkCheckerOptions.fromJSON(object.options)
-        : undefined,
-      origin_link_result: isSet(object.origin_link_result)
-        ? BrokenLinksResultV1_SyntheticLinkResult.fromJSON(object.origin_link_result)
-        : undefined,
-      followed_link_results: Array.isArray(object?.followed_link_results)
-        ? object.followed_link_results.map((e: any) => BrokenLinksResultV1_SyntheticLinkResult.fromJSON(e))
-        : [],
-      execution_data_storage_path: isSet(object.execution_data_storage_path)
-        ? String(object.execution_data_storage_path)
-        : "",
-      errors: Array.isArray(object?.errors) ? object.errors.map((e: any) => BaseError.fromJSON(e)) : [],
+      warning_type: isSet(object.warning_type) ? String(object.warning_type) : "",
+      warning_message: isSet(object.warning_message) ? String(object.warning_message) : "",
+      warning_time: isSet(object.warning_time) ? String(object.warning_time) : "",
     };
   },
 
-  toJSON(message: BrokenLinksResultV1): unknown {
+  toJSON(message: GenericResultV1_GenericWarning): unknown {
     const obj: any = {};
-    message.link_count !== undefined && (obj.link_count = Math.round(message.link_count));
-    message.passing_link_count !== undefined && (obj.passing_link_count = Math.round(message.passing_link_count));
-    message.failing_link_count !== undefined && (obj.failing_link_count = Math.round(message.failing_link_count));
-    message.unreachable_count !== undefined && (obj.unreachable_count = Math.round(message.unreachable_count));
-    message.status2xx_count !== undefined && (obj.status2xx_count = Math.round(message.status2xx_count));
-    message.status3xx_count !== undefined && (obj.status3xx_count = Math.round(message.status3xx_count));
-    message.status4xx_count !== undefined && (obj.status4xx_count = Math.round(message.status4xx_count));
-    message.status5xx_count !== undefined && (obj.status5xx_count = Math.round(message.status5xx_count));
-    message.options !== undefined &&
-      (obj.options = message.options
-        ? BrokenLinksResultV1_BrokenLinkCheckerOptions.toJSON(message.options)
-        : undefined);
-    message.origin_link_result !== undefined && (obj.origin_link_result = message.origin_link_result
-      ? BrokenLinksResultV1_SyntheticLinkResult.toJSON(message.origin_link_result)
-      : undefined);
-    if (message.followed_link_results) {
-      obj.followed_link_results = message.followed_link_results.map((e) =>
-        e ? BrokenLinksResultV1_SyntheticLinkResult.toJSON(e) : undefined
-      );
-    } else {
-      obj.followed_link_results = [];
-    }
-    message.execution_data_storage_path !== undefined &&
-      (obj.execution_data_storage_path = message.execution_data_storage_path);
-    if (message.errors) {
-      obj.errors = message.errors.map((e) => e ? BaseError.toJSON(e) : undefined);
-    } else {
-      obj.errors = [];
-    }
+    message.warning_type !== undefined && (obj.warning_type = message.warning_type);
+    message.warning_message !== undefined && (obj.warning_message = message.warning_message);
+    message.warning_time !== undefined && (obj.warning_time = message.warning_time);
     return obj;
   },
 
-  create<I extends Exact<DeepPartial<BrokenLinksResultV1>, I>>(base?: I): BrokenLinksResultV1 {
+  create<I extends Exact<DeepPartial<GenericResultV1_GenericWarning>, I>>(base?: I): GenericResultV1_GenericWarning {
+    return GenericResultV1_GenericWarning.fromPartial(base ?? {});
+  },
+
+  fromPartial<I extends Exact<DeepPartial<GenericResultV1_GenericWarning>, I>>(
+    object: I,
+  ): GenericResultV1_GenericWarning {
+    const message = createBaseGenericResultV1_GenericWarning();
+    message.warning_type = object.warning_type ?? "";
+    message.warning_message = object.warning_message ?? "";
+    message.warning_time = object.warning_time ?? "";
+    return message;
+  },
+};
+
+function createBaseResponseStatusCode(): ResponseStatusCode {
+  return { status_value: undefined, status_class: undefined };
+}
+
+export const ResponseStatusCode = {
+  encode(message: ResponseStatusCode, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.status_value !== undefined) {
+      writer.uint32(8).int32(message.status_value);
+    }
+    if (message.status_class !== undefined) {
+      writer.uint32(16).int32(message.status_class);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): ResponseStatusCode {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseResponseStatusCode();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.status_value = reader.int32();
+          continue;
+        case 2:
+          if (tag !== 16) {
+            break;
+          }
+
+          message.status_class = reader.int32() as any;
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): ResponseStatusCode {
+    return {
+      status_value: isSet(object.status_value) ? Number(object.status_value) : undefined,
+      status_class: isSet(object.status_class)
+        ? responseStatusCode_StatusClassFromJSON(object.status_class)
+        : undefined,
+    };
+  },
+
+  toJSON(message: ResponseStatusCode): unknown {
+    const obj: any = {};
+    message.status_value !== undefined && (obj.status_value = Math.round(message.status_value));
+    message.status_class !== undefined && (obj.status_class = message.status_class !== undefined
+      ? responseStatusCode_StatusClassToJSON(message.status_class)
+      : undefined);
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<ResponseStatusCode>, I>>(base?: I): ResponseStatusCode {
+    return ResponseStatusCode.fromPartial(base ?? {});
+  },
+
+  fromPartial<I extends Exact<DeepPartial<ResponseStatusCode>, I>>(object: I): ResponseStatusCode {
+    const message = createBaseResponseStatusCode();
+    message.status_value = object.status_value ?? undefined;
+    message.status_class = object.status_class ?? undefined;
+    return message;
+  },
+};
+
+function createBaseBaseError(): BaseError {
+  return { error_type: "", error_message: "" };
+}
+
+export const BaseError = {
+  encode(message: BaseError, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.error_type !== "") {
+      writer.uint32(10).string(message.error_type);
+    }
+    if (message.error_message !== "") {
+      writer.uint32(18).string(message.error_message);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): BaseError {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseBaseError();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.error_type = reader.string();
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.error_message = reader.string();
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): BaseError {
+    return {
+      error_type: isSet(object.error_type) ? String(object.error_type) : "",
+      error_message: isSet(object.error_message) ? String(object.error_message) : "",
+    };
+  },
+
+  toJSON(message: BaseError): unknown {
+    const obj: any = {};
+    message.error_type !== undefined && (obj.error_type = message.error_type);
+    message.error_message !== undefined && (obj.error_message = message.error_message);
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<BaseError>, I>>(base?: I): BaseError {
+    return BaseError.fromPartial(base ?? {});
+  },
+
+  fromPartial<I extends Exact<DeepPartial<BaseError>, I>>(object: I): BaseError {
+    const message = createBaseBaseError();
+    message.error_type = object.error_type ?? "";
+    message.error_message = object.error_message ?? "";
+    return message;
+  },
+};
+
+function createBaseBrokenLinksResultV1(): BrokenLinksResultV1 {
+  return {
+    link_count: undefined,
+    passing_link_count: undefined,
+    failing_link_count: undefined,
+    unreachable_count: undefined,
+    status2xx_count: undefined,
+    status3xx_count: undefined,
+    status4xx_count: undefined,
+    status5xx_count: undefined,
+    options: undefined,
+    origin_link_result: undefined,
+    followed_link_results: [],
+    execution_data_storage_path: "",
+    errors: [],
+  };
+}
+
+export const BrokenLinksResultV1 = {
+  encode(message: BrokenLinksResultV1, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.link_count !== undefined) {
+      writer.uint32(8).int64(message.link_count);
+    }
+    if (message.passing_link_count !== undefined) {
+      writer.uint32(16).int64(message.passing_link_count);
+    }
+    if (message.failing_link_count !== undefined) {
+      writer.uint32(24).int64(message.failing_link_count);
+    }
+    if (message.unreachable_count !== undefined) {
+      writer.uint32(32).int64(message.unreachable_count);
+    }
+    if (message.status2xx_count !== undefined) {
+      writer.uint32(40).int64(message.status2xx_count);
+    }
+    if (message.status3xx_count !== undefined) {
+      writer.uint32(48).int64(message.status3xx_count);
+    }
+    if (message.status4xx_count !== undefined) {
+      writer.uint32(56).int64(message.status4xx_count);
+    }
+    if (message.status5xx_count !== undefined) {
+      writer.uint32(64).int64(message.status5xx_count);
+    }
+    if (message.options !== undefined) {
+      BrokenLinksResultV1_BrokenLinkCheckerOptions.encode(message.options, writer.uint32(74).fork()).ldelim();
+    }
+    if (message.origin_link_result !== undefined) {
+      BrokenLinksResultV1_SyntheticLinkResult.encode(message.origin_link_result, writer.uint32(82).fork()).ldelim();
+    }
+    for (const v of message.followed_link_results) {
+      BrokenLinksResultV1_SyntheticLinkResult.encode(v!, writer.uint32(90).fork()).ldelim();
+    }
+    if (message.execution_data_storage_path !== "") {
+      writer.uint32(98).string(message.execution_data_storage_path);
+    }
+    for (const v of message.errors) {
+      BaseError.encode(v!, writer.uint32(106).fork()).ldelim();
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): BrokenLinksResultV1 {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseBrokenLinksResultV1();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 8) {
+            break;
+          }
+
+          message.link_count = longToNumber(reader.int64() as Long);
+          continue;
+        case 2:
+          if (tag !== 16) {
+            break;
+          }
+
+          message.passing_link_count = longToNumber(reader.int64() as Long);
+          continue;
+        case 3:
+          if (tag !== 24) {
+            break;
+          }
+
+          message.failing_link_count = longToNumber(reader.int64() as Long);
+          continue;
+        case 4:
+          if (tag !== 32) {
+            break;
+          }
+
+          message.unreachable_count = longToNumber(reader.int64() as Long);
+          continue;
+        case 5:
+          if (tag !== 40) {
+            break;
+          }
+
+          message.status2xx_count = longToNumber(reader.int64() as Long);
+          continue;
+        case 6:
+          if (tag !== 48) {
+            break;
+          }
+
+          message.status3xx_count = longToNumber(reader.int64() as Long);
+          continue;
+        case 7:
+          if (tag !== 56) {
+            break;
+          }
+
+          message.status4xx_count = longToNumber(reader.int64() as Long);
+          continue;
+        case 8:
+          if (tag !== 64) {
+            break;
+          }
+
+          message.status5xx_count = longToNumber(reader.int64() as Long);
+          continue;
+        case 9:
+          if (tag !== 74) {
+            break;
+          }
+
+          message.options = BrokenLinksResultV1_BrokenLinkCheckerOptions.decode(reader, reader.uint32());
+          continue;
+        case 10:
+          if (tag !== 82) {
+            break;
+          }
+
+          message.origin_link_result = BrokenLinksResultV1_SyntheticLinkResult.decode(reader, reader.uint32());
+          continue;
+        case 11:
+          if (tag !== 90) {
+            break;
+          }
+
+          message.followed_link_results.push(BrokenLinksResultV1_SyntheticLinkResult.decode(reader, reader.uint32()));
+          continue;
+        case 12:
+          if (tag !== 98) {
+            break;
+          }
+
+          message.execution_data_storage_path = reader.string();
+          continue;
+        case 13:
+          if (tag !== 106) {
+            break;
+          }
+
+          message.errors.push(BaseError.decode(reader, reader.uint32()));
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): BrokenLinksResultV1 {
+    return {
+      link_count: isSet(object.link_count) ? Number(object.link_count) : undefined,
+      passing_link_count: isSet(object.passing_link_count) ? Number(object.passing_link_count) : undefined,
+      failing_link_count: isSet(object.failing_link_count) ? Number(object.failing_link_count) : undefined,
+      unreachable_count: isSet(object.unreachable_count) ? Number(object.unreachable_count) : undefined,
+      status2xx_count: isSet(object.status2xx_count) ? Number(object.status2xx_count) : undefined,
+      status3xx_count: isSet(object.status3xx_count) ? Number(object.status3xx_count) : undefined,
+      status4xx_count: isSet(object.status4xx_count) ? Number(object.status4xx_count) : undefined,
+      status5xx_count: isSet(object.status5xx_count) ? Number(object.status5xx_count) : undefined,
+      options: isSet(object.options)
+        ? BrokenLinksResultV1_BrokenLinkCheckerOptions.fromJSON(object.options)
+        : undefined,
+      origin_link_result: isSet(object.origin_link_result)
+        ? BrokenLinksResultV1_SyntheticLinkResult.fromJSON(object.origin_link_result)
+        : undefined,
+      followed_link_results: Array.isArray(object?.followed_link_results)
+        ? object.followed_link_results.map((e: any) => BrokenLinksResultV1_SyntheticLinkResult.fromJSON(e))
+        : [],
+      execution_data_storage_path: isSet(object.execution_data_storage_path)
+        ? String(object.execution_data_storage_path)
+        : "",
+      errors: Array.isArray(object?.errors) ? object.errors.map((e: any) => BaseError.fromJSON(e)) : [],
+    };
+  },
+
+  toJSON(message: BrokenLinksResultV1): unknown {
+    const obj: any = {};
+    message.link_count !== undefined && (obj.link_count = Math.round(message.link_count));
+    message.passing_link_count !== undefined && (obj.passing_link_count = Math.round(message.passing_link_count));
+    message.failing_link_count !== undefined && (obj.failing_link_count = Math.round(message.failing_link_count));
+    message.unreachable_count !== undefined && (obj.unreachable_count = Math.round(message.unreachable_count));
+    message.status2xx_count !== undefined && (obj.status2xx_count = Math.round(message.status2xx_count));
+    message.status3xx_count !== undefined && (obj.status3xx_count = Math.round(message.status3xx_count));
+    message.status4xx_count !== undefined && (obj.status4xx_count = Math.round(message.status4xx_count));
+    message.status5xx_count !== undefined && (obj.status5xx_count = Math.round(message.status5xx_count));
+    message.options !== undefined &&
+      (obj.options = message.options
+        ? BrokenLinksResultV1_BrokenLinkCheckerOptions.toJSON(message.options)
+        : undefined);
+    message.origin_link_result !== undefined && (obj.origin_link_result = message.origin_link_result
+      ? BrokenLinksResultV1_SyntheticLinkResult.toJSON(message.origin_link_result)
+      : undefined);
+    if (message.followed_link_results) {
+      obj.followed_link_results = message.followed_link_results.map((e) =>
+        e ? BrokenLinksResultV1_SyntheticLinkResult.toJSON(e) : undefined
+      );
+    } else {
+      obj.followed_link_results = [];
+    }
+    message.execution_data_storage_path !== undefined &&
+      (obj.execution_data_storage_path = message.execution_data_storage_path);
+    if (message.errors) {
+      obj.errors = message.errors.map((e) => e ? BaseError.toJSON(e) : undefined);
+    } else {
+      obj.errors = [];
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<BrokenLinksResultV1>, I>>(base?: I): BrokenLinksResultV1 {
     return BrokenLinksResultV1.fromPartial(base ?? {});
   },
 
-  fromPartial<I extends Exact<DeepPartial<BrokenLinksResultV1>, I>>(object: I): BrokenLinksResultV1 {
-    const message = createBaseBrokenLinksResultV1();
-    message.link_count = object.link_count ?? undefined;
-    message.passing_link_count = object.passing_link_count ?? undefined;
-    message.failing_link_count = object.failing_link_count ?? undefined;
-    message.unreachable_count = object.unreachable_count ?? undefined;
-    message.status2xx_count = object.status2xx_count ?? undefined;
-    message.status3xx_count = object.status3xx_count ?? undefined;
-    message.status4xx_count = object.status4xx_count ?? undefined;
-    message.status5xx_count = object.status5xx_count ?? undefined;
-    message.options = (object.options !== undefined && object.options !== null)
-      ? BrokenLinksResultV1_BrokenLinkCheckerOptions.fromPartial(object.options)
+  fromPartial<I extends Exact<DeepPartial<BrokenLinksResultV1>, I>>(object: I): BrokenLinksResultV1 {
+    const message = createBaseBrokenLinksResultV1();
+    message.link_count = object.link_count ?? undefined;
+    message.passing_link_count = object.passing_link_count ?? undefined;
+    message.failing_link_count = object.failing_link_count ?? undefined;
+    message.unreachable_count = object.unreachable_count ?? undefined;
+    message.status2xx_count = object.status2xx_count ?? undefined;
+    message.status3xx_count = object.status3xx_count ?? undefined;
+    message.status4xx_count = object.status4xx_count ?? undefined;
+    message.status5xx_count = object.status5xx_count ?? undefined;
+    message.options = (object.options !== undefined && object.options !== null)
+      ? BrokenLinksResultV1_BrokenLinkCheckerOptions.fromPartial(object.options)
+      : undefined;
+    message.origin_link_result = (object.origin_link_result !== undefined && object.origin_link_result !== null)
+      ? BrokenLinksResultV1_SyntheticLinkResult.fromPartial(object.origin_link_result)
+      : undefined;
+    message.followed_link_results =
+      object.followed_link_results?.map((e) => BrokenLinksResultV1_SyntheticLinkResult.fromPartial(e)) || [];
+    message.execution_data_storage_path = object.execution_data_storage_path ?? "";
+    message.errors = object.errors?.map((e) => BaseError.fromPartial(e)) || [];
+    return message;
+  },
+};
+
+function createBaseBrokenLinksResultV1_BrokenLinkCheckerOptions(): BrokenLinksResultV1_BrokenLinkCheckerOptions {
+  return {
+    origin_uri: "",
+    link_limit: undefined,
+    query_selector_all: "",
+    get_attributes: [],
+    link_order: 0,
+    link_timeout_millis: undefined,
+    max_retries: undefined,
+    wait_for_selector: "",
+    per_link_options: {},
+    total_synthetic_timeout_millis: undefined,
+    screenshot_options: undefined,
+  };
+}
+
+export const BrokenLinksResultV1_BrokenLinkCheckerOptions = {
+  encode(message: BrokenLinksResultV1_BrokenLinkCheckerOptions, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.origin_uri !== "") {
+      writer.uint32(10).string(message.origin_uri);
+    }
+    if (message.link_limit !== undefined) {
+      writer.uint32(16).int64(message.link_limit);
+    }
+    if (message.query_selector_all !== "") {
+      writer.uint32(26).string(message.query_selector_all);
+    }
+    for (const v of message.get_attributes) {
+      writer.uint32(34).string(v!);
+    }
+    if (message.link_order !== 0) {
+      writer.uint32(40).int32(message.link_order);
+    }
+    if (message.link_timeout_millis !== undefined) {
+      writer.uint32(48).int64(message.link_timeout_millis);
+    }
+    if (message.max_retries !== undefined) {
+      writer.uint32(56).int64(message.max_retries);
+    }
+    if (message.wait_for_selector !== "") {
+      writer.uint32(74).string(message.wait_for_selector);
+    }
+    Object.entries(message.per_link_options).forEach(([key, value]) => {
+      BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOptionsEntry.encode(
+        { key: key as any, value },
+        writer.uint32(82).fork(),
+      ).ldelim();
+    });
+    if (message.total_synthetic_timeout_millis !== undefined) {
+      writer.uint32(88).int64(message.total_synthetic_timeout_millis);
+    }
+    if (message.screenshot_options !== undefined) {
+      BrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions.encode(
+        message.screenshot_options,
+        writer.uint32(98).fork(),
+      ).ldelim();
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): BrokenLinksResultV1_BrokenLinkCheckerOptions {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseBrokenLinksResultV1_BrokenLinkCheckerOptions();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.origin_uri = reader.string();
+          continue;
+        case 2:
+          if (tag !== 16) {
+            break;
+          }
+
+          message.link_limit = longToNumber(reader.int64() as Long);
+          continue;
+        case 3:
+          if (tag !== 26) {
+            break;
+          }
+
+          message.query_selector_all = reader.string();
+          continue;
+        case 4:
+          if (tag !== 34) {
+            break;
+          }
+
+          message.get_attributes.push(reader.string());
+          continue;
+        case 5:
+          if (tag !== 40) {
+            break;
+          }
+
+          message.link_order = reader.int32() as any;
+          continue;
+        case 6:
+          if (tag !== 48) {
+            break;
+          }
+
+          message.link_timeout_millis = longToNumber(reader.int64() as Long);
+          continue;
+        case 7:
+          if (tag !== 56) {
+            break;
+          }
+
+          message.max_retries = longToNumber(reader.int64() as Long);
+          continue;
+        case 9:
+          if (tag !== 74) {
+            break;
+          }
+
+          message.wait_for_selector = reader.string();
+          continue;
+        case 10:
+          if (tag !== 82) {
+            break;
+          }
+
+          const entry10 = BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOptionsEntry.decode(
+            reader,
+            reader.uint32(),
+          );
+          if (entry10.value !== undefined) {
+            message.per_link_options[entry10.key] = entry10.value;
+          }
+          continue;
+        case 11:
+          if (tag !== 88) {
+            break;
+          }
+
+          message.total_synthetic_timeout_millis = longToNumber(reader.int64() as Long);
+          continue;
+        case 12:
+          if (tag !== 98) {
+            break;
+          }
+
+          message.screenshot_options = BrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions.decode(
+            reader,
+            reader.uint32(),
+          );
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): BrokenLinksResultV1_BrokenLinkCheckerOptions {
+    return {
+      origin_uri: isSet(object.origin_uri) ? String(object.origin_uri) : "",
+      link_limit: isSet(object.link_limit) ? Number(object.link_limit) : undefined,
+      query_selector_all: isSet(object.query_selector_all) ? String(object.query_selector_all) : "",
+      get_attributes: Array.isArray(object?.get_attributes) ? object.get_attributes.map((e: any) => String(e)) : [],
+      link_order: isSet(object.link_order)
+        ? brokenLinksResultV1_BrokenLinkCheckerOptions_LinkOrderFromJSON(object.link_order)
+        : 0,
+      link_timeout_millis: isSet(object.link_timeout_millis) ? Number(object.link_timeout_millis) : undefined,
+      max_retries: isSet(object.max_retries) ? Number(object.max_retries) : undefined,
+      wait_for_selector: isSet(object.wait_for_selector) ? String(object.wait_for_selector) : "",
+      per_link_options: isObject(object.per_link_options)
+        ? Object.entries(object.per_link_options).reduce<
+          { [key: string]: BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption }
+        >((acc, [key, value]) => {
+          acc[key] = BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption.fromJSON(value);
+          return acc;
+        }, {})
+        : {},
+      total_synthetic_timeout_millis: isSet(object.total_synthetic_timeout_millis)
+        ? Number(object.total_synthetic_timeout_millis)
+        : undefined,
+      screenshot_options: isSet(object.screenshot_options)
+        ? BrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions.fromJSON(object.screenshot_options)
+        : undefined,
+    };
+  },
+
+  toJSON(message: BrokenLinksResultV1_BrokenLinkCheckerOptions): unknown {
+    const obj: any = {};
+    message.origin_uri !== undefined && (obj.origin_uri = message.origin_uri);
+    message.link_limit !== undefined && (obj.link_limit = Math.round(message.link_limit));
+    message.query_selector_all !== undefined && (obj.query_selector_all = message.query_selector_all);
+    if (message.get_attributes) {
+      obj.get_attributes = message.get_attributes.map((e) => e);
+    } else {
+      obj.get_attributes = [];
+    }
+    message.link_order !== undefined &&
+      (obj.link_order = brokenLinksResultV1_BrokenLinkCheckerOptions_LinkOrderToJSON(message.link_order));
+    message.link_timeout_millis !== undefined && (obj.link_timeout_millis = Math.round(message.link_timeout_millis));
+    message.max_retries !== undefined && (obj.max_retries = Math.round(message.max_retries));
+    message.wait_for_selector !== undefined && (obj.wait_for_selector = message.wait_for_selector);
+    obj.per_link_options = {};
+    if (message.per_link_options) {
+      Object.entries(message.per_link_options).forEach(([k, v]) => {
+        obj.per_link_options[k] = BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption.toJSON(v);
+      });
+    }
+    message.total_synthetic_timeout_millis !== undefined &&
+      (obj.total_synthetic_timeout_millis = Math.round(message.total_synthetic_timeout_millis));
+    message.screenshot_options !== undefined && (obj.screenshot_options = message.screenshot_options
+      ? BrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions.toJSON(message.screenshot_options)
+      : undefined);
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<BrokenLinksResultV1_BrokenLinkCheckerOptions>, I>>(
+    base?: I,
+  ): BrokenLinksResultV1_BrokenLinkCheckerOptions {
+    return BrokenLinksResultV1_BrokenLinkCheckerOptions.fromPartial(base ?? {});
+  },
+
+  fromPartial<I extends Exact<DeepPartial<BrokenLinksResultV1_BrokenLinkCheckerOptions>, I>>(
+    object: I,
+  ): BrokenLinksResultV1_BrokenLinkCheckerOptions {
+    const message = createBaseBrokenLinksResultV1_BrokenLinkCheckerOptions();
+    message.origin_uri = object.origin_uri ?? "";
+    message.link_limit = object.link_limit ?? undefined;
+    message.query_selector_all = object.query_selector_all ?? "";
+    message.get_attributes = object.get_attributes?.map((e) => e) || [];
+    message.link_order = object.link_order ?? 0;
+    message.link_timeout_millis = object.link_timeout_millis ?? undefined;
+    message.max_retries = object.max_retries ?? undefined;
+    message.wait_for_selector = object.wait_for_selector ?? "";
+    message.per_link_options = Object.entries(object.per_link_options ?? {}).reduce<
+      { [key: string]: BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption }
+    >((acc, [key, value]) => {
+      if (value !== undefined) {
+        acc[key] = BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption.fromPartial(value);
+      }
+      return acc;
+    }, {});
+    message.total_synthetic_timeout_millis = object.total_synthetic_timeout_millis ?? undefined;
+    message.screenshot_options = (object.screenshot_options !== undefined && object.screenshot_options !== null)
+      ? BrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions.fromPartial(object.screenshot_options)
+      : undefined;
+    return message;
+  },
+};
+
+function createBaseBrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption(): BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption {
+  return { expected_status_code: undefined, link_timeout_millis: undefined };
+}
+
+export const BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption = {
+  encode(
+    message: BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption,
+    writer: _m0.Writer = _m0.Writer.create(),
+  ): _m0.Writer {
+    if (message.expected_status_code !== undefined) {
+      ResponseStatusCode.encode(message.expected_status_code, writer.uint32(10).fork()).ldelim();
+    }
+    if (message.link_timeout_millis !== undefined) {
+      writer.uint32(16).int64(message.link_timeout_millis);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseBrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.expected_status_code = ResponseStatusCode.decode(reader, reader.uint32());
+          continue;
+        case 2:
+          if (tag !== 16) {
+            break;
+          }
+
+          message.link_timeout_millis = longToNumber(reader.int64() as Long);
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption {
+    return {
+      expected_status_code: isSet(object.expected_status_code)
+        ? ResponseStatusCode.fromJSON(object.expected_status_code)
+        : undefined,
+      link_timeout_millis: isSet(object.link_timeout_millis) ? Number(object.link_timeout_millis) : undefined,
+    };
+  },
+
+  toJSON(message: BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption): unknown {
+    const obj: any = {};
+    message.expected_status_code !== undefined && (obj.expected_status_code = message.expected_status_code
+      ? ResponseStatusCode.toJSON(message.expected_status_code)
+      : undefined);
+    message.link_timeout_millis !== undefined && (obj.link_timeout_millis = Math.round(message.link_timeout_millis));
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption>, I>>(
+    base?: I,
+  ): BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption {
+    return BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption.fromPartial(base ?? {});
+  },
+
+  fromPartial<I extends Exact<DeepPartial<BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption>, I>>(
+    object: I,
+  ): BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption {
+    const message = createBaseBrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption();
+    message.expected_status_code = (object.expected_status_code !== undefined && object.expected_status_code !== null)
+      ? ResponseStatusCode.fromPartial(object.expected_status_code)
       : undefined;
-    message.origin_link_result = (object.origin_link_result !== undefined && object.origin_link_result !== null)
-      ? BrokenLinksResultV1_SyntheticLinkResult.fromPartial(object.origin_link_result)
+    message.link_timeout_millis = object.link_timeout_millis ?? undefined;
+    return message;
+  },
+};
+
+function createBaseBrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOptionsEntry(): BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOptionsEntry {
+  return { key: "", value: undefined };
+}
+
+export const BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOptionsEntry = {
+  encode(
+    message: BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOptionsEntry,
+    writer: _m0.Writer = _m0.Writer.create(),
+  ): _m0.Writer {
+    if (message.key !== "") {
+      writer.uint32(10).string(message.key);
+    }
+    if (message.value !== undefined) {
+      BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption.encode(message.value, writer.uint32(18).fork())
+        .ldelim();
+    }
+    return writer;
+  },
+
+  decode(
+    input: _m0.Reader | Uint8Array,
+    length?: number,
+  ): BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOptionsEntry {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseBrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOptionsEntry();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.key = reader.string();
+          continue;
+        case 2:
+          if (tag !== 18) {
+            break;
+          }
+
+          message.value = BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption.decode(reader, reader.uint32());
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOptionsEntry {
+    return {
+      key: isSet(object.key) ? String(object.key) : "",
+      value: isSet(object.value)
+        ? BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption.fromJSON(object.value)
+        : undefined,
+    };
+  },
+
+  toJSON(message: BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOptionsEntry): unknown {
+    const obj: any = {};
+    message.key !== undefined && (obj.key = message.key);
+    message.value !== undefined && (obj.value = message.value
+      ? BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption.toJSON(message.value)
+      : undefined);
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOptionsEntry>, I>>(
+    base?: I,
+  ): BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOptionsEntry {
+    return BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOptionsEntry.fromPartial(base ?? {});
+  },
+
+  fromPartial<I extends Exact<DeepPartial<BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOptionsEntry>, I>>(
+    object: I,
+  ): BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOptionsEntry {
+    const message = createBaseBrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOptionsEntry();
+    message.key = object.key ?? "";
+    message.value = (object.value !== undefined && object.value !== null)
+      ? BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption.fromPartial(object.value)
       : undefined;
-    message.followed_link_results =
-      object.followed_link_results?.map((e) => BrokenLinksResultV1_SyntheticLinkResult.fromPartial(e)) || [];
-    message.execution_data_storage_path = object.execution_data_storage_path ?? "";
-    message.errors = object.errors?.map((e) => BaseError.fromPartial(e)) || [];
     return message;
   },
 };
 
-function createBaseBrokenLinksResultV1_BrokenLinkCheckerOptions(): BrokenLinksResultV1_BrokenLinkCheckerOptions {
+function createBaseBrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions(): BrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions {
+  return { storage_location: "", capture_condition: 0 };
+}
+
+export const BrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions = {
+  encode(
+    message: BrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions,
+    writer: _m0.Writer = _m0.Writer.create(),
+  ): _m0.Writer {
+    if (message.storage_location !== "") {
+      writer.uint32(10).string(message.storage_location);
+    }
+    if (message.capture_condition !== 0) {
+      writer.uint32(16).int32(message.capture_condition);
+    }
+    return writer;
+  },
+
+  decode(
+    input: _m0.Reader | Uint8Array,
+    length?: number,
+  ): BrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions {
+    const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseBrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          if (tag !== 10) {
+            break;
+          }
+
+          message.storage_location = reader.string();
+          continue;
+        case 2:
+          if (tag !== 16) {
+            break;
+          }
+
+          message.capture_condition = reader.int32() as any;
+          continue;
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skipType(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): BrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions {
+    return {
+      storage_location: isSet(object.storage_location) ? String(object.storage_location) : "",
+      capture_condition: isSet(object.capture_condition)
+        ? brokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions_CaptureConditionFromJSON(
+          object.capture_condition,
+        )
+        : 0,
+    };
+  },
+
+  toJSON(message: BrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions): unknown {
+    const obj: any = {};
+    message.storage_location !== undefined && (obj.storage_location = message.storage_location);
+    message.capture_condition !== undefined &&
+      (obj.capture_condition = brokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions_CaptureConditionToJSON(
+        message.capture_condition,
+      ));
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<BrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions>, I>>(
+    base?: I,
+  ): BrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions {
+    return BrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions.fromPartial(base ?? {});
+  },
+
+  fromPartial<I extends Exact<DeepPartial<BrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions>, I>>(
+    object: I,
+  ): BrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions {
+    const message = createBaseBrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions();
+    message.storage_location = object.storage_location ?? "";
+    message.capture_condition = object.capture_condition ?? 0;
+    return message;
+  },
+};
+
+function createBaseBrokenLinksResultV1_SyntheticLinkResult(): BrokenLinksResultV1_SyntheticLinkResult {
   return {
-    origin_uri: "",
-    link_limit: undefined,
-    query_selector_all: "",
-    get_attributes: [],
-    link_order: 0,
-    link_timeout_millis: undefined,
-    max_retries: undefined,
-    wait_for_selector: "",
-    per_link_options: {},
-    total_synthetic_timeout_millis: undefined,
-    screenshot_options: undefined,
+    link_passed: undefined,
+    expected_status_code: undefined,
+    source_uri: "",
+    target_uri: "",
+    anchor_text: "",
+    html_element: "",
+    status_code: undefined,
+    error_type: "",
+    error_message: "",
+    link_start_time: "",
+    link_end_time: "",
+    is_origin: undefined,
+    screenshot_output: undefined,
   };
 }
 
-export const BrokenLinksResultV1_BrokenLinkCheckerOptions = {
-  encode(message: BrokenLinksResultV1_BrokenLinkCheckerOptions, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
-    if (message.origin_uri !== "") {
-      writer.uint32(10).string(message.origin_uri);
+export const BrokenLinksResultV1_SyntheticLinkResult = {
+  encode(message: BrokenLinksResultV1_SyntheticLinkResult, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.link_passed !== undefined) {
+      writer.uint32(8).bool(message.link_passed);
     }
-    if (message.link_limit !== undefined) {
-      writer.uint32(16).int64(message.link_limit);
+    if (message.expected_status_code !== undefined) {
+      ResponseStatusCode.encode(message.expected_status_code, writer.uint32(18).fork()).ldelim();
     }
-    if (message.query_selector_all !== "") {
-      writer.uint32(26).string(message.query_selector_all);
+    if (message.source_uri !== "") {
+      writer.uint32(26).string(message.source_uri);
     }
-    for (const v of message.get_attributes) {
-      writer.uint32(34).string(v!);
+    if (message.target_uri !== "") {
+      writer.uint32(34).string(message.target_uri);
     }
-    if (message.link_order !== 0) {
-      writer.uint32(40).int32(message.link_order);
+    if (message.anchor_text !== "") {
+      writer.uint32(42).string(message.anchor_text);
     }
-    if (message.link_timeout_millis !== undefined) {
-      writer.uint32(48).int64(message.link_timeout_millis);
+    if (message.html_element !== "") {
+      writer.uint32(50).string(message.html_element);
     }
-    if (message.max_retries !== undefined) {
-      writer.uint32(56).int64(message.max_retries);
+    if (message.status_code !== undefined) {
+      writer.uint32(56).int64(message.status_code);
     }
-    if (message.wait_for_selector !== "") {
-      writer.uint32(74).string(message.wait_for_selector);
+    if (message.error_type !== "") {
+      writer.uint32(66).string(message.error_type);
     }
-    Object.entries(message.per_link_options).forEach(([key, value]) => {
-      BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOptionsEntry.encode(
-        { key: key as any, value },
-        writer.uint32(82).fork(),
-      ).ldelim();
-    });
-    if (message.total_synthetic_timeout_millis !== undefined) {
-      writer.uint32(88).int64(message.total_synthetic_timeout_millis);
+    if (message.error_message !== "") {
+      writer.uint32(74).string(message.error_message);
     }
-    if (message.screenshot_options !== undefined) {
-      BrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions.encode(
-        message.screenshot_options,
-        writer.uint32(98).fork(),
+    if (message.link_start_time !== "") {
+      writer.uint32(82).string(message.link_start_time);
+    }
+    if (message.link_end_time !== "") {
+      writer.uint32(90).string(message.link_end_time);
+    }
+    if (message.is_origin !== undefined) {
+      writer.uint32(96).bool(message.is_origin);
+    }
+    if (message.screenshot_output !== undefined) {
+      BrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput.encode(
+        message.screenshot_output,
+        writer.uint32(106).fork(),
       ).ldelim();
     }
     return writer;
   },
 
-  decode(input: _m0.Reader | Uint8Array, length?: number): BrokenLinksResultV1_BrokenLinkCheckerOptions {
+  decode(input: _m0.Reader | Uint8Array, length?: number): BrokenLinksResultV1_SyntheticLinkResult {
     const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
     let end = length === undefined ? reader.len : reader.pos + length;
-    const message = createBaseBrokenLinksResultV1_BrokenLinkCheckerOptions();
+    const message = createBaseBrokenLinksResultV1_SyntheticLinkResult();
     while (reader.pos < end) {
       const tag = reader.uint32();
       switch (tag >>> 3) {
         case 1:
-          if (tag !== 10) {
+          if (tag !== 8) {
             break;
           }
 
-          message.origin_uri = reader.string();
+          message.link_passed = reader.bool();
           continue;
         case 2:
-          if (tag !== 16) {
+          if (tag !== 18) {
             break;
           }
 
-          message.link_limit = longToNumber(reader.int64() as Long);
+          message.expected_status_code = ResponseStatusCode.decode(reader, reader.uint32());
           continue;
         case 3:
           if (tag !== 26) {
             break;
           }
 
-          message.query_selector_all = reader.string();
+          message.source_uri = reader.string();
           continue;
         case 4:
           if (tag !== 34) {
             break;
           }
 
-          message.get_attributes.push(reader.string());
+          message.target_uri = reader.string();
           continue;
         case 5:
-          if (tag !== 40) {
+          if (tag !== 42) {
             break;
           }
 
-          message.link_order = reader.int32() as any;
+          message.anchor_text = reader.string();
           continue;
         case 6:
-          if (tag !== 48) {
+          if (tag !== 50) {
             break;
           }
 
-          message.link_timeout_millis = longToNumber(reader.int64() as Long);
+          message.html_element = reader.string();
           continue;
         case 7:
           if (tag !== 56) {
             break;
           }
 
-          message.max_retries = longToNumber(reader.int64() as Long);
+          message.status_code = longToNumber(reader.int64() as Long);
+          continue;
+        case 8:
+          if (tag !== 66) {
+            break;
+          }
+
+          message.error_type = reader.string();
           continue;
         case 9:
           if (tag !== 74) {
             break;
           }
 
-          message.wait_for_selector = reader.string();
+          message.error_message = reader.string();
           continue;
         case 10:
           if (tag !== 82) {
             break;
           }
 
-          const entry10 = BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOptionsEntry.decode(
-            reader,
-            reader.uint32(),
-          );
-          if (entry10.value !== undefined) {
-            message.per_link_options[entry10.key] = entry10.value;
-          }
+          message.link_start_time = reader.string();
           continue;
         case 11:
-          if (tag !== 88) {
+          if (tag !== 90) {
             break;
           }
 
-          message.total_synthetic_timeout_millis = longToNumber(reader.int64() as Long);
+          message.link_end_time = reader.string();
           continue;
         case 12:
-          if (tag !== 98) {
+          if (tag !== 96) {
             break;
           }
 
-          message.screenshot_options = BrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions.decode(
+          message.is_origin = reader.bool();
+          continue;
+        case 13:
+          if (tag !== 106) {
+            break;
+          }
+
+          message.screenshot_output = BrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput.decode(
             reader,
             reader.uint32(),
           );
@@ -1756,120 +3070,103 @@ export const BrokenLinksResultV1_BrokenLinkCheckerOptions = {
     return message;
   },
 
-  fromJSON(object: any): BrokenLinksResultV1_BrokenLinkCheckerOptions {
+  fromJSON(object: any): BrokenLinksResultV1_SyntheticLinkResult {
     return {
-      origin_uri: isSet(object.origin_uri) ? String(object.origin_uri) : "",
-      link_limit: isSet(object.link_limit) ? Number(object.link_limit) : undefined,
-      query_selector_all: isSet(object.query_selector_all) ? String(object.query_selector_all) : "",
-      get_attributes: Array.isArray(object?.get_attributes) ? object.get_attributes.map((e: any) => String(e)) : [],
-      link_order: isSet(object.link_order)
-        ? brokenLinksResultV1_BrokenLinkCheckerOptions_LinkOrderFromJSON(object.link_order)
-        : 0,
-      link_timeout_millis: isSet(object.link_timeout_millis) ? Number(object.link_timeout_millis) : undefined,
-      max_retries: isSet(object.max_retries) ? Number(object.max_retries) : undefined,
-      wait_for_selector: isSet(object.wait_for_selector) ? String(object.wait_for_selector) : "",
-      per_link_options: isObject(object.per_link_options)
-        ? Object.entries(object.per_link_options).reduce<
-          { [key: string]: BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption }
-        >((acc, [key, value]) => {
-          acc[key] = BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption.fromJSON(value);
-          return acc;
-        }, {})
-        : {},
-      total_synthetic_timeout_millis: isSet(object.total_synthetic_timeout_millis)
-        ? Number(object.total_synthetic_timeout_millis)
+      link_passed: isSet(object.link_passed) ? Boolean(object.link_passed) : undefined,
+      expected_status_code: isSet(object.expected_status_code)
+        ? ResponseStatusCode.fromJSON(object.expected_status_code)
         : undefined,
-      screenshot_options: isSet(object.screenshot_options)
-        ? BrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions.fromJSON(object.screenshot_options)
+      source_uri: isSet(object.source_uri) ? String(object.source_uri) : "",
+      target_uri: isSet(object.target_uri) ? String(object.target_uri) : "",
+      anchor_text: isSet(object.anchor_text) ? String(object.anchor_text) : "",
+      html_element: isSet(object.html_element) ? String(object.html_element) : "",
+      status_code: isSet(object.status_code) ? Number(object.status_code) : undefined,
+      error_type: isSet(object.error_type) ? String(object.error_type) : "",
+      error_message: isSet(object.error_message) ? String(object.error_message) : "",
+      link_start_time: isSet(object.link_start_time) ? String(object.link_start_time) : "",
+      link_end_time: isSet(object.link_end_time) ? String(object.link_end_time) : "",
+      is_origin: isSet(object.is_origin) ? Boolean(object.is_origin) : undefined,
+      screenshot_output: isSet(object.screenshot_output)
+        ? BrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput.fromJSON(object.screenshot_output)
         : undefined,
     };
   },
 
-  toJSON(message: BrokenLinksResultV1_BrokenLinkCheckerOptions): unknown {
+  toJSON(message: BrokenLinksResultV1_SyntheticLinkResult): unknown {
     const obj: any = {};
-    message.origin_uri !== undefined && (obj.origin_uri = message.origin_uri);
-    message.link_limit !== undefined && (obj.link_limit = Math.round(message.link_limit));
-    message.query_selector_all !== undefined && (obj.query_selector_all = message.query_selector_all);
-    if (message.get_attributes) {
-      obj.get_attributes = message.get_attributes.map((e) => e);
-    } else {
-      obj.get_attributes = [];
-    }
-    message.link_order !== undefined &&
-      (obj.link_order = brokenLinksResultV1_BrokenLinkCheckerOptions_LinkOrderToJSON(message.link_order));
-    message.link_timeout_millis !== undefined && (obj.link_timeout_millis = Math.round(message.link_timeout_millis));
-    message.max_retries !== undefined && (obj.max_retries = Math.round(message.max_retries));
-    message.wait_for_selector !== undefined && (obj.wait_for_selector = message.wait_for_selector);
-    obj.per_link_options = {};
-    if (message.per_link_options) {
-      Object.entries(message.per_link_options).forEach(([k, v]) => {
-        obj.per_link_options[k] = BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption.toJSON(v);
-      });
-    }
-    message.total_synthetic_timeout_millis !== undefined &&
-      (obj.total_synthetic_timeout_millis = Math.round(message.total_synthetic_timeout_millis));
-    message.screenshot_options !== undefined && (obj.screenshot_options = message.screenshot_options
-      ? BrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions.toJSON(message.screenshot_options)
+    message.link_passed !== undefined && (obj.link_passed = message.link_passed);
+    message.expected_status_code !== undefined && (obj.expected_status_code = message.expected_status_code
+      ? ResponseStatusCode.toJSON(message.expected_status_code)
+      : undefined);
+    message.source_uri !== undefined && (obj.source_uri = message.source_uri);
+    message.target_uri !== undefined && (obj.target_uri = message.target_uri);
+    message.anchor_text !== undefined && (obj.anchor_text = message.anchor_text);
+    message.html_element !== undefined && (obj.html_element = message.html_element);
+    message.status_code !== undefined && (obj.status_code = Math.round(message.status_code));
+    message.error_type !== undefined && (obj.error_type = message.error_type);
+    message.error_message !== undefined && (obj.error_message = message.error_message);
+    message.link_start_time !== undefined && (obj.link_start_time = message.link_start_time);
+    message.link_end_time !== undefined && (obj.link_end_time = message.link_end_time);
+    message.is_origin !== undefined && (obj.is_origin = message.is_origin);
+    message.screenshot_output !== undefined && (obj.screenshot_output = message.screenshot_output
+      ? BrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput.toJSON(message.screenshot_output)
       : undefined);
     return obj;
   },
 
-  create<I extends Exact<DeepPartial<BrokenLinksResultV1_BrokenLinkCheckerOptions>, I>>(
+  create<I extends Exact<DeepPartial<BrokenLinksResultV1_SyntheticLinkResult>, I>>(
     base?: I,
-  ): BrokenLinksResultV1_BrokenLinkCheckerOptions {
-    return BrokenLinksResultV1_BrokenLinkCheckerOptions.fromPartial(base ?? {});
+  ): BrokenLinksResultV1_SyntheticLinkResult {
+    return BrokenLinksResultV1_SyntheticLinkResult.fromPartial(base ?? {});
   },
 
-  fromPartial<I extends Exact<DeepPartial<BrokenLinksResultV1_BrokenLinkCheckerOptions>, I>>(
+  fromPartial<I extends Exact<DeepPartial<BrokenLinksResultV1_SyntheticLinkResult>, I>>(
     object: I,
-  ): BrokenLinksResultV1_BrokenLinkCheckerOptions {
-    const message = createBaseBrokenLinksResultV1_BrokenLinkCheckerOptions();
-    message.origin_uri = object.origin_uri ?? "";
-    message.link_limit = object.link_limit ?? undefined;
-    message.query_selector_all = object.query_selector_all ?? "";
-    message.get_attributes = object.get_attributes?.map((e) => e) || [];
-    message.link_order = object.link_order ?? 0;
-    message.link_timeout_millis = object.link_timeout_millis ?? undefined;
-    message.max_retries = object.max_retries ?? undefined;
-    message.wait_for_selector = object.wait_for_selector ?? "";
-    message.per_link_options = Object.entries(object.per_link_options ?? {}).reduce<
-      { [key: string]: BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption }
-    >((acc, [key, value]) => {
-      if (value !== undefined) {
-        acc[key] = BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption.fromPartial(value);
-      }
-      return acc;
-    }, {});
-    message.total_synthetic_timeout_millis = object.total_synthetic_timeout_millis ?? undefined;
-    message.screenshot_options = (object.screenshot_options !== undefined && object.screenshot_options !== null)
-      ? BrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions.fromPartial(object.screenshot_options)
+  ): BrokenLinksResultV1_SyntheticLinkResult {
+    const message = createBaseBrokenLinksResultV1_SyntheticLinkResult();
+    message.link_passed = object.link_passed ?? undefined;
+    message.expected_status_code = (object.expected_status_code !== undefined && object.expected_status_code !== null)
+      ? ResponseStatusCode.fromPartial(object.expected_status_code)
+      : undefined;
+    message.source_uri = object.source_uri ?? "";
+    message.target_uri = object.target_uri ?? "";
+    message.anchor_text = object.anchor_text ?? "";
+    message.html_element = object.html_element ?? "";
+    message.status_code = object.status_code ?? undefined;
+    message.error_type = object.error_type ?? "";
+    message.error_message = object.error_message ?? "";
+    message.link_start_time = object.link_start_time ?? "";
+    message.link_end_time = object.link_end_time ?? "";
+    message.is_origin = object.is_origin ?? undefined;
+    message.screenshot_output = (object.screenshot_output !== undefined && object.screenshot_output !== null)
+      ? BrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput.fromPartial(object.screenshot_output)
       : undefined;
     return message;
   },
 };
 
-function createBaseBrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption(): BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption {
-  return { expected_status_code: undefined, link_timeout_millis: undefined };
+function createBaseBrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput(): BrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput {
+  return { screenshot_file: "", screenshot_error: undefined };
 }
 
-export const BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption = {
+export const BrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput = {
   encode(
-    message: BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption,
+    message: BrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput,
     writer: _m0.Writer = _m0.Writer.create(),
   ): _m0.Writer {
-    if (message.expected_status_code !== undefined) {
-      ResponseStatusCode.encode(message.expected_status_code, writer.uint32(10).fork()).ldelim();
+    if (message.screenshot_file !== "") {
+      writer.uint32(10).string(message.screenshot_file);
     }
-    if (message.link_timeout_millis !== undefined) {
-      writer.uint32(16).int64(message.link_timeout_millis);
+    if (message.screenshot_error !== undefined) {
+      BaseError.encode(message.screenshot_error, writer.uint32(18).fork()).ldelim();
     }
     return writer;
   },
 
-  decode(input: _m0.Reader | Uint8Array, length?: number): BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption {
+  decode(input: _m0.Reader | Uint8Array, length?: number): BrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput {
     const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
     let end = length === undefined ? reader.len : reader.pos + length;
-    const message = createBaseBrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption();
+    const message = createBaseBrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput();
     while (reader.pos < end) {
       const tag = reader.uint32();
       switch (tag >>> 3) {
@@ -1878,14 +3175,14 @@ export const BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption = {
             break;
           }
 
-          message.expected_status_code = ResponseStatusCode.decode(reader, reader.uint32());
+          message.screenshot_file = reader.string();
           continue;
         case 2:
-          if (tag !== 16) {
+          if (tag !== 18) {
             break;
           }
 
-          message.link_timeout_millis = longToNumber(reader.int64() as Long);
+          message.screenshot_error = BaseError.decode(reader, reader.uint32());
           continue;
       }
       if ((tag & 7) === 4 || tag === 0) {
@@ -1896,68 +3193,77 @@ export const BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption = {
     return message;
   },
 
-  fromJSON(object: any): BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption {
+  fromJSON(object: any): BrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput {
     return {
-      expected_status_code: isSet(object.expected_status_code)
-        ? ResponseStatusCode.fromJSON(object.expected_status_code)
-        : undefined,
-      link_timeout_millis: isSet(object.link_timeout_millis) ? Number(object.link_timeout_millis) : undefined,
+      screenshot_file: isSet(object.screenshot_file) ? String(object.screenshot_file) : "",
+      screenshot_error: isSet(object.screenshot_error) ? BaseError.fromJSON(object.screenshot_error) : undefined,
     };
   },
 
-  toJSON(message: BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption): unknown {
+  toJSON(message: BrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput): unknown {
     const obj: any = {};
-    message.expected_status_code !== undefined && (obj.expected_status_code = message.expected_status_code
-      ? ResponseStatusCode.toJSON(message.expected_status_code)
-      : undefined);
-    message.link_timeout_millis !== undefined && (obj.link_timeout_millis = Math.round(message.link_timeout_millis));
+    message.screenshot_file !== undefined && (obj.screenshot_file = message.screenshot_file);
+    message.screenshot_error !== undefined &&
+      (obj.screenshot_error = message.screenshot_error ? BaseError.toJSON(message.screenshot_error) : undefined);
     return obj;
   },
 
-  create<I extends Exact<DeepPartial<BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption>, I>>(
+  create<I extends Exact<DeepPartial<BrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput>, I>>(
     base?: I,
-  ): BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption {
-    return BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption.fromPartial(base ?? {});
+  ): BrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput {
+    return BrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput.fromPartial(base ?? {});
   },
 
-  fromPartial<I extends Exact<DeepPartial<BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption>, I>>(
+  fromPartial<I extends Exact<DeepPartial<BrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput>, I>>(
     object: I,
-  ): BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption {
-    const message = createBaseBrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption();
-    message.expected_status_code = (object.expected_status_code !== undefined && object.expected_status_code !== null)
-      ? ResponseStatusCode.fromPartial(object.expected_status_code)
+  ): BrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput {
+    const message = createBaseBrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput();
+    message.screenshot_file = object.screenshot_file ?? "";
+    message.screenshot_error = (object.screenshot_error !== undefined && object.screenshot_error !== null)
+      ? BaseError.fromPartial(object.screenshot_error)
       : undefined;
-    message.link_timeout_millis = object.link_timeout_millis ?? undefined;
     return message;
   },
 };
 
-function createBaseBrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOptionsEntry(): BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOptionsEntry {
-  return { key: "", value: undefined };
+function createBaseSyntheticMetric(): SyntheticMetric {
+  return {
+    name: "",
+    int64_value: undefined,
+    double_value: undefined,
+    bool_value: undefined,
+    labels: {},
+    record_time: "",
+  };
 }
 
-export const BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOptionsEntry = {
-  encode(
-    message: BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOptionsEntry,
-    writer: _m0.Writer = _m0.Writer.create(),
-  ): _m0.Writer {
-    if (message.key !== "") {
-      writer.uint32(10).string(message.key);
+export const SyntheticMetric = {
+  encode(message: SyntheticMetric, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.name !== "") {
+      writer.uint32(10).string(message.name);
     }
-    if (message.value !== undefined) {
-      BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption.encode(message.value, writer.uint32(18).fork())
-        .ldelim();
+    if (message.int64_value !== undefined) {
+      writer.uint32(16).int64(message.int64_value);
+    }
+    if (message.double_value !== undefined) {
+      writer.uint32(25).double(message.double_value);
+    }
+    if (message.bool_value !== undefined) {
+      writer.uint32(32).bool(message.bool_value);
+    }
+    Object.entries(message.labels).forEach(([key, value]) => {
+      SyntheticMetric_LabelsEntry.encode({ key: key as any, value }, writer.uint32(42).fork()).ldelim();
+    });
+    if (message.record_time !== "") {
+      writer.uint32(50).string(message.record_time);
     }
     return writer;
   },
 
-  decode(
-    input: _m0.Reader | Uint8Array,
-    length?: number,
-  ): BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOptionsEntry {
+  decode(input: _m0.Reader | Uint8Array, length?: number): SyntheticMetric {
     const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
     let end = length === undefined ? reader.len : reader.pos + length;
-    const message = createBaseBrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOptionsEntry();
+    const message = createBaseSyntheticMetric();
     while (reader.pos < end) {
       const tag = reader.uint32();
       switch (tag >>> 3) {
@@ -1966,14 +3272,45 @@ export const BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOptionsEntry =
             break;
           }
 
-          message.key = reader.string();
+          message.name = reader.string();
           continue;
         case 2:
-          if (tag !== 18) {
+          if (tag !== 16) {
             break;
           }
 
-          message.value = BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption.decode(reader, reader.uint32());
+          message.int64_value = longToNumber(reader.int64() as Long);
+          continue;
+        case 3:
+          if (tag !== 25) {
+            break;
+          }
+
+          message.double_value = reader.double();
+          continue;
+        case 4:
+          if (tag !== 32) {
+            break;
+          }
+
+          message.bool_value = reader.bool();
+          continue;
+        case 5:
+          if (tag !== 42) {
+            break;
+          }
+
+          const entry5 = SyntheticMetric_LabelsEntry.decode(reader, reader.uint32());
+          if (entry5.value !== undefined) {
+            message.labels[entry5.key] = entry5.value;
+          }
+          continue;
+        case 6:
+          if (tag !== 50) {
+            break;
+          }
+
+          message.record_time = reader.string();
           continue;
       }
       if ((tag & 7) === 4 || tag === 0) {
@@ -1984,67 +3321,78 @@ export const BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOptionsEntry =
     return message;
   },
 
-  fromJSON(object: any): BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOptionsEntry {
+  fromJSON(object: any): SyntheticMetric {
     return {
-      key: isSet(object.key) ? String(object.key) : "",
-      value: isSet(object.value)
-        ? BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption.fromJSON(object.value)
-        : undefined,
+      name: isSet(object.name) ? String(object.name) : "",
+      int64_value: isSet(object.int64_value) ? Number(object.int64_value) : undefined,
+      double_value: isSet(object.double_value) ? Number(object.double_value) : undefined,
+      bool_value: isSet(object.bool_value) ? Boolean(object.bool_value) : undefined,
+      labels: isObject(object.labels)
+        ? Object.entries(object.labels).reduce<{ [key: string]: string }>((acc, [key, value]) => {
+          acc[key] = String(value);
+          return acc;
+        }, {})
+        : {},
+      record_time: isSet(object.record_time) ? String(object.record_time) : "",
     };
   },
 
-  toJSON(message: BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOptionsEntry): unknown {
+  toJSON(message: SyntheticMetric): unknown {
     const obj: any = {};
-    message.key !== undefined && (obj.key = message.key);
-    message.value !== undefined && (obj.value = message.value
-      ? BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption.toJSON(message.value)
-      : undefined);
+    message.name !== undefined && (obj.name = message.name);
+    message.int64_value !== undefined && (obj.int64_value = Math.round(message.int64_value));
+    message.double_value !== undefined && (obj.double_value = message.double_value);
+    message.bool_value !== undefined && (obj.bool_value = message.bool_value);
+    obj.labels = {};
+    if (message.labels) {
+      Object.entries(message.labels).forEach(([k, v]) => {
+        obj.labels[k] = v;
+      });
+    }
+    message.record_time !== undefined && (obj.record_time = message.record_time);
     return obj;
   },
 
-  create<I extends Exact<DeepPartial<BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOptionsEntry>, I>>(
-    base?: I,
-  ): BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOptionsEntry {
-    return BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOptionsEntry.fromPartial(base ?? {});
+  create<I extends Exact<DeepPartial<SyntheticMetric>, I>>(base?: I): SyntheticMetric {
+    return SyntheticMetric.fromPartial(base ?? {});
   },
 
-  fromPartial<I extends Exact<DeepPartial<BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOptionsEntry>, I>>(
-    object: I,
-  ): BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOptionsEntry {
-    const message = createBaseBrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOptionsEntry();
-    message.key = object.key ?? "";
-    message.value = (object.value !== undefined && object.value !== null)
-      ? BrokenLinksResultV1_BrokenLinkCheckerOptions_PerLinkOption.fromPartial(object.value)
-      : undefined;
+  fromPartial<I extends Exact<DeepPartial<SyntheticMetric>, I>>(object: I): SyntheticMetric {
+    const message = createBaseSyntheticMetric();
+    message.name = object.name ?? "";
+    message.int64_value = object.int64_value ?? undefined;
+    message.double_value = object.double_value ?? undefined;
+    message.bool_value = object.bool_value ?? undefined;
+    message.labels = Object.entries(object.labels ?? {}).reduce<{ [key: string]: string }>((acc, [key, value]) => {
+      if (value !== undefined) {
+        acc[key] = String(value);
+      }
+      return acc;
+    }, {});
+    message.record_time = object.record_time ?? "";
     return message;
   },
 };
 
-function createBaseBrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions(): BrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions {
-  return { storage_location: "", capture_condition: 0 };
+function createBaseSyntheticMetric_LabelsEntry(): SyntheticMetric_LabelsEntry {
+  return { key: "", value: "" };
 }
 
-export const BrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions = {
-  encode(
-    message: BrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions,
-    writer: _m0.Writer = _m0.Writer.create(),
-  ): _m0.Writer {
-    if (message.storage_location !== "") {
-      writer.uint32(10).string(message.storage_location);
+export const SyntheticMetric_LabelsEntry = {
+  encode(message: SyntheticMetric_LabelsEntry, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.key !== "") {
+      writer.uint32(10).string(message.key);
     }
-    if (message.capture_condition !== 0) {
-      writer.uint32(16).int32(message.capture_condition);
+    if (message.value !== "") {
+      writer.uint32(18).string(message.value);
     }
     return writer;
   },
 
-  decode(
-    input: _m0.Reader | Uint8Array,
-    length?: number,
-  ): BrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions {
+  decode(input: _m0.Reader | Uint8Array, length?: number): SyntheticMetric_LabelsEntry {
     const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
     let end = length === undefined ? reader.len : reader.pos + length;
-    const message = createBaseBrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions();
+    const message = createBaseSyntheticMetric_LabelsEntry();
     while (reader.pos < end) {
       const tag = reader.uint32();
       switch (tag >>> 3) {
@@ -2053,14 +3401,14 @@ export const BrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions = {
             break;
           }
 
-          message.storage_location = reader.string();
+          message.key = reader.string();
           continue;
         case 2:
-          if (tag !== 16) {
+          if (tag !== 18) {
             break;
           }
 
-          message.capture_condition = reader.int32() as any;
+          message.value = reader.string();
           continue;
       }
       if ((tag & 7) === 4 || tag === 0) {
@@ -2071,208 +3419,94 @@ export const BrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions = {
     return message;
   },
 
-  fromJSON(object: any): BrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions {
-    return {
-      storage_location: isSet(object.storage_location) ? String(object.storage_location) : "",
-      capture_condition: isSet(object.capture_condition)
-        ? brokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions_CaptureConditionFromJSON(
-          object.capture_condition,
-        )
-        : 0,
-    };
-  },
-
-  toJSON(message: BrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions): unknown {
-    const obj: any = {};
-    message.storage_location !== undefined && (obj.storage_location = message.storage_location);
-    message.capture_condition !== undefined &&
-      (obj.capture_condition = brokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions_CaptureConditionToJSON(
-        message.capture_condition,
-      ));
-    return obj;
-  },
-
-  create<I extends Exact<DeepPartial<BrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions>, I>>(
-    base?: I,
-  ): BrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions {
-    return BrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions.fromPartial(base ?? {});
-  },
-
-  fromPartial<I extends Exact<DeepPartial<BrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions>, I>>(
-    object: I,
-  ): BrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions {
-    const message = createBaseBrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions();
-    message.storage_location = object.storage_location ?? "";
-    message.capture_condition = object.capture_condition ?? 0;
-    return message;
-  },
-};
-
-function createBaseBrokenLinksResultV1_SyntheticLinkResult(): BrokenLinksResultV1_SyntheticLinkResult {
-  return {
-    link_passed: undefined,
-    expected_status_code: undefined,
-    source_uri: "",
-    target_uri: "",
-    anchor_text: "",
-    html_element: "",
-    status_code: undefined,
-    error_type: "",
-    error_message: "",
-    link_start_time: "",
-    link_end_time: "",
-    is_origin: undefined,
-    screenshot_output: undefined,
-  };
-}
-
-export const BrokenLinksResultV1_SyntheticLinkResult = {
-  encode(message: BrokenLinksResultV1_SyntheticLinkResult, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
-    if (message.link_passed !== undefined) {
-      writer.uint32(8).bool(message.link_passed);
-    }
-    if (message.expected_status_code !== undefined) {
-      ResponseStatusCode.encode(message.expected_status_code, writer.uint32(18).fork()).ldelim();
-    }
-    if (message.source_uri !== "") {
-      writer.uint32(26).string(message.source_uri);
-    }
-    if (message.target_uri !== "") {
-      writer.uint32(34).string(message.target_uri);
-    }
-    if (message.anchor_text !== "") {
-      writer.uint32(42).string(message.anchor_text);
-    }
-    if (message.html_element !== "") {
-      writer.uint32(50).string(message.html_element);
-    }
-    if (message.status_code !== undefined) {
-      writer.uint32(56).int64(message.status_code);
-    }
-    if (message.error_type !== "") {
-      writer.uint32(66).string(message.error_type);
-    }
-    if (message.error_message !== "") {
-      writer.uint32(74).string(message.error_message);
+  fromJSON(object: any): SyntheticMetric_LabelsEntry {
+    return { key: isSet(object.key) ? String(object.key) : "", value: isSet(object.value) ? String(object.value) : "" };
+  },
+
+  toJSON(message: SyntheticMetric_LabelsEntry): unknown {
+    const obj: any = {};
+    message.key !== undefined && (obj.key = message.key);
+    message.value !== undefined && (obj.value = message.value);
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<SyntheticMetric_LabelsEntry>, I>>(base?: I): SyntheticMetric_LabelsEntry {
+    return SyntheticMetric_LabelsEntry.fromPartial(base ?? {});
+  },
+
+  fromPartial<I extends Exact<DeepPartial<SyntheticMetric_LabelsEntry>, I>>(object: I): SyntheticMetric_LabelsEntry {
+    const message = createBaseSyntheticMetric_LabelsEntry();
+    message.key = object.key ?? "";
+    message.value = object.value ?? "";
+    return message;
+  },
+};
+
+function createBaseSyntheticAttachment(): SyntheticAttachment {
+  return { name: "", content_type: "", uri: "", size_bytes: 0, attach_time: "" };
+}
+
+export const SyntheticAttachment = {
+  encode(message: SyntheticAttachment, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.name !== "") {
+      writer.uint32(10).string(message.name);
     }
-    if (message.link_start_time !== "") {
-      writer.uint32(82).string(message.link_start_time);
+    if (message.content_type !== "") {
+      writer.uint32(18).string(message.content_type);
     }
-    if (message.link_end_time !== "") {
-      writer.uint32(90).string(message.link_end_time);
+    if (message.uri !== "") {
+      writer.uint32(26).string(message.uri);
     }
-    if (message.is_origin !== undefined) {
-      writer.uint32(96).bool(message.is_origin);
+    if (message.size_bytes !== 0) {
+      writer.uint32(32).int64(message.size_bytes);
     }
-    if (message.screenshot_output !== undefined) {
-      BrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput.encode(
-        message.screenshot_output,
-        writer.uint32(106).fork(),
-      ).ldelim();
+    if (message.attach_time !== "") {
+      writer.uint32(42).string(message.attach_time);
     }
     return writer;
   },
 
-  decode(input: _m0.Reader | Uint8Array, length?: number): BrokenLinksResultV1_SyntheticLinkResult {
+  decode(input: _m0.Reader | Uint8Array, length?: number): SyntheticAttachment {
     const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
     let end = length === undefined ? reader.len : reader.pos + length;
-    const message = createBaseBrokenLinksResultV1_SyntheticLinkResult();
+    const message = createBaseSyntheticAttachment();
     while (reader.pos < end) {
       const tag = reader.uint32();
       switch (tag >>> 3) {
         case 1:
-          if (tag !== 8) {
+          if (tag !== 10) {
             break;
           }
 
-          message.link_passed = reader.bool();
+          message.name = reader.string();
           continue;
         case 2:
           if (tag !== 18) {
             break;
           }
 
-          message.expected_status_code = ResponseStatusCode.decode(reader, reader.uint32());
+          message.content_type = reader.string();
           continue;
         case 3:
           if (tag !== 26) {
             break;
           }
 
-          message.source_uri = reader.string();
+          message.uri = reader.string();
           continue;
         case 4:
-          if (tag !== 34) {
+          if (tag !== 32) {
             break;
           }
 
-          message.target_uri = reader.string();
+          message.size_bytes = longToNumber(reader.int64() as Long);
           continue;
         case 5:
           if (tag !== 42) {
             break;
           }
 
-          message.anchor_text = reader.string();
-          continue;
-        case 6:
-          if (tag !== 50) {
-            break;
-          }
-
-          message.html_element = reader.string();
-          continue;
-        case 7:
-          if (tag !== 56) {
-            break;
-          }
-
-          message.status_code = longToNumber(reader.int64() as Long);
-          continue;
-        case 8:
-          if (tag !== 66) {
-            break;
-          }
-
-          message.error_type = reader.string();
-          continue;
-        case 9:
-          if (tag !== 74) {
-            break;
-          }
-
-          message.error_message = reader.string();
-          continue;
-        case 10:
-          if (tag !== 82) {
-            break;
-          }
-
-          message.link_start_time = reader.string();
-          continue;
-        case 11:
-          if (tag !== 90) {
-            break;
-          }
-
-          message.link_end_time = reader.string();
-          continue;
-        case 12:
-          if (tag !== 96) {
-            break;
-          }
-
-          message.is_origin = reader.bool();
-          continue;
-        case 13:
-          if (tag !== 106) {
-            break;
-          }
-
-          message.screenshot_output = BrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput.decode(
-            reader,
-            reader.uint32(),
-          );
+          message.attach_time = reader.string();
           continue;
       }
       if ((tag & 7) === 4 || tag === 0) {
@@ -2283,103 +3517,63 @@ export const BrokenLinksResultV1_SyntheticLinkResult = {
     return message;
   },
 
-  fromJSON(object: any): BrokenLinksResultV1_SyntheticLinkResult {
+  fromJSON(object: any): SyntheticAttachment {
     return {
-      link_passed: isSet(object.link_passed) ? Boolean(object.link_passed) : undefined,
-      expected_status_code: isSet(object.expected_status_code)
-        ? ResponseStatusCode.fromJSON(object.expected_status_code)
-        : undefined,
-      source_uri: isSet(object.source_uri) ? String(object.source_uri) : "",
-      target_uri: isSet(object.target_uri) ? String(object.target_uri) : "",
-      anchor_text: isSet(object.anchor_text) ? String(object.anchor_text) : "",
-      html_element: isSet(object.html_element) ? String(object.html_element) : "",
-      status_code: isSet(object.status_code) ? Number(object.status_code) : undefined,
-      error_type: isSet(object.error_type) ? String(object.error_type) : "",
-      error_message: isSet(object.error_message) ? String(object.error_message) : "",
-      link_start_time: isSet(object.link_start_time) ? String(object.link_start_time) : "",
-      link_end_time: isSet(object.link_end_time) ? String(object.link_end_time) : "",
-      is_origin: isSet(object.is_origin) ? Boolean(object.is_origin) : undefined,
-      screenshot_output: isSet(object.screenshot_output)
-        ? BrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput.fromJSON(object.screenshot_output)
-        : undefined,
+      name: isSet(object.name) ? String(object.name) : "",
+      content_type: isSet(object.content_type) ? String(object.content_type) : "",
+      uri: isSet(object.uri) ? String(object.uri) : "",
+      size_bytes: isSet(object.size_bytes) ? Number(object.size_bytes) : 0,
+      attach_time: isSet(object.attach_time) ? String(object.attach_time) : "",
     };
   },
 
-  toJSON(message: BrokenLinksResultV1_SyntheticLinkResult): unknown {
+  toJSON(message: SyntheticAttachment): unknown {
     const obj: any = {};
-    message.link_passed !== undefined && (obj.link_passed = message.link_passed);
-    message.expected_status_code !== undefined && (obj.expected_status_code = message.expected_status_code
-      ? ResponseStatusCode.toJSON(message.expected_status_code)
-      : undefined);
-    message.source_uri !== undefined && (obj.source_uri = message.source_uri);
-    message.target_uri !== undefined && (obj.target_uri = message.target_uri);
-    message.anchor_text !== undefined && (obj.anchor_text = message.anchor_text);
-    message.html_element !== undefined && (obj.html_element = message.html_element);
-    message.status_code !== undefined && (obj.status_code = Math.round(message.status_code));
-    message.error_type !== undefined && (obj.error_type = message.error_type);
-    message.error_message !== undefined && (obj.error_message = message.error_message);
-    message.link_start_time !== undefined && (obj.link_start_time = message.link_start_time);
-    message.link_end_time !== undefined && (obj.link_end_time = message.link_end_time);
-    message.is_origin !== undefined && (obj.is_origin = message.is_origin);
-    message.screenshot_output !== undefined && (obj.screenshot_output = message.screenshot_output
-      ? BrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput.toJSON(message.screenshot_output)
-      : undefined);
+    message.name !== undefined && (obj.name = message.name);
+    message.content_type !== undefined && (obj.content_type = message.content_type);
+    message.uri !== undefined && (obj.uri = message.uri);
+    message.size_bytes !== undefined && (obj.size_bytes = Math.round(message.size_bytes));
+    message.attach_time !== undefined && (obj.attach_time = message.attach_time);
     return obj;
   },
 
-  create<I extends Exact<DeepPartial<BrokenLinksResultV1_SyntheticLinkResult>, I>>(
-    base?: I,
-  ): BrokenLinksResultV1_SyntheticLinkResult {
-    return BrokenLinksResultV1_SyntheticLinkResult.fromPartial(base ?? {});
+  create<I extends Exact<DeepPartial<SyntheticAttachment>, I>>(base?: I): SyntheticAttachment {
+    return SyntheticAttachment.fromPartial(base ?? {});
   },
 
-  fromPartial<I extends Exact<DeepPartial<BrokenLinksResultV1_SyntheticLinkResult>, I>>(
-    object: I,
-  ): BrokenLinksResultV1_SyntheticLinkResult {
-    const message = createBaseBrokenLinksResultV1_SyntheticLinkResult();
-    message.link_passed = object.link_passed ?? undefined;
-    message.expected_status_code = (object.expected_status_code !== undefined && object.expected_status_code !== null)
-      ? ResponseStatusCode.fromPartial(object.expected_status_code)
-      : undefined;
-    message.source_uri = object.source_uri ?? "";
-    message.target_uri = object.target_uri ?? "";
-    message.anchor_text = object.anchor_text ?? "";
-    message.html_element = object.html_element ?? "";
-    message.status_code = object.status_code ?? undefined;
-    message.error_type = object.error_type ?? "";
-    message.error_message = object.error_message ?? "";
-    message.link_start_time = object.link_start_time ?? "";
-    message.link_end_time = object.link_end_time ?? "";
-    message.is_origin = object.is_origin ?? undefined;
-    message.screenshot_output = (object.screenshot_output !== undefined && object.screenshot_output !== null)
-      ? BrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput.fromPartial(object.screenshot_output)
-      : undefined;
+  fromPartial<I extends Exact<DeepPartial<SyntheticAttachment>, I>>(object: I): SyntheticAttachment {
+    const message = createBaseSyntheticAttachment();
+    message.name = object.name ?? "";
+    message.content_type = object.content_type ?? "";
+    message.uri = object.uri ?? "";
+    message.size_bytes = object.size_bytes ?? 0;
+    message.attach_time = object.attach_time ?? "";
     return message;
   },
 };
 
-function createBaseBrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput(): BrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput {
-  return { screenshot_file: "", screenshot_error: undefined };
+function createBaseSyntheticResultTruncation(): SyntheticResultTruncation {
+  return { field_path: "", original_length: 0, truncated_length: 0 };
 }
 
-export const BrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput = {
-  encode(
-    message: BrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput,
-    writer: _m0.Writer = _m0.Writer.create(),
-  ): _m0.Writer {
-    if (message.screenshot_file !== "") {
-      writer.uint32(10).string(message.screenshot_file);
+export const SyntheticResultTruncation = {
+  encode(message: SyntheticResultTruncation, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.field_path !== "") {
+      writer.uint32(10).string(message.field_path);
     }
-    if (message.screenshot_error !== undefined) {
-      BaseError.encode(message.screenshot_error, writer.uint32(18).fork()).ldelim();
+    if (message.original_length !== 0) {
+      writer.uint32(16).int64(message.original_length);
+    }
+    if (message.truncated_length !== 0) {
+      writer.uint32(24).int64(message.truncated_length);
     }
     return writer;
   },
 
-  decode(input: _m0.Reader | Uint8Array, length?: number): BrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput {
+  decode(input: _m0.Reader | Uint8Array, length?: number): SyntheticResultTruncation {
     const reader = input instanceof _m0.Reader ? input : _m0.Reader.create(input);
     let end = length === undefined ? reader.len : reader.pos + length;
-    const message = createBaseBrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput();
+    const message = createBaseSyntheticResultTruncation();
     while (reader.pos < end) {
       const tag = reader.uint32();
       switch (tag >>> 3) {
@@ -2388,14 +3582,21 @@ export const BrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput = {
             break;
           }
 
-          message.screenshot_file = reader.string();
+          message.field_path = reader.string();
           continue;
         case 2:
-          if (tag !== 18) {
+          if (tag !== 16) {
             break;
           }
 
-          message.screenshot_error = BaseError.decode(reader, reader.uint32());
+          message.original_length = longToNumber(reader.int64() as Long);
+          continue;
+        case 3:
+          if (tag !== 24) {
+            break;
+          }
+
+          message.truncated_length = longToNumber(reader.int64() as Long);
           continue;
       }
       if ((tag & 7) === 4 || tag === 0) {
@@ -2406,35 +3607,31 @@ export const BrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput = {
     return message;
   },
 
-  fromJSON(object: any): BrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput {
+  fromJSON(object: any): SyntheticResultTruncation {
     return {
-      screenshot_file: isSet(object.screenshot_file) ? String(object.screenshot_file) : "",
-      screenshot_error: isSet(object.screenshot_error) ? BaseError.fromJSON(object.screenshot_error) : undefined,
+      field_path: isSet(object.field_path) ? String(object.field_path) : "",
+      original_length: isSet(object.original_length) ? Number(object.original_length) : 0,
+      truncated_length: isSet(object.truncated_length) ? Number(object.truncated_length) : 0,
     };
   },
 
-  toJSON(message: BrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput): unknown {
+  toJSON(message: SyntheticResultTruncation): unknown {
     const obj: any = {};
-    message.screenshot_file !== undefined && (obj.screenshot_file = message.screenshot_file);
-    message.screenshot_error !== undefined &&
-      (obj.screenshot_error = message.screenshot_error ? BaseError.toJSON(message.screenshot_error) : undefined);
+    message.field_path !== undefined && (obj.field_path = message.field_path);
+    message.original_length !== undefined && (obj.original_length = Math.round(message.original_length));
+    message.truncated_length !== undefined && (obj.truncated_length = Math.round(message.truncated_length));
     return obj;
   },
 
-  create<I extends Exact<DeepPartial<BrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput>, I>>(
-    base?: I,
-  ): BrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput {
-    return BrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput.fromPartial(base ?? {});
+  create<I extends Exact<DeepPartial<SyntheticResultTruncation>, I>>(base?: I): SyntheticResultTruncation {
+    return SyntheticResultTruncation.fromPartial(base ?? {});
   },
 
-  fromPartial<I extends Exact<DeepPartial<BrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput>, I>>(
-    object: I,
-  ): BrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput {
-    const message = createBaseBrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput();
-    message.screenshot_file = object.screenshot_file ?? "";
-    message.screenshot_error = (object.screenshot_error !== undefined && object.screenshot_error !== null)
-      ? BaseError.fromPartial(object.screenshot_error)
-      : undefined;
+  fromPartial<I extends Exact<DeepPartial<SyntheticResultTruncation>, I>>(object: I): SyntheticResultTruncation {
+    const message = createBaseSyntheticResultTruncation();
+    message.field_path = object.field_path ?? "";
+    message.original_length = object.original_length ?? 0;
+    message.truncated_length = object.truncated_length ?? 0;
     return message;
   },
 };
@@ -2447,6 +3644,12 @@ function createBaseSyntheticResult(): SyntheticResult {
     runtime_metadata: {},
     start_time: "",
     end_time: "",
+    metrics: [],
+    attachments: [],
+    trace_id: undefined,
+    span_id: undefined,
+    non_fatal_errors: [],
+    truncations: [],
   };
 }
 
@@ -2470,6 +3673,24 @@ export const SyntheticResult = {
     if (message.end_time !== "") {
       writer.uint32(50).string(message.end_time);
     }
+    for (const v of message.metrics) {
+      SyntheticMetric.encode(v!, writer.uint32(58).fork()).ldelim();
+    }
+    for (const v of message.attachments) {
+      SyntheticAttachment.encode(v!, writer.uint32(66).fork()).ldelim();
+    }
+    if (message.trace_id !== undefined) {
+      writer.uint32(74).string(message.trace_id);
+    }
+    if (message.span_id !== undefined) {
+      writer.uint32(82).string(message.span_id);
+    }
+    for (const v of message.non_fatal_errors) {
+      BaseError.encode(v!, writer.uint32(90).fork()).ldelim();
+    }
+    for (const v of message.truncations) {
+      SyntheticResultTruncation.encode(v!, writer.uint32(98).fork()).ldelim();
+    }
     return writer;
   },
 
@@ -2525,6 +3746,48 @@ export const SyntheticResult = {
 
           message.end_time = reader.string();
           continue;
+        case 7:
+          if (tag !== 58) {
+            break;
+          }
+
+          message.metrics.push(SyntheticMetric.decode(reader, reader.uint32()));
+          continue;
+        case 8:
+          if (tag !== 66) {
+            break;
+          }
+
+          message.attachments.push(SyntheticAttachment.decode(reader, reader.uint32()));
+          continue;
+        case 9:
+          if (tag !== 74) {
+            break;
+          }
+
+          message.trace_id = reader.string();
+          continue;
+        case 10:
+          if (tag !== 82) {
+            break;
+          }
+
+          message.span_id = reader.string();
+          continue;
+        case 11:
+          if (tag !== 90) {
+            break;
+          }
+
+          message.non_fatal_errors.push(BaseError.decode(reader, reader.uint32()));
+          continue;
+        case 12:
+          if (tag !== 98) {
+            break;
+          }
+
+          message.truncations.push(SyntheticResultTruncation.decode(reader, reader.uint32()));
+          continue;
       }
       if ((tag & 7) === 4 || tag === 0) {
         break;
@@ -2553,6 +3816,20 @@ export const SyntheticResult = {
         : {},
       start_time: isSet(object.start_time) ? String(object.start_time) : "",
       end_time: isSet(object.end_time) ? String(object.end_time) : "",
+      metrics: Array.isArray(object?.metrics)
+        ? object.metrics.map((e: any) => SyntheticMetric.fromJSON(e))
+        : [],
+      attachments: Array.isArray(object?.attachments)
+        ? object.attachments.map((e: any) => SyntheticAttachment.fromJSON(e))
+        : [],
+      trace_id: isSet(object.trace_id) ? String(object.trace_id) : undefined,
+      span_id: isSet(object.span_id) ? String(object.span_id) : undefined,
+      non_fatal_errors: Array.isArray(object?.non_fatal_errors)
+        ? object.non_fatal_errors.map((e: any) => BaseError.fromJSON(e))
+        : [],
+      truncations: Array.isArray(object?.truncations)
+        ? object.truncations.map((e: any) => SyntheticResultTruncation.fromJSON(e))
+        : [],
     };
   },
 
@@ -2578,6 +3855,28 @@ export const SyntheticResult = {
     }
     message.start_time !== undefined && (obj.start_time = message.start_time);
     message.end_time !== undefined && (obj.end_time = message.end_time);
+    if (message.metrics) {
+      obj.metrics = message.metrics.map((e) => e ? SyntheticMetric.toJSON(e) : undefined);
+    } else {
+      obj.metrics = [];
+    }
+    if (message.attachments) {
+      obj.attachments = message.attachments.map((e) => e ? SyntheticAttachment.toJSON(e) : undefined);
+    } else {
+      obj.attachments = [];
+    }
+    message.trace_id !== undefined && (obj.trace_id = message.trace_id);
+    message.span_id !== undefined && (obj.span_id = message.span_id);
+    if (message.non_fatal_errors) {
+      obj.non_fatal_errors = message.non_fatal_errors.map((e) => e ? BaseError.toJSON(e) : undefined);
+    } else {
+      obj.non_fatal_errors = [];
+    }
+    if (message.truncations) {
+      obj.truncations = message.truncations.map((e) => e ? SyntheticResultTruncation.toJSON(e) : undefined);
+    } else {
+      obj.truncations = [];
+    }
     return obj;
   },
 
@@ -2610,6 +3909,12 @@ export const SyntheticResult = {
     );
     message.start_time = object.start_time ?? "";
     message.end_time = object.end_time ?? "";
+    message.metrics = object.metrics?.map((e) => SyntheticMetric.fromPartial(e)) || [];
+    message.attachments = object.attachments?.map((e) => SyntheticAttachment.fromPartial(e)) || [];
+    message.trace_id = object.trace_id ?? undefined;
+    message.span_id = object.span_id ?? undefined;
+    message.non_fatal_errors = object.non_fatal_errors?.map((e) => BaseError.fromPartial(e)) || [];
+    message.truncations = object.truncations?.map((e) => SyntheticResultTruncation.fromPartial(e)) || [];
     return message;
   },
 };
@@ -0,0 +1,109 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import ErrorStackParser from 'error-stack-parser';
+import { inspect } from 'util';
+import { GenericResultV1_GenericError } from './generated/proto/synthetic_response';
+import { resolveOriginalStackFrame } from './source_maps';
+
+const asyncFilenamePrefix = 'async ';
+const maxCauseDepth = 10;
+
+/**
+ * Serializes a thrown value into a GenericError, using the first stack frame
+ * that belongs to user code as the location of the error, as resolved through
+ * source maps when they are available. The errors that caused it, from
+ * `Error.cause` and `AggregateError.errors`, are serialized into its `causes`.
+ *
+ * @param err - The value that was thrown.
+ * @returns A GenericError, or undefined if the thrown value is not an Error.
+ */
+export function serializeGenericError(
+  err: unknown
+): GenericResultV1_GenericError | undefined {
+  if (!(err instanceof Error)) {
+    return undefined;
+  }
+
+  return serializeError(err, new Set([err]), 0);
+}
+
+function serializeError(
+  err: Error,
+  seen: Set<unknown>,
+  depth: number
+): GenericResultV1_GenericError {
+  const userFrame = firstUserErrorStackFrame(parseStack(err));
+  const firstFrame = userFrame && resolveOriginalStackFrame(userFrame);
+
+  const genericError = GenericResultV1_GenericError.create({
+    error_type: err.name,
+    error_message: err.message,
+    file_path: firstFrame?.fileName,
+    line: firstFrame?.lineNumber,
+    column: firstFrame?.columnNumber,
+    function_name: firstFrame?.functionName,
+  });
+
+  genericError.stack_trace = err.stack ?? '';
+  genericError.causes =
+    depth < maxCauseDepth
+      ? getCauses(err)
+          .filter((cause) => !seen.has(cause))
+          .map((cause) => {
+            seen.add(cause);
+            return cause instanceof Error
+              ? serializeError(cause, seen, depth + 1)
+              : GenericResultV1_GenericError.create({
+                  error_type: typeof cause,
+                  error_message: inspect(cause),
+                });
+          })
+      : [];
+
+  return genericError;
+}
+
+function getCauses(err: Error): unknown[] {
+  const { cause, errors } = err as { cause?: unknown; errors?: unknown };
+  return [
+    ...(Array.isArray(errors) ? errors : []),
+    ...(cause !== undefined ? [cause] : []),
+  ];
+}
+
+function parseStack(err: Error): ErrorStackParser.StackFrame[] {
+  try {
+    return ErrorStackParser.parse(err);
+  } catch (e) {
+    // Errors without a parseable stack have no frames to report.
+    return [];
+  }
+}
+
+export function firstUserErrorStackFrame(
+  stack: ErrorStackParser.StackFrame[]
+): ErrorStackParser.StackFrame | undefined {
+  return stack
+    .map((frame) => {
+      const filenameWithoutPrefix =
+        (frame.fileName ?? '').substring(0, 6) === asyncFilenamePrefix
+          ? (frame.fileName ?? '').substring(6)
+          : frame.fileName;
+
+      frame.fileName = filenameWithoutPrefix;
+      return frame;
+    })
+    .find((frame) => (frame.fileName ?? '').charAt(0) === '/');
+}
@@ -0,0 +1,405 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { IncomingMessage, ServerResponse } from 'http';
+import { URL } from 'url';
+import { Request, Response } from 'express';
+import {
+  GenericResultV1,
+  GenericResultV1_GenericError,
+  SyntheticResult,
+} from './generated/proto/synthetic_response';
+import { serializeGenericError } from './generic_error';
+import { acceptsProtobuf, negotiateResultEncoding } from './result_encoding';
+
+/**
+ * Query parameters of a request, in the format that express parses them to.
+ */
+export type SyntheticRequestQuery = {
+  [name: string]:
+    | undefined
+    | string
+    | string[]
+    | SyntheticRequestQuery
+    | SyntheticRequestQuery[];
+};
+
+/**
+ * A request to run a synthetic, independent of the web framework that it was
+ * received by.
+ */
+export interface SyntheticRequest {
+  /** Headers of the request, keyed by their lower case names. */
+  headers: { [name: string]: string | string[] | undefined };
+  /** Query parameters of the request. */
+  query: SyntheticRequestQuery;
+  /**
+   * The body of the request, parsed as json where it holds json, and
+   * otherwise provided as text. Undefined if the request has no body.
+   */
+  body: unknown;
+}
+
+/**
+ * Runs a synthetic for a request, resolving with its result. Adapters such as
+ * {@link toExpressHandler} serve it with a web framework.
+ */
+export type InvokeFunction = (
+  request: SyntheticRequest
+) => Promise<SyntheticResult>;
+
+/**
+ * @public
+ *
+ * Returns the value of a request's header, or the first value of a header
+ * that was provided more than once.
+ *
+ * @param request - The request to read the header of.
+ * @param name - The case insensitive name of the header.
+ */
+export const getRequestHeader = (
+  request: SyntheticRequest,
+  name: string
+): string | undefined => {
+  const value = request.headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+// Frameworks parse json bodies, whereas bodies of other content types are
+// provided as text or buffers, which are parsed if they hold json.
+const parseBody = (body: unknown): unknown => {
+  if (typeof body !== 'string' && !Buffer.isBuffer(body)) {
+    return body;
+  }
+  const text = body.toString();
+  if (!text) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    return text;
+  }
+};
+
+// Parses the query parameters of a url, into arrays where they are repeated.
+const parseQuery = (url: string): SyntheticRequestQuery => {
+  const query: { [name: string]: string | string[] } = {};
+  new URL(url, 'http://localhost').searchParams.forEach((value, name) => {
+    const existing = query[name];
+    query[name] =
+      existing === undefined ? value : ([] as string[]).concat(existing, value);
+  });
+  return query;
+};
+
+// Runs a synthetic for a request. Should the invoke function reject, which it
+// only does when the result itself could not be produced, the request is
+// served a failed result that records the error with a 500 status instead.
+const invokeSynthetic = async (
+  invoke: InvokeFunction,
+  request: SyntheticRequest
+): Promise<{ status: number; syntheticResult: SyntheticResult }> => {
+  try {
+    return { status: 200, syntheticResult: await invoke(request) };
+  } catch (err: unknown) {
+    const time = new Date().toISOString();
+    return {
+      status: 500,
+      syntheticResult: SyntheticResult.create({
+        synthetic_generic_result_v1: GenericResultV1.create({
+          ok: false,
+          generic_error:
+            serializeGenericError(err) ??
+            GenericResultV1_GenericError.create({
+              error_type: typeof err,
+              error_message: String(err),
+            }),
+        }),
+        start_time: time,
+        end_time: time,
+      }),
+    };
+  }
+};
+
+/**
+ * Express js compatible middleware that serves an invoke function, which it
+ * keeps as `invoke` so that the synthetic may also be ran without a web
+ * framework, eg. by the `synthetics` cli.
+ */
+export interface SyntheticExpressHandler {
+  // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+  (req: Request, res: Response): Promise<any>;
+  invoke: InvokeFunction;
+}
+
+/**
+ * @public
+ *
+ * Serves an invoke function as express js compatible middleware, which may
+ * also be registered as a Google Cloud Function http function. Results are
+ * served as json, or as protobuf binary to callers that accept
+ * `application/x-protobuf`, as are those of the other adapters. Should the
+ * invoke function reject, a failed result that records the error is served
+ * with a 500 status by every adapter.
+ *
+ * @param invoke - The function that runs the synthetic.
+ * @returns Middleware that returns the result via res.send.
+ */
+export function toExpressHandler(
+  invoke: InvokeFunction
+): SyntheticExpressHandler {
+  const handler = async (req: Request, res: Response) => {
+    const syntheticRequest = {
+      headers: req.headers ?? {},
+      query: req.query ?? {},
+      body: parseBody(req.body),
+    };
+    const { status, syntheticResult } = await invokeSynthetic(
+      invoke,
+      syntheticRequest
+    );
+
+    // The status is only set on failure, as responses default to 200.
+    if (status !== 200) {
+      res.status(status);
+    }
+    const accept = getRequestHeader(syntheticRequest, 'Accept');
+    if (acceptsProtobuf(accept)) {
+      const { contentType, body } = negotiateResultEncoding(
+        syntheticResult,
+        accept
+      );
+      return res.type(contentType).send(body);
+    }
+    return res.send(syntheticResult);
+  };
+  return Object.assign(handler, { invoke });
+}
+
+/**
+ * The parts of a Fetch API `Request` that are read.
+ */
+export interface FetchRequest {
+  url: string;
+  headers: { forEach(callback: (value: string, name: string) => void): void };
+  text(): Promise<string>;
+}
+
+/**
+ * The parts of a Fetch API `Response` that are provided.
+ */
+export interface FetchResponse {
+  status: number;
+  headers: { get(name: string): string | null };
+  text(): Promise<string>;
+  json(): Promise<unknown>;
+  arrayBuffer(): Promise<ArrayBuffer>;
+}
+
+/**
+ * @public
+ *
+ * Serves an invoke function as a Fetch API handler, which resolves a
+ * `Response` for a `Request`, eg. for testing synthetics without a server.
+ *
+ * @param invoke - The function that runs the synthetic.
+ * @returns A function that resolves the result as a json `Response`.
+ */
+export function toFetchHandler(invoke: InvokeFunction) {
+  return async (request: FetchRequest): Promise<FetchResponse> => {
+    const headers: SyntheticRequest['headers'] = {};
+    request.headers.forEach((value, name) => {
+      headers[name.toLowerCase()] = value;
+    });
+
+    const syntheticRequest = {
+      headers,
+      query: parseQuery(request.url),
+      body: parseBody(await request.text()),
+    };
+    const { status, syntheticResult } = await invokeSynthetic(
+      invoke,
+      syntheticRequest
+    );
+    const { contentType, body } = negotiateResultEncoding(
+      syntheticResult,
+      getRequestHeader(syntheticRequest, 'Accept')
+    );
+
+    // The Fetch API is global as of node 18, but is not typed by @types/node.
+    const FetchResponseConstructor = (
+      global as unknown as {
+        Response: new (
+          body: string | Uint8Array,
+          init: { status: number; headers: { [name: string]: string } }
+        ) => FetchResponse;
+      }
+    ).Response;
+    return new FetchResponseConstructor(body, {
+      status,
+      headers: { 'Content-Type': contentType },
+    });
+  };
+}
+
+/**
+ * @public
+ *
+ * Serves an invoke function as a request listener of node's `http` module,
+ * eg. `http.createServer(toNodeHandler(invoke))`.
+ *
+ * @param invoke - The function that runs the synthetic.
+ * @returns A request listener that responds with the result.
+ */
+export function toNodeHandler(invoke: InvokeFunction) {
+  return async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk);
+    }
+
+    const syntheticRequest = {
+      headers: req.headers,
+      query: parseQuery(req.url ?? '/'),
+      body: parseBody(Buffer.concat(chunks)),
+    };
+    const { status, syntheticResult } = await invokeSynthetic(
+      invoke,
+      syntheticRequest
+    );
+    const { contentType, body } = negotiateResultEncoding(
+      syntheticResult,
+      getRequestHeader(syntheticRequest, 'Accept')
+    );
+
+    res.writeHead(status, { 'Content-Type': contentType });
+    res.end(body);
+  };
+}
+
+/**
+ * The parts of a Fastify request that are read.
+ */
+export interface FastifyRequestLike {
+  headers: SyntheticRequest['headers'];
+  query: unknown;
+  body?: unknown;
+}
+
+/**
+ * The parts of a Fastify reply that are used.
+ */
+export interface FastifyReplyLike {
+  code(statusCode: number): unknown;
+  header(name: string, value: string): unknown;
+  send(payload: unknown): unknown;
+}
+
+/**
+ * @public
+ *
+ * Serves an invoke function as a Fastify route handler, eg.
+ * `fastify.post('/', toFastifyHandler(invoke))`.
+ *
+ * @param invoke - The function that runs the synthetic.
+ * @returns A route handler that replies with the result.
+ */
+export function toFastifyHandler(invoke: InvokeFunction) {
+  return async <R extends FastifyReplyLike>(
+    request: FastifyRequestLike,
+    reply: R
+  ): Promise<R> => {
+    const syntheticRequest = {
+      headers: request.headers,
+      query: (request.query ?? {}) as SyntheticRequestQuery,
+      body: parseBody(request.body),
+    };
+    const { status, syntheticResult } = await invokeSynthetic(
+      invoke,
+      syntheticRequest
+    );
+
+    if (status !== 200) {
+      reply.code(status);
+    }
+    const accept = getRequestHeader(syntheticRequest, 'Accept');
+    if (acceptsProtobuf(accept)) {
+      const { contentType, body } = negotiateResultEncoding(
+        syntheticResult,
+        accept
+      );
+      reply.header('Content-Type', contentType);
+      reply.send(body);
+    } else {
+      reply.send(syntheticResult);
+    }
+    return reply;
+  };
+}
+
+/**
+ * The parts of a Koa context that are used.
+ */
+export interface KoaContextLike {
+  request: {
+    headers: SyntheticRequest['headers'];
+    query: SyntheticRequestQuery;
+    /** Parsed by a body parser, eg. `koa-bodyparser`. */
+    body?: unknown;
+  };
+  status?: number;
+  body?: unknown;
+  type?: string;
+}
+
+/**
+ * @public
+ *
+ * Serves an invoke function as Koa middleware, eg.
+ * `app.use(toKoaMiddleware(invoke))`. Request bodies are read once parsed by
+ * a body parser, eg. `koa-bodyparser`.
+ *
+ * @param invoke - The function that runs the synthetic.
+ * @returns Middleware that responds with the result.
+ */
+export function toKoaMiddleware(invoke: InvokeFunction) {
+  return async (ctx: KoaContextLike): Promise<void> => {
+    const syntheticRequest = {
+      headers: ctx.request.headers,
+      query: ctx.request.query ?? {},
+      body: parseBody(ctx.request.body),
+    };
+    const { status, syntheticResult } = await invokeSynthetic(
+      invoke,
+      syntheticRequest
+    );
+
+    if (status !== 200) {
+      ctx.status = status;
+    }
+    const accept = getRequestHeader(syntheticRequest, 'Accept');
+    if (acceptsProtobuf(accept)) {
+      const { contentType, body } = negotiateResultEncoding(
+        syntheticResult,
+        accept
+      );
+      ctx.type = contentType;
+      ctx.body = body;
+    } else {
+      ctx.body = syntheticResult;
+    }
+  };
+}
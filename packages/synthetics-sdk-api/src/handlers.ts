@@ -12,70 +12,380 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-import { Request, Response } from 'express';
 import {
   SyntheticResult,
   GenericResultV1,
+  GenericResultV1_GenericAttempt,
   GenericResultV1_GenericError,
+  GenericResultV1_GenericStep,
+  GenericResultV1_GenericWarning,
+  SyntheticAttachment,
+  SyntheticMetric,
 } from './index';
-import ErrorStackParser from 'error-stack-parser';
 import {
-  getRuntimeMetadata,
+  collectRuntimeMetadata,
   instantiateMetadata,
 } from './runtime_metadata_extractor';
 import { Logger } from 'winston';
 
-import { getInstrumentedLogger } from './auto_instrumentation';
+import {
+  getInstrumentedLogger,
+  getLoggerAdapter,
+} from './auto_instrumentation';
+import { serializeGenericError } from './generic_error';
+import { createStepFunction, failUnfinishedSteps, StepFunction } from './steps';
+import { createRecordMetricFunction, RecordMetricFunction } from './metrics';
+import { createWarnFunction, WarnFunction, WarnLogger } from './warnings';
+import {
+  artifactDirectoryName,
+  ArtifactStorage,
+  AttachFunction,
+  createAttachFunction,
+} from './artifacts';
+import { runWithDeadline, SyntheticTimeoutError } from './timeout';
+import {
+  failUnfinishedAttempts,
+  RetryOptions,
+  runWithRetries,
+  validateRetryOptions,
+} from './retries';
+import { runInExecutionSpan } from './execution_span';
+import { flushTraces } from './trace_flush';
+import {
+  LogCapture,
+  LogCaptureOptions,
+  validateLogCaptureOptions,
+} from './log_capture';
+import {
+  getRequestHeader,
+  InvokeFunction,
+  SyntheticRequest,
+  SyntheticRequestQuery,
+  toExpressHandler,
+} from './handler_adapters';
+import { ConcurrencyPolicy, withConcurrencyPolicy } from './concurrency';
+import { redactSyntheticResult } from './secrets';
+import {
+  limitResultSize,
+  ResultSizeOptions,
+  validateResultSizeOptions,
+} from './result_size';
+
+export { firstUserErrorStackFrame } from './generic_error';
+
 instantiateMetadata();
 
-const asyncFilenamePrefix = 'async ';
+/**
+ * Arguments that are provided to user written synthetic code by
+ * {@link runSyntheticHandler}.
+ */
+export interface SyntheticCodeArgs<L extends WarnLogger = Logger> {
+  /**
+   * A logger that is instrumented with trace information, when available. A
+   * winston logger, unless another `loggerAdapter` was provided to
+   * `instantiateAutoInstrumentation`.
+   */
+  logger: L;
+  /** The value of the `Synthetic-Execution-Id` header, if present. */
+  executionId: string | undefined;
+  /** The value of the `Check-Id` header, if present. */
+  checkId: string | undefined;
+  /**
+   * The query parameters of the request, eg. `{ environment: 'staging' }`,
+   * with which a synthetic may be parameterised per uptime check.
+   */
+  query: SyntheticRequestQuery;
+  /**
+   * The body of the request, parsed as json where it holds json, and
+   * otherwise provided as text. Undefined if the request has no body.
+   */
+  body: unknown;
+  /**
+   * Runs a function as a named step, recording its timing and outcome in the
+   * result. eg. `await step('login', async () => { ... })`.
+   */
+  step: StepFunction;
+  /**
+   * Records a custom metric that is reported in the result, eg.
+   * `recordMetric('search_result_count', 12, { tenant: 'acme' })`.
+   */
+  recordMetric: RecordMetricFunction;
+  /**
+   * Flags a degradation that is reported in the result's `warnings`, and
+   * written to the logs, without failing the synthetic, eg.
+   * `warn('SlowResponse', 'The home page took 4.2s to load')`.
+   */
+  warn: WarnFunction;
+  /**
+   * Stores an artifact with the configured `artifactStorage`, listing it in
+   * the result's attachments, eg.
+   * `await attach('checkout.png', screenshot, 'image/png')`.
+   */
+  attach: AttachFunction;
+  /**
+   * Signal that is aborted when the synthetic's execution deadline, as
+   * configured by `timeoutMillis`, has been exceeded.
+   */
+  signal: AbortSignal;
+  /** The number of the current attempt, starting at 1. */
+  attemptNumber: number;
+}
+
+export type SyntheticCode<L extends WarnLogger = Logger> = (
+  args: SyntheticCodeArgs<L>
+  // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+) => any;
+
+/**
+ * Options for {@link runSyntheticHandler}.
+ */
+export interface SyntheticHandlerOptions {
+  /**
+   * The maximum amount of time, in milliseconds, that the synthetic code may
+   * run for. When exceeded, `signal` is aborted and a result is served with a
+   * `SyntheticTimeoutError`, along with any steps and metrics that were
+   * recorded before the deadline. No deadline is applied by default.
+   */
+  timeoutMillis?: number;
+  /**
+   * Retries the synthetic code when it fails. Every attempt is reported in
+   * the result's `attempts`, while the steps, metrics and attachments that
+   * are reported are those of the last attempt. The synthetic code is
+   * attempted once by default.
+   */
+  retries?: RetryOptions;
+  /**
+   * Storage that artifacts provided to `attach` are saved to, within a
+   * directory named after the execution id, or a random directory when the
+   * execution id is missing or is not a valid name. eg.
+   * `createArtifactStorage('gs://my-bucket/artifacts')`.
+   */
+  artifactStorage?: ArtifactStorage;
+  /**
+   * The maximum amount of time, in milliseconds, to wait for buffered traces
+   * to be flushed before a response is served. 5000 by default.
+   */
+  traceFlushTimeoutMillis?: number;
+  /**
+   * Captures the records that are written through the provided `logger` while
+   * the synthetic runs, reporting them in the result's `logs`, so that they
+   * may be seen without searching Cloud Logging. Only the records that are
+   * written within the execution's async context are captured, and not those
+   * of executions that overlap with it. Disabled by default.
+   */
+  captureLogs?: boolean | LogCaptureOptions;
+  /**
+   * How an execution is handled while another execution of the same check is
+   * still running on this instance: `allow` it to run alongside, `queue` it
+   * until the other has completed, or `reject` it with a
+   * `SyntheticConcurrencyError`. `allow` by default.
+   */
+  concurrency?: ConcurrencyPolicy;
+  /**
+   * The size budget of the results that are served, beyond which their stack
+   * traces, error messages and lists are truncated. 1 MiB by default.
+   */
+  resultSize?: ResultSizeOptions;
+}
+
 const syntheticExecutionIdHeader = 'Synthetic-Execution-Id';
-const runSynthetic = async (
-  syntheticCode: (args: {
-    logger: Logger;
-    executionId: string | undefined;
-    // eslint-disable-next-line  @typescript-eslint/no-explicit-any
-  }) => any,
-  executionId: string | undefined
+const checkIdHeader = 'Check-Id';
+
+/**
+ * The arguments of synthetic code that are read from the request.
+ */
+type SyntheticRequestArgs = Pick<
+  SyntheticCodeArgs,
+  'executionId' | 'checkId' | 'query' | 'body'
+>;
+
+// Synthetic code may keep running once its execution deadline is exceeded,
+// while still holding the steps, metrics, warnings, attachments and attempts
+// that it reports to. These are copied at the deadline, so that the partial
+// result is not changed while it is being served.
+const copyPartialResult = (
+  syntheticResult: SyntheticResult,
+  genericResult: GenericResultV1
+) => {
+  genericResult.steps = genericResult.steps.map((step) =>
+    GenericResultV1_GenericStep.fromPartial(step)
+  );
+  genericResult.attempts = genericResult.attempts.map((attempt) =>
+    GenericResultV1_GenericAttempt.fromPartial(attempt)
+  );
+  genericResult.warnings = genericResult.warnings.map((warning) =>
+    GenericResultV1_GenericWarning.fromPartial(warning)
+  );
+  syntheticResult.metrics = syntheticResult.metrics.map((metric) =>
+    SyntheticMetric.fromPartial(metric)
+  );
+  syntheticResult.attachments = syntheticResult.attachments.map((attachment) =>
+    SyntheticAttachment.fromPartial(attachment)
+  );
+};
+
+const runSynthetic = async <L extends WarnLogger>(
+  syntheticCode: SyntheticCode<L>,
+  options: SyntheticHandlerOptions,
+  requestArgs: SyntheticRequestArgs
 ) => {
-  const logger = await getInstrumentedLogger();
+  const { executionId } = requestArgs;
+  const logger = await getInstrumentedLogger<L>();
   const startTime = new Date().toISOString();
 
   const syntheticResult = SyntheticResult.create();
   const synthetic_generic_result = GenericResultV1.create();
+  const controller = new AbortController();
+  const artifactDirectory = artifactDirectoryName(executionId);
+  const logCapture = options.captureLogs
+    ? new LogCapture(options.captureLogs === true ? {} : options.captureLogs)
+    : undefined;
+  const removeLogSink = logCapture
+    ? getLoggerAdapter().addLogSink(logger, logCapture.sink)
+    : undefined;
+  const runWithLogCapture = <T>(fn: () => T) =>
+    logCapture ? logCapture.run(fn) : fn();
 
   try {
-    await syntheticCode({ logger, executionId });
+    await runWithLogCapture(() =>
+      runWithDeadline(
+        () =>
+          runWithRetries(
+            (attemptNumber) => {
+              // Steps, metrics, warnings and attachments are only reported for
+              // the latest attempt.
+              synthetic_generic_result.steps = [];
+              synthetic_generic_result.warnings = [];
+              syntheticResult.metrics = [];
+              syntheticResult.attachments = [];
+              return syntheticCode({
+                logger,
+                ...requestArgs,
+                step: createStepFunction(synthetic_generic_result.steps),
+                recordMetric: createRecordMetricFunction(
+                  syntheticResult.metrics
+                ),
+                warn: createWarnFunction(
+                  synthetic_generic_result.warnings,
+                  logger
+                ),
+                // Attempts store their artifacts apart, so that those of the
+                // same name are not overwritten by later attempts.
+                attach: createAttachFunction(
+                  syntheticResult.attachments,
+                  options.artifactStorage,
+                  `${artifactDirectory}/attempt_${attemptNumber}`
+                ),
+                signal: controller.signal,
+                attemptNumber,
+              });
+            },
+            synthetic_generic_result.attempts,
+            controller.signal,
+            options.retries
+          ),
+        controller,
+        options.timeoutMillis
+      )
+    );
     synthetic_generic_result.ok = true;
   } catch (err: unknown) {
     synthetic_generic_result.ok = false;
 
-    if (err instanceof Error) {
-      const firstFrame = firstUserErrorStackFrame(ErrorStackParser.parse(err));
-
+    if (err instanceof SyntheticTimeoutError) {
+      copyPartialResult(syntheticResult, synthetic_generic_result);
+      // The stack of a timeout error only contains sdk frames, and so it is
+      // not reported. Steps and attempts that were still running are failed
+      // with it.
       synthetic_generic_result.generic_error =
         GenericResultV1_GenericError.create({
           error_type: err.name,
           error_message: err.message,
-          file_path: firstFrame?.fileName,
-          line: firstFrame?.lineNumber,
-          function_name: firstFrame?.functionName,
         });
-
-      synthetic_generic_result.generic_error.stack_trace = err.stack ?? '';
+      failUnfinishedSteps(
+        synthetic_generic_result.steps,
+        synthetic_generic_result.generic_error
+      );
+      failUnfinishedAttempts(
+        synthetic_generic_result.attempts,
+        synthetic_generic_result.generic_error
+      );
+    } else {
+      synthetic_generic_result.generic_error = serializeGenericError(err);
     }
   }
 
   const endTime = new Date().toISOString();
 
+  if (logCapture) {
+    removeLogSink?.();
+    synthetic_generic_result.logs = logCapture.entries;
+    synthetic_generic_result.dropped_log_count = logCapture.droppedCount;
+  }
+
   syntheticResult.synthetic_generic_result_v1 = synthetic_generic_result;
   syntheticResult.start_time = startTime;
   syntheticResult.end_time = endTime;
-  syntheticResult.runtime_metadata = getRuntimeMetadata();
+  syntheticResult.runtime_metadata = await collectRuntimeMetadata();
 
   return syntheticResult;
 };
 
+const validateMillis = (name: string, millis: number | undefined) => {
+  if (millis !== undefined && (typeof millis !== 'number' || !(millis > 0))) {
+    throw new TypeError(`${name} must be a number greater than 0`);
+  }
+};
+
+/**
+ * Creates a function that runs user written code in the context of GCM
+ * Synthetics for a request, independent of any web framework, which may be
+ * served with an adapter such as `toFetchHandler`, `toNodeHandler`,
+ * `toFastifyHandler` or `toKoaMiddleware`. See {@link runSyntheticHandler}
+ * for how the code is ran.
+ *
+ * @public
+ * @param syntheticCode - A function that is ran for each request.
+ * @param options - Options for running the synthetic code.
+ * @returns A function that resolves with the result of the synthetic code.
+ */
+export function createSyntheticInvokeFunction<L extends WarnLogger = Logger>(
+  syntheticCode: SyntheticCode<L>,
+  options: SyntheticHandlerOptions = {}
+): InvokeFunction {
+  validateMillis('timeoutMillis', options.timeoutMillis);
+  validateMillis('traceFlushTimeoutMillis', options.traceFlushTimeoutMillis);
+  if (options.retries) {
+    validateRetryOptions(options.retries);
+  }
+  if (typeof options.captureLogs === 'object') {
+    validateLogCaptureOptions(options.captureLogs);
+  }
+  if (options.resultSize) {
+    validateResultSizeOptions(options.resultSize);
+  }
+
+  return withConcurrencyPolicy(async (request: SyntheticRequest) => {
+    const requestArgs: SyntheticRequestArgs = {
+      executionId: getRequestHeader(request, syntheticExecutionIdHeader),
+      checkId: getRequestHeader(request, checkIdHeader),
+      query: request.query,
+      body: request.body,
+    };
+    const syntheticResult = await runInExecutionSpan(
+      {
+        executionId: requestArgs.executionId,
+        checkId: requestArgs.checkId,
+        headers: request.headers,
+      },
+      () => runSynthetic(syntheticCode, options, requestArgs)
+    );
+    await flushTraces(syntheticResult, options.traceFlushTimeoutMillis);
+    redactSyntheticResult(syntheticResult);
+    return limitResultSize(syntheticResult, options.resultSize);
+  }, options.concurrency);
+}
+
 /**
  * Middleware for ease of running user written code in the context of GCM
  * Synthetics. When a user written function is provided, it is ran and
@@ -86,6 +396,39 @@ const runSynthetic = async (
  * * If the function throws an Error, a GenericResponse is served as a
  *   response, with the `ok` attribute being set to false, and attributes of
  *   the error being provided.
+ * * Steps that are ran through the provided `step` helper are reported
+ *   within the GenericResponse, along with their timings and errors.
+ * * Warnings that are raised through the provided `warn` helper are reported
+ *   within the GenericResponse, and written to the logs, without affecting
+ *   its `ok` attribute.
+ * * Metrics that are recorded through the provided `recordMetric` helper are
+ *   reported within the SyntheticResult's `metrics`.
+ * * Artifacts that are stored through the provided `attach` helper are listed
+ *   within the SyntheticResult's `attachments`.
+ * * If `options.timeoutMillis` is provided and the function does not complete
+ *   in time, a GenericResponse is served with the `ok` attribute being set to
+ *   false, and a `SyntheticTimeoutError` being provided.
+ * * If `options.retries` is provided, the function is retried when it throws,
+ *   and every attempt is reported within the GenericResponse.
+ * * The execution is wrapped in a span, which continues the W3C trace context
+ *   of the request's `traceparent` header, and when it is traced, the ids of
+ *   its trace and span are reported within the SyntheticResult.
+ * * If `options.captureLogs` is provided, records that are written through the
+ *   provided `logger` are reported within the GenericResponse.
+ * * Buffered traces are flushed before the response is served, waiting at
+ *   most `options.traceFlushTimeoutMillis`. Failures to flush are reported
+ *   within the SyntheticResult's `non_fatal_errors`.
+ * * The values of secrets that were resolved through `getSecret` are redacted
+ *   from the captured logs and error messages of the GenericResponse.
+ * * Results that exceed the size budget of `options.resultSize` have their
+ *   stack traces, error messages and lists truncated, which is recorded
+ *   within the SyntheticResult's `truncations`.
+ * * If `options.concurrency` is `queue` or `reject`, executions of a check
+ *   that overlap on an instance are ran one after another, or are served a
+ *   GenericResponse with a `SyntheticConcurrencyError`.
+ *
+ * The function is provided with the `executionId`, `checkId`, `query` and
+ * `body` of the request, with which it may be parameterised per uptime check.
  *
  * This function should be used within a Google Cloud Function http function,
  * or an express js compatible handler.
@@ -93,37 +436,16 @@ const runSynthetic = async (
  * @public
  * @param syntheticCode - A function that is ran prior to a response being
  *                        served by the returned middleware
+ * @param options - Options for running the synthetic code.
  *
  * @returns ExpressJS compatible middleware that invokes SyntheticsSDK mocha, and
  * returns the results via res.send
  */
-export function runSyntheticHandler(
-  syntheticCode: (args: {
-    logger: Logger;
-    executionId: string | undefined;
-    // eslint-disable-next-line  @typescript-eslint/no-explicit-any
-  }) => any
+export function runSyntheticHandler<L extends WarnLogger = Logger>(
+  syntheticCode: SyntheticCode<L>,
+  options: SyntheticHandlerOptions = {}
 ) {
-  // eslint-disable-next-line  @typescript-eslint/no-explicit-any
-  return async (req: Request, res: Response): Promise<any> => {
-    res.send(
-      await runSynthetic(syntheticCode, req.get(syntheticExecutionIdHeader))
-    );
-  };
-}
-
-export function firstUserErrorStackFrame(
-  stack: ErrorStackParser.StackFrame[]
-): ErrorStackParser.StackFrame | undefined {
-  return stack
-    .map((frame) => {
-      const filenameWithoutPrefix =
-        (frame.fileName ?? '').substring(0, 6) === asyncFilenamePrefix
-          ? (frame.fileName ?? '').substring(6)
-          : frame.fileName;
-
-      frame.fileName = filenameWithoutPrefix;
-      return frame;
-    })
-    .find((frame) => (frame.fileName ?? '').charAt(0) === '/');
+  return toExpressHandler(
+    createSyntheticInvokeFunction(syntheticCode, options)
+  );
 }
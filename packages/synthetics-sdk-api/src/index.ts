@@ -17,14 +17,108 @@
  */
 
 export * from './generated/proto/synthetic_response';
-export { runSyntheticHandler } from './handlers';
 export {
+  createSyntheticInvokeFunction,
+  runSyntheticHandler,
+  SyntheticCode,
+  SyntheticCodeArgs,
+  SyntheticHandlerOptions,
+} from './handlers';
+export {
+  FastifyReplyLike,
+  FastifyRequestLike,
+  FetchRequest,
+  FetchResponse,
+  getRequestHeader,
+  InvokeFunction,
+  KoaContextLike,
+  SyntheticExpressHandler,
+  SyntheticRequest,
+  SyntheticRequestQuery,
+  toExpressHandler,
+  toFastifyHandler,
+  toFetchHandler,
+  toKoaMiddleware,
+  toNodeHandler,
+} from './handler_adapters';
+export {
+  ConcurrencyPolicy,
+  SyntheticConcurrencyError,
+  withConcurrencyPolicy,
+} from './concurrency';
+export {
+  configureSecretResolvers,
+  EnvironmentSecretResolver,
+  FileSecretResolver,
+  getSecret,
+  redactSecrets,
+  SecretManagerSecretResolver,
+  SecretManagerSecretResolverOptions,
+  SecretNotFoundError,
+  SecretResolver,
+} from './secrets';
+export {
+  limitResultSize,
+  ResultSizeOptions,
+  validateResultSizeOptions,
+} from './result_size';
+export { StepFunction } from './steps';
+export { SyntheticTimeoutError } from './timeout';
+export { RetryOptions } from './retries';
+export { LogCaptureOptions } from './log_capture';
+export { createRecordMetricFunction, RecordMetricFunction } from './metrics';
+export { createWarnFunction, WarnFunction, WarnLogger } from './warnings';
+export {
+  ArtifactStorage,
+  AttachFunction,
+  createArtifactStorage,
+  createAttachFunction,
+  GcsArtifactStorage,
+  LocalArtifactStorage,
+} from './artifacts';
+export {
+  collectRuntimeMetadata,
   getRuntimeMetadata,
   instantiateMetadata,
+  registerRuntimeMetadataProvider,
+  RuntimeMetadata,
+  RuntimeMetadataProvider,
 } from './runtime_metadata_extractor';
 export {
+  AutoInstrumentationOptions,
   instantiateAutoInstrumentation,
+  getInMemorySpanExporter,
   getInstrumentedLogger,
   resolveProjectId,
 } from './auto_instrumentation';
+export { LoggerAdapter, LoggerAdapterName, LogSink } from './logger_adapters';
+export { OtlpExporterOptions, TraceExporterName } from './trace_exporters';
+export {
+  runInExecutionSpan,
+  SyntheticExecutionDetails,
+} from './execution_span';
+export { flushTraces } from './trace_flush';
+export {
+  extractTraceContext,
+  TraceContextCarrier,
+  traceContextEnv,
+} from './trace_context';
 export { getExecutionRegion } from './cloud_region_resolver';
+export {
+  configureEnvironmentResolver,
+  EnvironmentResolver,
+  EnvironmentResolverOptions,
+  getEnvironmentResolver,
+} from './environment_resolver';
+export {
+  MetadataServerEmulator,
+  MetadataServerEmulatorOptions,
+  startMetadataServerEmulator,
+} from './metadata_server_emulator';
+export { resolveOriginalStackFrame } from './source_maps';
+export { renderJUnit, renderMarkdown, renderText } from './renderers';
+export {
+  acceptsProtobuf,
+  decodeSyntheticResult,
+  encodeSyntheticResult,
+} from './result_encoding';
@@ -0,0 +1,143 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { inspect } from 'util';
+import { GenericResultV1_GenericLogEntry } from './generated/proto/synthetic_response';
+import { LogSink } from './logger_adapters';
+import { isAtLeastAsSevere } from './structured_logging';
+
+export const DEFAULT_MAX_LOG_ENTRIES = 100;
+export const DEFAULT_MAX_LOG_MESSAGE_LENGTH = 1000;
+
+/**
+ * Options that control which log records are captured into the result.
+ */
+export interface LogCaptureOptions {
+  /**
+   * The most verbose level that is captured, eg. `warn`. Defaults to the level
+   * of the logger.
+   */
+  level?: string;
+  /**
+   * The maximum number of records that are kept, of which the most recent are
+   * kept. Default 100.
+   */
+  maxEntries?: number;
+  /** Messages longer than this many characters are truncated. Default 1000. */
+  maxMessageLength?: number;
+}
+
+/**
+ * Validates log capture options, throwing a TypeError if they are invalid.
+ *
+ * @param options - The log capture options to validate.
+ */
+export function validateLogCaptureOptions(options: LogCaptureOptions) {
+  const { level, maxEntries, maxMessageLength } = options;
+  if (level !== undefined && typeof level !== 'string') {
+    throw new TypeError('level must be a string');
+  }
+  if (
+    maxEntries !== undefined &&
+    (!Number.isInteger(maxEntries) || maxEntries < 1)
+  ) {
+    throw new TypeError('maxEntries must be an integer of at least 1');
+  }
+  if (
+    maxMessageLength !== undefined &&
+    (!Number.isInteger(maxMessageLength) || maxMessageLength < 1)
+  ) {
+    throw new TypeError('maxMessageLength must be an integer of at least 1');
+  }
+}
+
+const formatMessage = (message: unknown): string =>
+  typeof message === 'string' ? message : inspect(message);
+
+// The capture of the execution whose async context a record is written in.
+const currentLogCapture = new AsyncLocalStorage<LogCapture>();
+
+/**
+ * Keeps the log records that it is provided in memory, so that they may be
+ * reported in the result of an execution. Once `maxEntries` is exceeded, the
+ * oldest records are dropped.
+ *
+ * Loggers are shared by every execution on an instance, and so its `sink`
+ * only captures the records that are written within `run`, and not those of
+ * executions that overlap with it.
+ */
+export class LogCapture {
+  readonly entries: GenericResultV1_GenericLogEntry[] = [];
+  droppedCount = 0;
+
+  private level?: string;
+  private maxEntries: number;
+  private maxMessageLength: number;
+
+  constructor(options: LogCaptureOptions = {}) {
+    this.level = options.level;
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_LOG_ENTRIES;
+    this.maxMessageLength =
+      options.maxMessageLength ?? DEFAULT_MAX_LOG_MESSAGE_LENGTH;
+  }
+
+  /**
+   * Receives the records of a logger, capturing those that are written within
+   * the async context of {@link LogCapture.run}.
+   */
+  readonly sink: LogSink = (level, message) => {
+    if (currentLogCapture.getStore() === this) {
+      this.capture(level, message);
+    }
+  };
+
+  /**
+   * Runs a function, capturing the records that it writes to `sink`.
+   *
+   * @param fn - The function to run, eg. an execution of synthetic code.
+   * @returns The return value of `fn`.
+   */
+  run<T>(fn: () => T): T {
+    return currentLogCapture.run(this, fn);
+  }
+
+  /**
+   * Captures a record, unless it is less severe than the configured level.
+   *
+   * @param level - The level of the record, eg. `warn`.
+   * @param message - The message of the record.
+   */
+  capture(level: string, message: unknown) {
+    if (this.level && !isAtLeastAsSevere(level, this.level)) {
+      return;
+    }
+
+    const formattedMessage = formatMessage(message);
+    this.entries.push(
+      GenericResultV1_GenericLogEntry.create({
+        log_time: new Date().toISOString(),
+        level,
+        message:
+          formattedMessage.length > this.maxMessageLength
+            ? `${formattedMessage.slice(0, this.maxMessageLength)}…`
+            : formattedMessage,
+      })
+    );
+    if (this.entries.length > this.maxEntries) {
+      this.entries.shift();
+      this.droppedCount++;
+    }
+  }
+}
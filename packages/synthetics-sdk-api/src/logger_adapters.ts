@@ -0,0 +1,261 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { format } from 'util';
+import { Span } from '@opentelemetry/api';
+import { InstrumentationConfigMap } from '@opentelemetry/auto-instrumentations-node';
+import { Logger } from 'winston';
+import TransportStream = require('winston-transport');
+import { applyStructuredLoggingFields } from './structured_logging';
+import { WarnLogger } from './warnings';
+
+/**
+ * @public
+ *
+ * Logging libraries that synthetics may be provided loggers of.
+ */
+export type LoggerAdapterName = 'winston' | 'pino';
+
+/**
+ * Receives the level and message of every record that a logger writes.
+ */
+export type LogSink = (level: string, message: unknown) => void;
+
+/**
+ * @public
+ *
+ * Integrates a logging library with auto instrumentation, so that records are
+ * written in gcp's structured logging format, correlated with the active
+ * trace. Its loggers must provide a `warn` method, which the messages of
+ * warnings are written with.
+ */
+export interface LoggerAdapter<L extends WarnLogger = WarnLogger> {
+  /**
+   * Configures the library's OpenTelemetry instrumentation, rewriting records
+   * into structured logging once `getGcpProjectId` returns a project id.
+   */
+  instrumentationConfig(
+    getGcpProjectId: () => string | null | undefined
+  ): InstrumentationConfigMap;
+  /**
+   * Creates the logger that synthetics are provided with. This is called once
+   * instrumentation has been registered, as the library must be required
+   * afterwards to be instrumented.
+   */
+  createLogger(): L;
+  /**
+   * Provides the records that `logger` writes to `sink`, returning a function
+   * that stops doing so.
+   */
+  addLogSink(logger: L, sink: LogSink): () => void;
+}
+
+// The level of a record as set by winston, which is kept even when a format,
+// or the structured logging hook, removes the `level` property.
+const WINSTON_LEVEL = Symbol.for('level');
+
+class WinstonSinkTransport extends TransportStream {
+  constructor(private sink: LogSink) {
+    super();
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  log(info: any, callback: () => void) {
+    this.sink(String(info[WINSTON_LEVEL] ?? info.level), info.message);
+    setImmediate(() => this.emit('logged', info));
+    callback();
+  }
+}
+
+/**
+ * Provides winston loggers that write to the console.
+ */
+export class WinstonLoggerAdapter implements LoggerAdapter<Logger> {
+  instrumentationConfig(
+    getGcpProjectId: () => string | null | undefined
+  ): InstrumentationConfigMap {
+    return {
+      '@opentelemetry/instrumentation-winston': {
+        logHook: (span: Span, record: Record<string, unknown>) => {
+          const gcpProjectId = getGcpProjectId();
+          if (gcpProjectId) {
+            applyStructuredLoggingFields(
+              record,
+              span.spanContext(),
+              gcpProjectId,
+              String(record.level)
+            );
+            delete record['level'];
+          }
+        },
+      },
+    };
+  }
+
+  createLogger(): Logger {
+    const winston = require('winston');
+    return winston.createLogger({
+      transports: [new winston.transports.Console()],
+    });
+  }
+
+  addLogSink(logger: Logger, sink: LogSink) {
+    const transport = new WinstonSinkTransport(sink);
+    logger.add(transport);
+    return () => {
+      logger.remove(transport);
+    };
+  }
+}
+
+/** The parts of a pino logger that are used by {@link PinoLoggerAdapter}. */
+export interface PinoLogger {
+  levels: { labels: { [level: number]: string } };
+  warn(message: string): void;
+}
+
+/** The parts of pino's options that are used by {@link PinoLoggerAdapter}. */
+export interface PinoOptions {
+  messageKey: string;
+  hooks: {
+    logMethod(
+      this: PinoLogger,
+      args: unknown[],
+      method: (...args: unknown[]) => void,
+      level: number
+    ): void;
+  };
+}
+
+/** The `pino` module, which is an optional peer dependency. */
+export type Pino = (options: PinoOptions) => PinoLogger;
+
+const pinoLevelLabels: { [level: number]: string } = {
+  10: 'trace',
+  20: 'debug',
+  30: 'info',
+  40: 'warn',
+  50: 'error',
+  60: 'fatal',
+};
+
+// pino is called with a message, an object or error followed by a message, or
+// only an object or error. Messages may contain printf style placeholders.
+const pinoMessage = (args: unknown[]): unknown => {
+  const [first, second] = args;
+  if (typeof first === 'string') {
+    return format(...args);
+  }
+  if (typeof second === 'string') {
+    return format(...args.slice(1));
+  }
+  return first instanceof Error ? first.message : first;
+};
+
+/**
+ * Provides pino loggers that write to stdout. pino must be installed by the
+ * synthetic's application.
+ */
+export class PinoLoggerAdapter implements LoggerAdapter<PinoLogger> {
+  private sinks = new WeakMap<PinoLogger, Set<LogSink>>();
+
+  /**
+   * @param loadPino - Loads the pino module, which is required when the
+   *                   first logger is created.
+   */
+  constructor(private loadPino: () => Pino = () => require('pino')) {}
+
+  instrumentationConfig(
+    getGcpProjectId: () => string | null | undefined
+  ): InstrumentationConfigMap {
+    return {
+      '@opentelemetry/instrumentation-pino': {
+        logHook: (
+          span: Span,
+          record: Record<string, unknown>,
+          level?: number
+        ) => {
+          const gcpProjectId = getGcpProjectId();
+          if (gcpProjectId) {
+            applyStructuredLoggingFields(
+              record,
+              span.spanContext(),
+              gcpProjectId,
+              pinoLevelLabels[level ?? 30] ?? 'info'
+            );
+          }
+        },
+      },
+    };
+  }
+
+  createLogger(): PinoLogger {
+    const sinks = new Set<LogSink>();
+    const logger = this.loadPino()({
+      // Cloud Logging reads the message of a structured record from `message`.
+      messageKey: 'message',
+      hooks: {
+        logMethod(args, method, level) {
+          for (const sink of sinks) {
+            sink(this.levels.labels[level] ?? String(level), pinoMessage(args));
+          }
+          method.apply(this, args);
+        },
+      },
+    });
+    this.sinks.set(logger, sinks);
+    return logger;
+  }
+
+  addLogSink(logger: PinoLogger, sink: LogSink) {
+    const sinks = this.sinks.get(logger);
+    if (!sinks) {
+      throw new TypeError(
+        'Log sinks may only be added to loggers that were created by the adapter'
+      );
+    }
+    sinks.add(sink);
+    return () => {
+      sinks.delete(sink);
+    };
+  }
+}
+
+/**
+ * Creates the logger adapter that is selected by `loggerAdapter`, throwing a
+ * TypeError if its name is not known.
+ *
+ * @param loggerAdapter - The name of a logging library, or an adapter which
+ *                        is returned as is.
+ * @returns The logger adapter.
+ */
+export function createLoggerAdapter(
+  loggerAdapter: LoggerAdapterName | LoggerAdapter = 'winston'
+): LoggerAdapter {
+  if (typeof loggerAdapter !== 'string') {
+    return loggerAdapter;
+  }
+
+  switch (loggerAdapter) {
+    case 'winston':
+      return new WinstonLoggerAdapter();
+    case 'pino':
+      return new PinoLoggerAdapter();
+    default:
+      throw new TypeError(
+        `Unknown logger adapter '${loggerAdapter}', expected one of: ` +
+          'winston, pino.'
+      );
+  }
+}
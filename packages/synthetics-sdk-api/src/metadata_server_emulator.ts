@@ -0,0 +1,195 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { configureEnvironmentResolver } from './environment_resolver';
+
+const basePath = '/computeMetadata/v1/';
+const tokenPath = 'instance/service-accounts/default/token';
+
+/**
+ * Values that the emulated metadata server reports.
+ */
+export interface MetadataServerEmulatorOptions {
+  /** Default `local-project`. */
+  projectId?: string;
+  /** Default `123456789012`. */
+  projectNumber?: string;
+  /** Default `us-central1`. */
+  region?: string;
+  /** Defaults to zone `a` of the region, eg. `us-central1-a`. */
+  zone?: string;
+  /** Access token of the default service account. */
+  accessToken?: string;
+  /** Email of the default service account. */
+  serviceAccountEmail?: string;
+  /** Port that the emulator listens on, by default any that is free. */
+  port?: number;
+}
+
+/**
+ * @public
+ *
+ * An in-process emulator of the endpoints of the GCE metadata server that the
+ * sdk, and google-auth-library, use: the project id and number, the region
+ * and zone, and the token and email of the default service account. Once
+ * started, it is used in place of the metadata server through the
+ * `GCE_METADATA_HOST` environment variable, which is also inherited by child
+ * processes, so that behaviour that depends on the environment may be
+ * exercised offline.
+ *
+ * Access tokens that it provides are not accepted by Google Cloud APIs.
+ */
+export class MetadataServerEmulator {
+  readonly metadata: { [path: string]: string };
+
+  private port: number;
+  private server?: http.Server;
+  private previousMetadataHost?: string;
+
+  constructor(options: MetadataServerEmulatorOptions = {}) {
+    const projectId = options.projectId ?? 'local-project';
+    const projectNumber = options.projectNumber ?? '123456789012';
+    const region = options.region ?? 'us-central1';
+    const zone = options.zone ?? `${region}-a`;
+
+    this.port = options.port ?? 0;
+    this.metadata = {
+      'project/project-id': projectId,
+      'project/numeric-project-id': projectNumber,
+      'instance/region': `projects/${projectNumber}/regions/${region}`,
+      'instance/zone': `projects/${projectNumber}/zones/${zone}`,
+      'instance/service-accounts/default/email':
+        options.serviceAccountEmail ??
+        `synthetics@${projectId}.iam.gserviceaccount.com`,
+      [tokenPath]: JSON.stringify({
+        access_token: options.accessToken ?? 'emulated-access-token',
+        expires_in: 3599,
+        token_type: 'Bearer',
+      }),
+    };
+  }
+
+  /**
+   * The host and port of the emulator, in the format of `GCE_METADATA_HOST`.
+   */
+  get host(): string {
+    if (!this.server) {
+      throw new Error('The metadata server emulator has not been started');
+    }
+    return `127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  /** The url of the emulator, eg. `http://127.0.0.1:8080`. */
+  get url(): string {
+    return `http://${this.host}`;
+  }
+
+  /**
+   * Starts the emulator, pointing `GCE_METADATA_HOST` at it, and discarding
+   * anything that the sdk's environment resolver has cached.
+   */
+  async start(): Promise<void> {
+    const server = http.createServer((req, res) => this.handle(req, res));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, '127.0.0.1', () => resolve());
+    });
+    this.server = server;
+
+    this.previousMetadataHost = process.env.GCE_METADATA_HOST;
+    process.env.GCE_METADATA_HOST = this.host;
+    configureEnvironmentResolver();
+  }
+
+  /**
+   * Stops the emulator, restoring the previous `GCE_METADATA_HOST`.
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+
+    if (this.previousMetadataHost === undefined) {
+      delete process.env.GCE_METADATA_HOST;
+    } else {
+      process.env.GCE_METADATA_HOST = this.previousMetadataHost;
+    }
+    configureEnvironmentResolver();
+
+    await new Promise<void>((resolve, reject) =>
+      server.close((err) => (err ? reject(err) : resolve()))
+    );
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const send = (statusCode: number, body: string, contentType: string) => {
+      res.writeHead(statusCode, {
+        'Content-Type': contentType,
+        'Metadata-Flavor': 'Google',
+      });
+      res.end(body);
+    };
+
+    if (req.headers['metadata-flavor'] !== 'Google') {
+      return send(403, 'Missing Metadata-Flavor:Google header.', 'text/plain');
+    }
+    if (req.method !== 'GET') {
+      return send(405, 'Method not allowed.', 'text/plain');
+    }
+
+    const pathname = (req.url ?? '/').split('?')[0];
+    if (!pathname.startsWith(basePath)) {
+      return send(404, 'Not found.', 'text/plain');
+    }
+    const path = pathname.slice(basePath.length).replace(/\/$/, '');
+
+    if (path in this.metadata) {
+      return path === tokenPath
+        ? send(200, this.metadata[path], 'application/json')
+        : send(200, this.metadata[path], 'application/text');
+    }
+
+    // Directories list their entries, with subdirectories ending in a slash.
+    const prefix = path ? `${path}/` : '';
+    const entries = Object.keys(this.metadata)
+      .filter((key) => key.startsWith(prefix))
+      .map((key) => key.slice(prefix.length).replace(/\/.*$/, '/'))
+      .filter((entry, index, all) => all.indexOf(entry) === index);
+    if (entries.length) {
+      return send(200, `${entries.join('\n')}\n`, 'application/text');
+    }
+    send(404, 'Not found.', 'text/plain');
+  }
+}
+
+/**
+ * @public
+ *
+ * Starts a {@link MetadataServerEmulator}, which should be stopped once it is
+ * no longer needed.
+ *
+ * @param options - Values that the emulated metadata server reports.
+ * @returns The started emulator.
+ */
+export const startMetadataServerEmulator = async (
+  options: MetadataServerEmulatorOptions = {}
+): Promise<MetadataServerEmulator> => {
+  const emulator = new MetadataServerEmulator(options);
+  await emulator.start();
+  return emulator;
+};
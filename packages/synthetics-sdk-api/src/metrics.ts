@@ -0,0 +1,125 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { SyntheticMetric } from './generated/proto/synthetic_response';
+
+const metricNameRegex = /^[A-Za-z][A-Za-z0-9_/]*$/;
+const labelKeyRegex = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const maxMetricNameLength = 100;
+const maxLabelCount = 10;
+const maxLabelValueLength = 1024;
+
+/**
+ * Records a custom metric, that is reported as a part of the synthetic's
+ * result. Integers, floating point numbers and booleans are supported values.
+ * Throws a TypeError if the name, value or labels are invalid.
+ */
+export type RecordMetricFunction = (
+  name: string,
+  value: number | boolean,
+  labels?: { [key: string]: string }
+) => void;
+
+/**
+ * Creates a {@link RecordMetricFunction} that validates metrics and pushes
+ * them onto `metrics`.
+ *
+ * @param metrics - Array that recorded metrics are pushed onto.
+ * @returns A record metric function to be provided to user written synthetic
+ *          code.
+ */
+export function createRecordMetricFunction(
+  metrics: SyntheticMetric[]
+): RecordMetricFunction {
+  return (name, value, labels = {}) => {
+    metrics.push(
+      SyntheticMetric.create({
+        name: validateMetricName(name),
+        ...toMetricValue(name, value),
+        labels: validateLabels(name, labels),
+        record_time: new Date().toISOString(),
+      })
+    );
+  };
+}
+
+function validateMetricName(name: unknown): string {
+  if (typeof name !== 'string' || !metricNameRegex.test(name)) {
+    throw new TypeError(
+      `Invalid metric name '${name}': names must start with a letter, and ` +
+        'only contain letters, digits, underscores and slashes.'
+    );
+  }
+  if (name.length > maxMetricNameLength) {
+    throw new TypeError(
+      `Invalid metric name '${name}': names may be at most ` +
+        `${maxMetricNameLength} characters long.`
+    );
+  }
+  return name;
+}
+
+function toMetricValue(
+  name: string,
+  value: unknown
+): Pick<SyntheticMetric, 'int64_value' | 'double_value' | 'bool_value'> {
+  if (typeof value === 'boolean') {
+    return { bool_value: value };
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return Number.isSafeInteger(value)
+      ? { int64_value: value }
+      : { double_value: value };
+  }
+  throw new TypeError(
+    `Invalid value for metric '${name}': expected a finite number or a ` +
+      `boolean, received ${String(value)}.`
+  );
+}
+
+function validateLabels(
+  name: string,
+  labels: unknown
+): { [key: string]: string } {
+  if (typeof labels !== 'object' || labels === null || Array.isArray(labels)) {
+    throw new TypeError(
+      `Invalid labels for metric '${name}': expected an object.`
+    );
+  }
+
+  const entries = Object.entries(labels);
+  if (entries.length > maxLabelCount) {
+    throw new TypeError(
+      `Invalid labels for metric '${name}': at most ${maxLabelCount} labels ` +
+        'may be provided.'
+    );
+  }
+
+  for (const [key, value] of entries) {
+    if (!labelKeyRegex.test(key)) {
+      throw new TypeError(
+        `Invalid label '${key}' for metric '${name}': label keys must only ` +
+          'contain letters, digits and underscores.'
+      );
+    }
+    if (typeof value !== 'string' || value.length > maxLabelValueLength) {
+      throw new TypeError(
+        `Invalid value for label '${key}' of metric '${name}': expected a ` +
+          `string of at most ${maxLabelValueLength} characters.`
+      );
+    }
+  }
+
+  return { ...(labels as { [key: string]: string }) };
+}
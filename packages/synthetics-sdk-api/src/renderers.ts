@@ -0,0 +1,551 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  BrokenLinksResultV1,
+  BrokenLinksResultV1_SyntheticLinkResult,
+  GenericResultV1,
+  GenericResultV1_GenericError,
+  GenericResultV1_GenericWarning,
+  SyntheticAttachment,
+  SyntheticMetric,
+  SyntheticResult,
+  TestFrameworkResultV1,
+} from './generated/proto/synthetic_response';
+
+/** An error, as reported against a case or a whole synthetic. */
+interface RenderedError {
+  type: string;
+  message: string;
+  location?: string;
+  stackTrace?: string;
+}
+
+/**
+ * A single unit of a synthetic, eg. a step, test or link, that passed or
+ * failed.
+ */
+interface RenderedCase {
+  name: string;
+  /** The name, qualified by the suites that the case belongs to, if any. */
+  fullName: string;
+  /** The suite or page that the case belongs to. */
+  group: string;
+  passed: boolean;
+  durationMillis?: number;
+  error?: RenderedError;
+}
+
+/** Common view of the variants of a SyntheticResult. */
+interface RenderedResult {
+  title: string;
+  passed: boolean;
+  durationMillis?: number;
+  summary: string;
+  cases: RenderedCase[];
+  error?: RenderedError;
+  warnings: GenericResultV1_GenericWarning[];
+  metrics: SyntheticMetric[];
+  attachments: SyntheticAttachment[];
+}
+
+/**
+ * Whether or not a synthetic passed: a generic synthetic that is ok, a test
+ * framework synthetic without failing tests, or a broken links synthetic
+ * without failing links.
+ *
+ * @param syntheticResult - The result of the synthetic.
+ * @returns True if the synthetic passed.
+ */
+export function isSyntheticResultPassing(
+  syntheticResult: SyntheticResult
+): boolean {
+  const {
+    synthetic_generic_result_v1,
+    synthetic_test_framework_result_v1,
+    synthetic_broken_links_result_v1,
+  } = syntheticResult;
+
+  if (synthetic_generic_result_v1) {
+    return !!synthetic_generic_result_v1.ok;
+  }
+  if (synthetic_test_framework_result_v1) {
+    return (synthetic_test_framework_result_v1.failing_test_count ?? 0) === 0;
+  }
+  if (synthetic_broken_links_result_v1) {
+    return (synthetic_broken_links_result_v1.failing_link_count ?? 0) === 0;
+  }
+  return false;
+}
+
+/**
+ * @public
+ *
+ * Renders a SyntheticResult as plain text, eg. for printing to a terminal.
+ *
+ * @param syntheticResult - The result of a generic, test framework or broken
+ *                          links synthetic.
+ * @returns A human readable summary of the result.
+ */
+export function renderText(syntheticResult: SyntheticResult): string {
+  const result = toRenderedResult(syntheticResult);
+  const lines = [
+    `${result.title} ${result.passed ? 'PASSED' : 'FAILED'}` +
+      formatDuration(result.durationMillis, ' in '),
+    result.summary,
+  ];
+
+  if (result.error) {
+    lines.push('', ...formatErrorLines(result.error, ''));
+  }
+  if (result.cases.length) {
+    lines.push('');
+    for (const renderedCase of result.cases) {
+      lines.push(
+        `  ${renderedCase.passed ? '✔' : '✘'} ${renderedCase.fullName}` +
+          formatDuration(renderedCase.durationMillis, ' (', ')')
+      );
+      if (renderedCase.error) {
+        lines.push(...formatErrorLines(renderedCase.error, '      '));
+      }
+    }
+  }
+  if (result.warnings.length) {
+    lines.push('', 'Warnings:');
+    for (const warning of result.warnings) {
+      lines.push(`  ⚠ ${warning.warning_type}: ${warning.warning_message}`);
+    }
+  }
+  if (result.metrics.length) {
+    lines.push('', 'Metrics:');
+    for (const metric of result.metrics) {
+      lines.push(`  ${metric.name} = ${metricValue(metric)}${labels(metric)}`);
+    }
+  }
+  if (result.attachments.length) {
+    lines.push('', 'Attachments:');
+    for (const attachment of result.attachments) {
+      lines.push(
+        `  ${attachment.name} (${attachment.content_type}, ` +
+          `${attachment.size_bytes} bytes): ${attachment.uri}`
+      );
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * @public
+ *
+ * Renders a SyntheticResult as GitHub flavored markdown, eg. for commenting
+ * on pull requests.
+ *
+ * @param syntheticResult - The result of a generic, test framework or broken
+ *                          links synthetic.
+ * @returns A markdown summary of the result.
+ */
+export function renderMarkdown(syntheticResult: SyntheticResult): string {
+  const result = toRenderedResult(syntheticResult);
+  const lines = [
+    `### ${result.passed ? '✅' : '❌'} ${result.title} ` +
+      `${result.passed ? 'passed' : 'failed'}` +
+      formatDuration(result.durationMillis, ' in '),
+    '',
+    result.summary,
+  ];
+
+  if (result.error) {
+    lines.push(
+      '',
+      `**${escapeMarkdown(result.error.type)}**: ` +
+        escapeMarkdown(result.error.message) +
+        (result.error.location
+          ? ` (\`${result.error.location.replace(/`/g, "'")}\`)`
+          : '')
+    );
+  }
+  if (result.cases.length) {
+    lines.push(
+      '',
+      '| | Name | Duration | Error |',
+      '| --- | --- | --- | --- |'
+    );
+    for (const renderedCase of result.cases) {
+      lines.push(
+        tableRow([
+          renderedCase.passed ? '✅' : '❌',
+          renderedCase.fullName,
+          formatDuration(renderedCase.durationMillis),
+          renderedCase.error
+            ? `${renderedCase.error.type}: ${renderedCase.error.message}`
+            : '',
+        ])
+      );
+    }
+  }
+  if (result.warnings.length) {
+    lines.push('', '**Warnings**', '');
+    for (const warning of result.warnings) {
+      lines.push(
+        `* ⚠️ **${escapeMarkdown(warning.warning_type)}**: ` +
+          escapeMarkdown(warning.warning_message)
+      );
+    }
+  }
+  if (result.metrics.length) {
+    lines.push('', '| Metric | Value | Labels |', '| --- | --- | --- |');
+    for (const metric of result.metrics) {
+      lines.push(
+        tableRow([metric.name, metricValue(metric), labels(metric).trim()])
+      );
+    }
+  }
+  if (result.attachments.length) {
+    lines.push('', '**Attachments**', '');
+    for (const attachment of result.attachments) {
+      lines.push(
+        `* [${escapeMarkdown(attachment.name)}]` +
+          `(${escapeMarkdownLinkDestination(attachment.uri)}) ` +
+          `(${escapeMarkdown(attachment.content_type)})`
+      );
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * @public
+ *
+ * Renders a SyntheticResult as JUnit XML, for consumption by CI systems. Each
+ * step, test or link is rendered as a testcase; a generic synthetic without
+ * steps is rendered as a single testcase.
+ *
+ * @param syntheticResult - The result of a generic, test framework or broken
+ *                          links synthetic.
+ * @returns A JUnit XML report of the result.
+ */
+export function renderJUnit(syntheticResult: SyntheticResult): string {
+  const result = toRenderedResult(syntheticResult);
+  const cases = [...result.cases];
+  // The synthetic itself is reported when it has no cases, or when it failed
+  // outside of any of them.
+  if (!cases.length || (!result.passed && cases.every((c) => c.passed))) {
+    cases.push({
+      name: result.title,
+      fullName: result.title,
+      group: result.title,
+      passed: result.passed,
+      durationMillis: result.durationMillis,
+      error: result.error,
+    });
+  }
+
+  const failures = cases.filter((c) => !c.passed).length;
+  const suiteAttributes = xmlAttributes({
+    name: result.title,
+    tests: cases.length,
+    failures,
+    errors: 0,
+    time: formatSeconds(result.durationMillis),
+    timestamp: syntheticResult.start_time || undefined,
+  });
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites${xmlAttributes({
+      name: result.title,
+      tests: cases.length,
+      failures,
+      time: formatSeconds(result.durationMillis),
+    })}>`,
+    `  <testsuite${suiteAttributes}>`,
+  ];
+
+  for (const renderedCase of cases) {
+    const caseAttributes = xmlAttributes({
+      name: renderedCase.name,
+      classname: renderedCase.group,
+      time: formatSeconds(renderedCase.durationMillis),
+    });
+    if (renderedCase.passed) {
+      lines.push(`    <testcase${caseAttributes}/>`);
+      continue;
+    }
+
+    const error = renderedCase.error ?? {
+      type: 'Error',
+      message: `${renderedCase.name} failed`,
+    };
+    const failureAttributes = xmlAttributes({
+      message: error.message,
+      type: error.type,
+    });
+    lines.push(
+      `    <testcase${caseAttributes}>`,
+      error.stackTrace || error.location
+        ? `      <failure${failureAttributes}>` +
+            `${escapeXml(error.stackTrace || `at ${error.location}`)}` +
+            '</failure>'
+        : `      <failure${failureAttributes}/>`,
+      '    </testcase>'
+    );
+  }
+
+  if (result.attachments.length) {
+    lines.push('    <system-out>');
+    for (const attachment of result.attachments) {
+      lines.push(`[[ATTACHMENT|${escapeXml(attachment.uri)}]]`);
+    }
+    lines.push('    </system-out>');
+  }
+  lines.push('  </testsuite>', '</testsuites>');
+
+  return `${lines.join('\n')}\n`;
+}
+
+function toRenderedResult(syntheticResult: SyntheticResult): RenderedResult {
+  const {
+    synthetic_generic_result_v1: generic,
+    synthetic_test_framework_result_v1: testFramework,
+    synthetic_broken_links_result_v1: brokenLinks,
+  } = syntheticResult;
+
+  const result: RenderedResult = {
+    title: 'Synthetic',
+    passed: isSyntheticResultPassing(syntheticResult),
+    durationMillis: durationBetween(
+      syntheticResult.start_time,
+      syntheticResult.end_time
+    ),
+    summary: '',
+    cases: [],
+    warnings: [],
+    metrics: syntheticResult.metrics ?? [],
+    attachments: syntheticResult.attachments ?? [],
+  };
+
+  if (generic) {
+    Object.assign(result, fromGenericResult(generic));
+  } else if (testFramework) {
+    Object.assign(result, fromTestFrameworkResult(testFramework));
+  } else if (brokenLinks) {
+    Object.assign(result, fromBrokenLinksResult(brokenLinks));
+  } else {
+    result.summary = 'The result does not contain a synthetic result.';
+  }
+  return result;
+}
+
+function fromGenericResult(generic: GenericResultV1): Partial<RenderedResult> {
+  const steps = generic.steps ?? [];
+  const attempts = generic.attempts ?? [];
+  const passingSteps = steps.filter((step) => step.ok).length;
+
+  return {
+    title: 'Synthetic',
+    summary:
+      `${passingSteps} of ${steps.length} steps passed` +
+      (attempts.length > 1 ? `, after ${attempts.length} attempts` : ''),
+    error: generic.generic_error && fromGenericError(generic.generic_error),
+    warnings: generic.warnings ?? [],
+    cases: steps.map((step) => ({
+      name: step.name,
+      fullName: step.name,
+      group: 'Synthetic',
+      passed: step.ok ?? false,
+      durationMillis: step.duration_millis,
+      error: step.step_error && fromGenericError(step.step_error),
+    })),
+  };
+}
+
+function fromGenericError(error: GenericResultV1_GenericError): RenderedError {
+  const location = error.file_path
+    ? [error.file_path, error.line, error.column]
+        .filter((part) => part !== undefined && part !== 0)
+        .join(':')
+    : undefined;
+  return {
+    type: error.error_type,
+    message: error.error_message,
+    location:
+      location && error.function_name
+        ? `${error.function_name} (${location})`
+        : location,
+    stackTrace: error.stack_trace || undefined,
+  };
+}
+
+function fromTestFrameworkResult(
+  testFramework: TestFrameworkResultV1
+): Partial<RenderedResult> {
+  return {
+    title: 'Test suite',
+    summary:
+      `${testFramework.passing_test_count ?? 0} passing, ` +
+      `${testFramework.failing_test_count ?? 0} failing, ` +
+      `${testFramework.pending_test_count ?? 0} pending`,
+    cases: (testFramework.test_results ?? []).map((test) => {
+      const firstFrame = test.test_error?.stack_frames?.[0];
+      return {
+        name: test.title,
+        fullName: (test.title_paths ?? [test.title]).join(' › '),
+        group: (test.title_paths ?? []).slice(0, -1).join(' ') || test.title,
+        passed: test.test_passed ?? false,
+        durationMillis: durationBetween(
+          test.test_start_time,
+          test.test_end_time
+        ),
+        error: test.test_error && {
+          type: test.test_error.error_type,
+          message: test.test_error.error_message,
+          location: firstFrame?.file_path
+            ? `${firstFrame.file_path}:${firstFrame.line}`
+            : undefined,
+          stackTrace: test.test_error.stack_trace || undefined,
+        },
+      };
+    }),
+  };
+}
+
+function fromBrokenLinksResult(
+  brokenLinks: BrokenLinksResultV1
+): Partial<RenderedResult> {
+  const links = [
+    ...(brokenLinks.origin_link_result ? [brokenLinks.origin_link_result] : []),
+    ...(brokenLinks.followed_link_results ?? []),
+  ];
+  const errors = brokenLinks.errors ?? [];
+
+  return {
+    title: 'Broken links check',
+    summary:
+      `${brokenLinks.passing_link_count ?? 0} of ` +
+      `${brokenLinks.link_count ?? 0} links passed`,
+    error: errors.length
+      ? {
+          type: errors[0].error_type,
+          message: errors.map((error) => error.error_message).join('; '),
+        }
+      : undefined,
+    cases: links.map((link) => fromLinkResult(link)),
+  };
+}
+
+function fromLinkResult(
+  link: BrokenLinksResultV1_SyntheticLinkResult
+): RenderedCase {
+  const name =
+    link.target_uri +
+    (link.status_code !== undefined ? ` [${link.status_code}]` : '');
+  return {
+    name,
+    fullName: name,
+    group: link.source_uri || link.target_uri,
+    passed: link.link_passed ?? false,
+    durationMillis: durationBetween(link.link_start_time, link.link_end_time),
+    error:
+      link.error_type || link.error_message
+        ? { type: link.error_type, message: link.error_message }
+        : undefined,
+  };
+}
+
+function durationBetween(start?: string, end?: string): number | undefined {
+  const millis = Date.parse(end ?? '') - Date.parse(start ?? '');
+  return Number.isNaN(millis) ? undefined : millis;
+}
+
+function formatDuration(millis?: number, prefix = '', suffix = ''): string {
+  return millis === undefined ? '' : `${prefix}${millis} ms${suffix}`;
+}
+
+function formatSeconds(millis?: number): string {
+  return ((millis ?? 0) / 1000).toFixed(3);
+}
+
+function formatErrorLines(error: RenderedError, indent: string): string[] {
+  return [
+    `${indent}${error.type}: ${error.message}`,
+    ...(error.location ? [`${indent}    at ${error.location}`] : []),
+  ];
+}
+
+function metricValue(metric: SyntheticMetric): string {
+  return String(
+    metric.int64_value ?? metric.double_value ?? metric.bool_value ?? ''
+  );
+}
+
+function labels(metric: SyntheticMetric): string {
+  const entries = Object.entries(metric.labels ?? {});
+  return entries.length
+    ? ` {${entries.map(([key, value]) => `${key}=${value}`).join(', ')}}`
+    : '';
+}
+
+function tableRow(cells: string[]): string {
+  return `| ${cells
+    .map((cell) => escapeMarkdown(cell).replace(/\r?\n/g, '<br>'))
+    .join(' | ')} |`;
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]|<>])/g, '\\$1');
+}
+
+// Percent-encodes the characters that would end or break the destination of
+// a link, such as whitespace and parentheses.
+function escapeMarkdownLinkDestination(uri: string): string {
+  return uri.replace(
+    /[\s()<>[\]\\`]/g,
+    (char) =>
+      `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`
+  );
+}
+
+function escapeXml(text: string): string {
+  return (
+    text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;')
+      // Control characters are not allowed in XML 1.0.
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+  );
+}
+
+// Whitespace other than spaces is normalized to spaces within attribute values
+// by XML parsers, and so is encoded as character references to be preserved.
+function escapeXmlAttribute(text: string): string {
+  return escapeXml(text)
+    .replace(/\n/g, '&#10;')
+    .replace(/\r/g, '&#13;')
+    .replace(/\t/g, '&#9;');
+}
+
+function xmlAttributes(attributes: {
+  [name: string]: string | number | undefined;
+}): string {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => ` ${name}="${escapeXmlAttribute(String(value))}"`)
+    .join('');
+}
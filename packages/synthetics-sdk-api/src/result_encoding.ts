@@ -0,0 +1,126 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { SyntheticResult } from './generated/proto/synthetic_response';
+
+const protobufContentType = 'application/x-protobuf';
+const jsonContentType = 'application/json';
+
+// The quality of each media type that an Accept header lists, ignoring
+// wildcards, eg. `{ 'application/json': 0.5 }`.
+const parseAccept = (accept: string): { [mediaType: string]: number } => {
+  const qualities: { [mediaType: string]: number } = {};
+  for (const mediaRange of accept.split(',')) {
+    const [mediaType, ...parameters] = mediaRange
+      .split(';')
+      .map((part) => part.trim().toLowerCase());
+    const quality = parameters.find((parameter) => parameter.startsWith('q='));
+    const q = quality ? parseFloat(quality.slice(2)) : 1;
+    if (mediaType) {
+      qualities[mediaType] = Number.isNaN(q) ? 0 : q;
+    }
+  }
+  return qualities;
+};
+
+/**
+ * @public
+ *
+ * Whether or not a caller prefers results in protobuf binary, as they list
+ * `application/x-protobuf` in their Accept header, and do not prefer
+ * `application/json` over it.
+ *
+ * @param accept - The value of the caller's Accept header, if any.
+ * @returns True if results should be encoded as protobuf binary.
+ */
+export function acceptsProtobuf(accept: string | undefined): boolean {
+  if (!accept) {
+    return false;
+  }
+  const qualities = parseAccept(accept);
+  const protobufQuality = qualities[protobufContentType] ?? 0;
+  return (
+    protobufQuality > 0 && protobufQuality > (qualities[jsonContentType] ?? 0)
+  );
+}
+
+/**
+ * Encodes a result in the media type that a caller prefers: protobuf binary if
+ * they accept `application/x-protobuf`, and json by default.
+ *
+ * @param syntheticResult - The result to encode.
+ * @param accept - The value of the caller's Accept header, if any.
+ * @returns The content type and body of the response.
+ */
+export function negotiateResultEncoding(
+  syntheticResult: SyntheticResult,
+  accept: string | undefined
+): { contentType: string; body: string | Buffer } {
+  return acceptsProtobuf(accept)
+    ? {
+        contentType: protobufContentType,
+        body: encodeSyntheticResult(syntheticResult),
+      }
+    : {
+        contentType: jsonContentType,
+        body: JSON.stringify(syntheticResult),
+      };
+}
+
+/**
+ * @public
+ *
+ * Encodes a result as protobuf binary, as it is served to callers that accept
+ * `application/x-protobuf`.
+ *
+ * @param syntheticResult - The result to encode.
+ * @returns The protobuf binary encoding of the result.
+ */
+export function encodeSyntheticResult(
+  syntheticResult: SyntheticResult
+): Buffer {
+  return Buffer.from(SyntheticResult.encode(syntheticResult).finish());
+}
+
+/**
+ * @public
+ *
+ * Decodes the body of a response that was served by a synthetic, according to
+ * its content type: protobuf binary for `application/x-protobuf`, and json
+ * otherwise.
+ *
+ * @param body - The body of the response, as bytes, text, or parsed json.
+ * @param contentType - The value of the response's Content-Type header, if
+ *                      any. Bodies without one are decoded as json.
+ * @returns The result that the synthetic served.
+ */
+export function decodeSyntheticResult(
+  body: Uint8Array | string | object,
+  contentType?: string | null
+): SyntheticResult {
+  if (contentType?.split(';')[0].trim().toLowerCase() === protobufContentType) {
+    if (!(body instanceof Uint8Array)) {
+      throw new TypeError(
+        'Protobuf encoded results must be decoded from bytes'
+      );
+    }
+    return SyntheticResult.decode(body);
+  }
+
+  const json =
+    typeof body === 'string' || body instanceof Uint8Array
+      ? JSON.parse(Buffer.from(body).toString('utf8'))
+      : body;
+  return SyntheticResult.fromJSON(json);
+}
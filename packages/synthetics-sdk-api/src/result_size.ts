@@ -0,0 +1,233 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  SyntheticResult,
+  SyntheticResultTruncation,
+} from './generated/proto/synthetic_response';
+
+const defaultMaxBytes = 1024 * 1024;
+const defaultMaxStackTraceLength = 4096;
+const defaultMaxErrorMessageLength = 1024;
+const truncationMarker = '... [truncated]';
+
+// Lists of results, which are truncated to their leading elements once
+// strings have been truncated. Other lists, such as options that the
+// synthetic was ran with, are kept as is.
+const truncatedListFields = [
+  'test_results',
+  'stack_frames',
+  'causes',
+  'steps',
+  'attempts',
+  'logs',
+  'warnings',
+  'followed_link_results',
+  'errors',
+  'metrics',
+  'non_fatal_errors',
+];
+
+/**
+ * Options that control the size of the results that are served.
+ */
+export interface ResultSizeOptions {
+  /**
+   * The maximum size of a result, in bytes, once serialized as json. Default
+   * 1048576, ie. 1 MiB.
+   */
+  maxBytes?: number;
+  /**
+   * The length, in characters, that stack traces are truncated to once a
+   * result exceeds `maxBytes`. Default 4096.
+   */
+  maxStackTraceLength?: number;
+  /**
+   * The length, in characters, that error messages are truncated to once a
+   * result exceeds `maxBytes`, after stack traces have been truncated.
+   * Default 1024.
+   */
+  maxErrorMessageLength?: number;
+}
+
+/**
+ * Validates result size options, throwing a TypeError when they are invalid.
+ *
+ * @param options - The result size options to validate.
+ */
+export function validateResultSizeOptions(options: ResultSizeOptions) {
+  for (const name of [
+    'maxBytes',
+    'maxStackTraceLength',
+    'maxErrorMessageLength',
+  ] as const) {
+    const value = options[name];
+    if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+      throw new TypeError(`${name} must be an integer greater than 0`);
+    }
+  }
+}
+
+type ResultNode = { [field: string]: unknown };
+
+const isResultNode = (value: unknown): value is ResultNode =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Visits the fields of a result depth first, in the order that they are
+// declared, with their paths.
+const visitFields = (
+  node: ResultNode,
+  path: string,
+  visit: (node: ResultNode, field: string, fieldPath: string) => void
+) => {
+  for (const field of Object.keys(node)) {
+    // The truncations are not themselves truncated.
+    if (field === 'truncations' && !path) {
+      continue;
+    }
+    const fieldPath = path ? `${path}.${field}` : field;
+    visit(node, field, fieldPath);
+
+    const value = node[field];
+    if (Array.isArray(value)) {
+      value.forEach((element, index) => {
+        if (isResultNode(element)) {
+          visitFields(element, `${fieldPath}[${index}]`, visit);
+        }
+      });
+    } else if (isResultNode(value)) {
+      visitFields(value, fieldPath, visit);
+    }
+  }
+};
+
+const byteLength = (value: unknown) =>
+  Buffer.byteLength(JSON.stringify(value) ?? '');
+
+/**
+ * @public
+ *
+ * Truncates a result in place, so that it fits within a size budget once
+ * serialized as json. While the result exceeds the budget, the following are
+ * truncated, in order:
+ *
+ * 1. Stack traces, to `maxStackTraceLength` characters.
+ * 2. Error messages, to `maxErrorMessageLength` characters.
+ * 3. Lists of results, such as test results, steps and logs, which are halved
+ *    to their leading elements, largest list first, until the result fits.
+ *
+ * Truncated strings end with `... [truncated]`, and every field that was
+ * truncated is recorded in the result's `truncations`. Results that fit
+ * within the budget are left as is.
+ *
+ * @param syntheticResult - The result to truncate.
+ * @param options - The size budget of the result.
+ * @returns The result.
+ */
+export function limitResultSize(
+  syntheticResult: SyntheticResult,
+  options: ResultSizeOptions = {}
+): SyntheticResult {
+  const maxBytes = options.maxBytes ?? defaultMaxBytes;
+  if (byteLength(syntheticResult) <= maxBytes) {
+    return syntheticResult;
+  }
+
+  const result = syntheticResult as unknown as ResultNode;
+  let truncations: SyntheticResultTruncation[] =
+    syntheticResult.truncations ?? [];
+  syntheticResult.truncations = truncations;
+  const fits = () => byteLength(syntheticResult) <= maxBytes;
+
+  const truncateStrings = (fieldName: string, maxLength: number) =>
+    visitFields(result, '', (node, field, fieldPath) => {
+      const value = node[field];
+      if (
+        field === fieldName &&
+        typeof value === 'string' &&
+        value.length > maxLength
+      ) {
+        const truncated = value.slice(0, maxLength) + truncationMarker;
+        node[field] = truncated;
+        truncations.push({
+          field_path: fieldPath,
+          original_length: value.length,
+          truncated_length: truncated.length,
+        });
+      }
+    });
+
+  truncateStrings(
+    'stack_trace',
+    options.maxStackTraceLength ?? defaultMaxStackTraceLength
+  );
+  if (fits()) {
+    return syntheticResult;
+  }
+  truncateStrings(
+    'error_message',
+    options.maxErrorMessageLength ?? defaultMaxErrorMessageLength
+  );
+
+  while (!fits()) {
+    let largest: { node: ResultNode; field: string; path: string } | undefined;
+    let largestBytes = 0;
+    visitFields(result, '', (node, field, fieldPath) => {
+      const value = node[field];
+      if (
+        truncatedListFields.includes(field) &&
+        Array.isArray(value) &&
+        value.length
+      ) {
+        const bytes = byteLength(value);
+        if (bytes > largestBytes) {
+          largest = { node, field, path: fieldPath };
+          largestBytes = bytes;
+        }
+      }
+    });
+    if (!largest) {
+      break;
+    }
+
+    const { node, field, path } = largest;
+    const list = node[field] as unknown[];
+    const truncatedLength = Math.floor(list.length / 2);
+    node[field] = list.slice(0, truncatedLength);
+
+    // Truncations within elements that were removed are no longer relevant,
+    // and a list that is truncated again is recorded once.
+    const removedPathPrefix = `${path}[`;
+    const previous = truncations.find(
+      (truncation) => truncation.field_path === path
+    );
+    truncations = truncations.filter(
+      (truncation) =>
+        truncation !== previous &&
+        !(
+          truncation.field_path.startsWith(removedPathPrefix) &&
+          parseInt(truncation.field_path.slice(removedPathPrefix.length)) >=
+            truncatedLength
+        )
+    );
+    truncations.push({
+      field_path: path,
+      original_length: previous?.original_length ?? list.length,
+      truncated_length: truncatedLength,
+    });
+    syntheticResult.truncations = truncations;
+  }
+
+  return syntheticResult;
+}
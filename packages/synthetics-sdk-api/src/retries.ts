@@ -0,0 +1,153 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  GenericResultV1_GenericAttempt,
+  GenericResultV1_GenericError,
+} from './generated/proto/synthetic_response';
+import { serializeGenericError } from './generic_error';
+
+/**
+ * Options that control how failed synthetics are retried.
+ */
+export interface RetryOptions {
+  /** The maximum number of times to retry after the first attempt fails. */
+  maxRetries: number;
+  /** Time to wait before the first retry, in milliseconds. Default 0. */
+  backoffMillis?: number;
+  /**
+   * Factor that the wait time is multiplied by after every retry, default 2.
+   */
+  backoffMultiplier?: number;
+  /**
+   * Decides whether or not an attempt that failed with `err` is retried. All
+   * errors are retried by default.
+   */
+  retryOn?: (err: unknown) => boolean;
+}
+
+/**
+ * Validates retry options, throwing a TypeError when they are invalid.
+ *
+ * @param options - The retry options to validate.
+ */
+export function validateRetryOptions(options: RetryOptions) {
+  const { maxRetries, backoffMillis, backoffMultiplier, retryOn } = options;
+  if (!Number.isInteger(maxRetries) || maxRetries < 0) {
+    throw new TypeError('maxRetries must be an integer of at least 0');
+  }
+  if (
+    backoffMillis !== undefined &&
+    (typeof backoffMillis !== 'number' || !(backoffMillis >= 0))
+  ) {
+    throw new TypeError('backoffMillis must be a number of at least 0');
+  }
+  if (
+    backoffMultiplier !== undefined &&
+    (typeof backoffMultiplier !== 'number' || !(backoffMultiplier >= 1))
+  ) {
+    throw new TypeError('backoffMultiplier must be a number of at least 1');
+  }
+  if (retryOn !== undefined && typeof retryOn !== 'function') {
+    throw new TypeError('retryOn must be a function');
+  }
+}
+
+/**
+ * Runs `fn` until it succeeds, or until retries are exhausted, recording every
+ * attempt that was made. Rejects with the error of the last attempt.
+ *
+ * @param fn - The function to run, provided with the current attempt number.
+ * @param attempts - Array that attempts are pushed onto, in order.
+ * @param signal - Signal that stops further attempts when aborted.
+ * @param options - Retry options, `fn` is attempted once if not provided.
+ * @returns The value that `fn` resolves with.
+ */
+export async function runWithRetries<T>(
+  fn: (attemptNumber: number) => T | Promise<T>,
+  attempts: GenericResultV1_GenericAttempt[],
+  signal: AbortSignal,
+  options?: RetryOptions
+): Promise<T> {
+  const maxRetries = options?.maxRetries ?? 0;
+  const retryOn = options?.retryOn ?? (() => true);
+  let backoffMillis = options?.backoffMillis ?? 0;
+
+  for (let attemptNumber = 1; ; attemptNumber++) {
+    const start = Date.now();
+    const attempt = GenericResultV1_GenericAttempt.create({
+      attempt_number: attemptNumber,
+      attempt_start_time: new Date(start).toISOString(),
+    });
+    attempts.push(attempt);
+
+    try {
+      const result = await fn(attemptNumber);
+      finishAttempt(attempt, true);
+      return result;
+    } catch (err: unknown) {
+      finishAttempt(attempt, false, serializeGenericError(err));
+
+      if (signal.aborted || attemptNumber > maxRetries || !retryOn(err)) {
+        throw err;
+      }
+    }
+
+    await sleep(backoffMillis, signal);
+    if (signal.aborted) {
+      throw signal.reason;
+    }
+    backoffMillis *= options?.backoffMultiplier ?? 2;
+  }
+}
+
+/**
+ * Fails the attempt that has not yet finished running with the provided
+ * error, eg. when the synthetic's execution deadline has been exceeded.
+ *
+ * @param attempts - Attempts that have been recorded so far.
+ * @param error - The error to report against the unfinished attempt.
+ */
+export function failUnfinishedAttempts(
+  attempts: GenericResultV1_GenericAttempt[],
+  error: GenericResultV1_GenericError
+) {
+  attempts
+    .filter((attempt) => attempt.ok === undefined)
+    .forEach((attempt) => finishAttempt(attempt, false, error));
+}
+
+function finishAttempt(
+  attempt: GenericResultV1_GenericAttempt,
+  ok: boolean,
+  error?: GenericResultV1_GenericError
+) {
+  const end = Date.now();
+  attempt.ok = ok;
+  attempt.attempt_end_time = new Date(end).toISOString();
+  attempt.duration_millis =
+    end - new Date(attempt.attempt_start_time).getTime();
+  attempt.attempt_error = error;
+}
+
+const sleep = (millis: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timeout = setTimeout(done, millis);
+    function done() {
+      clearTimeout(timeout);
+      signal.removeEventListener('abort', done);
+      resolve();
+    }
+    signal.addEventListener('abort', done);
+  });
@@ -12,11 +12,123 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-let runtime_metadata: { [key: string]: string } = {};
+import * as fs from 'fs';
+import * as os from 'os';
+import { getExecutionRegion } from './cloud_region_resolver';
+
+/**
+ * Runtime metadata, keyed by its name.
+ */
+export type RuntimeMetadata = { [key: string]: string };
+
+/**
+ * Contributes runtime metadata to the result of each execution, and may
+ * resolve it asynchronously.
+ */
+export type RuntimeMetadataProvider = () =>
+  | RuntimeMetadata
+  | Promise<RuntimeMetadata>;
+
+let runtime_metadata: RuntimeMetadata = {};
 const list_of_env_variables = ['K_SERVICE', 'K_REVISION', 'K_CONFIGURATION'];
 
+// Environment variables that describe Cloud Run jobs, Cloud Functions, and
+// pods within GKE, when they are exposed through the downward API.
+const list_of_environment_env_variables = [
+  'CLOUD_RUN_JOB',
+  'CLOUD_RUN_EXECUTION',
+  'CLOUD_RUN_TASK_INDEX',
+  'CLOUD_RUN_TASK_ATTEMPT',
+  'CLOUD_RUN_TASK_COUNT',
+  'FUNCTION_TARGET',
+  'FUNCTION_SIGNATURE_TYPE',
+  'FUNCTION_NAME',
+  'FUNCTION_REGION',
+  'POD_NAME',
+  'NAMESPACE',
+  'CONTAINER_NAME',
+];
+
 const synthetics_sdk_api_package = require('../package.json');
 
+const bytesPerMb = 1024 * 1024;
+
+const getEnvVariables = (env_variables: string[]): RuntimeMetadata =>
+  env_variables.reduce((metadata, env_variable) => {
+    const env_variable_value = process.env[env_variable];
+    return env_variable_value
+      ? { ...metadata, [env_variable]: env_variable_value }
+      : metadata;
+  }, {});
+
+// Cloud Functions (1st gen) report their memory limit, whereas within
+// containers it is read from cgroup v2, falling back to the total memory.
+const getMemoryLimitMb = (): string => {
+  if (process.env.FUNCTION_MEMORY_MB) {
+    return process.env.FUNCTION_MEMORY_MB;
+  }
+  try {
+    const memory_max = fs
+      .readFileSync('/sys/fs/cgroup/memory.max', { encoding: 'utf-8' })
+      .trim();
+    if (/^\d+$/.test(memory_max)) {
+      return String(Math.round(Number(memory_max) / bytesPerMb));
+    }
+  } catch (err) {
+    // cgroup v2 is unavailable, eg. outside of a container.
+  }
+  return String(Math.round(os.totalmem() / bytesPerMb));
+};
+let memory_limit_mb: string | undefined;
+
+// The region is only resolved within Google Cloud environments, or where a
+// metadata server or region is provided, as the metadata server is otherwise
+// unavailable.
+const isRegionResolvable = () =>
+  [
+    'K_SERVICE',
+    'CLOUD_RUN_JOB',
+    'FUNCTION_TARGET',
+    'KUBERNETES_SERVICE_HOST',
+    'GCE_METADATA_HOST',
+    'GOOGLE_CLOUD_REGION',
+  ].some((env_variable) => process.env[env_variable]);
+
+let is_cold_start = true;
+
+const runtime_metadata_providers = new Map<string, RuntimeMetadataProvider>([
+  [
+    'node',
+    () => ({ node_version: process.version, platform: process.platform }),
+  ],
+  [
+    'memory',
+    () => {
+      memory_limit_mb ??= getMemoryLimitMb();
+      return { memory_limit_mb };
+    },
+  ],
+  ['environment', () => getEnvVariables(list_of_environment_env_variables)],
+  [
+    'region',
+    async (): Promise<RuntimeMetadata> => {
+      if (!isRegionResolvable()) {
+        return {};
+      }
+      const region = await getExecutionRegion();
+      return region ? { region } : {};
+    },
+  ],
+  [
+    'cold_start',
+    () => {
+      const cold_start = is_cold_start;
+      is_cold_start = false;
+      return { cold_start: String(cold_start) };
+    },
+  ],
+]);
+
 /**
  * @public
  *
@@ -29,14 +141,7 @@ const synthetics_sdk_api_package = require('../package.json');
  */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export function instantiateMetadata(sub_sdk_package?: any) {
-  runtime_metadata = {};
-
-  list_of_env_variables.forEach((env_variable) => {
-    const env_variable_value = process.env[env_variable];
-    if (env_variable_value) {
-      runtime_metadata[env_variable] = env_variable_value;
-    }
-  });
+  runtime_metadata = getEnvVariables(list_of_env_variables);
 
   runtime_metadata[synthetics_sdk_api_package.name] =
     synthetics_sdk_api_package.version;
@@ -47,11 +152,87 @@ export function instantiateMetadata(sub_sdk_package?: any) {
 }
 
 /**
- * Retrieves all runtime metadata relevant to GCM Synthetics and Cloud
- * Monitoring
+ * Retrieves the runtime metadata that is populated by `instantiateMetadata`,
+ * without that of runtime metadata providers.
  *
  * @returns Runtime metadata relevant to Cloud Monitoring
  */
 export function getRuntimeMetadata() {
   return runtime_metadata;
 }
+
+/**
+ * @public
+ *
+ * Registers a provider whose metadata is merged into the `runtime_metadata` of
+ * each execution's result, replacing any provider of the same name. The sdk
+ * registers the `node`, `memory`, `environment`, `region` and `cold_start`
+ * providers, which may be replaced or removed in this way. Static labels may
+ * be provided in place of a provider.
+ *
+ * @param name - The name of the provider.
+ * @param provider - A function that returns, or resolves, runtime metadata,
+ *                   or the static labels to report.
+ * @returns A function that removes the provider.
+ */
+export function registerRuntimeMetadataProvider(
+  name: string,
+  provider: RuntimeMetadataProvider | RuntimeMetadata
+): () => void {
+  if (typeof provider !== 'function') {
+    Object.keys(provider).forEach((key) => {
+      if (typeof provider[key] !== 'string') {
+        throw new TypeError(`Runtime metadata label ${key} must be a string`);
+      }
+    });
+  }
+
+  const registered_provider: RuntimeMetadataProvider =
+    typeof provider === 'function' ? provider : () => ({ ...provider });
+  runtime_metadata_providers.set(name, registered_provider);
+  return () => {
+    if (runtime_metadata_providers.get(name) === registered_provider) {
+      runtime_metadata_providers.delete(name);
+    }
+  };
+}
+
+const runProvider = async (
+  name: string,
+  provider: RuntimeMetadataProvider
+): Promise<RuntimeMetadata> => {
+  try {
+    const metadata = await provider();
+    return Object.keys(metadata ?? {}).reduce(
+      (string_metadata, key) =>
+        typeof metadata[key] === 'string'
+          ? { ...string_metadata, [key]: metadata[key] }
+          : string_metadata,
+      {}
+    );
+  } catch (err) {
+    console.error(`Runtime metadata provider ${name} failed:`, err);
+    return {};
+  }
+};
+
+/**
+ * @public
+ *
+ * Collects the runtime metadata of an execution, which is that populated by
+ * `instantiateMetadata` merged with that of every registered provider, in the
+ * order that they were registered. A provider that fails is omitted.
+ *
+ * @returns Runtime metadata relevant to Cloud Monitoring
+ */
+export async function collectRuntimeMetadata(): Promise<RuntimeMetadata> {
+  const provided_metadata = await Promise.all(
+    Array.from(runtime_metadata_providers.entries()).map(([name, provider]) =>
+      runProvider(name, provider)
+    )
+  );
+  return provided_metadata.reduce(
+    (metadata, provided) => ({ ...metadata, ...provided }),
+    { ...runtime_metadata }
+  );
+}
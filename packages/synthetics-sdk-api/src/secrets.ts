@@ -0,0 +1,348 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import axios from 'axios';
+import * as fs from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+import { GoogleAuth } from 'google-auth-library';
+import { getEnvironmentResolver } from './environment_resolver';
+import {
+  BaseError,
+  GenericResultV1_GenericError,
+  SyntheticResult,
+} from './generated/proto/synthetic_response';
+
+const secretFileNameRegex = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+const secretVersionNameRegex =
+  /^projects\/[^/]+\/secrets\/[^/]+\/versions\/[^/]+$/;
+const defaultSecretsDirectory = '/etc/secrets';
+const defaultSecretManagerUrl = 'https://secretmanager.googleapis.com';
+const redactedValue = '[REDACTED]';
+const readFile = promisify(fs.readFile);
+// Shorter values are too likely to occur by chance to be redacted.
+const minRedactedLength = 4;
+
+/**
+ * @public
+ *
+ * A source that secrets are resolved from.
+ */
+export interface SecretResolver {
+  /**
+   * Resolves the value of the secret `name`, or undefined if this source does
+   * not hold it.
+   */
+  resolve(name: string): Promise<string | undefined>;
+}
+
+/**
+ * @public
+ *
+ * Error that `getSecret` rejects with when none of the configured resolvers
+ * hold a secret.
+ */
+export class SecretNotFoundError extends Error {
+  constructor(readonly secretName: string) {
+    super(`Secret ${secretName} was not found`);
+    this.name = 'SecretNotFoundError';
+  }
+}
+
+/**
+ * @public
+ *
+ * Resolves secrets from environment variables of the same name, eg. `API_KEY`.
+ */
+export class EnvironmentSecretResolver implements SecretResolver {
+  async resolve(name: string): Promise<string | undefined> {
+    return process.env[name] || undefined;
+  }
+}
+
+/**
+ * @public
+ *
+ * Resolves secrets from files of the same name within a directory, as secrets
+ * are mounted by Cloud Run and Cloud Functions, eg. `/etc/secrets/API_KEY`.
+ * A trailing newline is removed from their values.
+ */
+export class FileSecretResolver implements SecretResolver {
+  constructor(
+    readonly directory = process.env.SYNTHETIC_SECRETS_DIR ??
+      defaultSecretsDirectory
+  ) {}
+
+  async resolve(name: string): Promise<string | undefined> {
+    if (!secretFileNameRegex.test(name)) {
+      return undefined;
+    }
+    try {
+      return (await readFile(path.join(this.directory, name), 'utf8')).replace(
+        /\r?\n$/,
+        ''
+      );
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw err;
+    }
+  }
+}
+
+/**
+ * Options of a {@link SecretManagerSecretResolver}.
+ */
+export interface SecretManagerSecretResolverOptions {
+  /**
+   * The url of the Secret Manager API, or of a compatible stand-in, eg.
+   * `http://localhost:8085`. Defaults to the `SECRET_MANAGER_URL` environment
+   * variable, or to `https://secretmanager.googleapis.com`.
+   */
+  url?: string;
+  /**
+   * The project that secrets are accessed within, by default that of the
+   * environment.
+   */
+  projectId?: string;
+  /**
+   * Provides the access token that requests are authorized with, by default
+   * that of the application default credentials. Requests are not authorized
+   * when it resolves undefined.
+   */
+  getAccessToken?: () => Promise<string | undefined>;
+  /** The timeout of requests, in milliseconds. Default 10000. */
+  timeoutMillis?: number;
+}
+
+// Whether application default credentials are available from any of the
+// sources that GoogleAuth loads them from: the file of the
+// GOOGLE_APPLICATION_CREDENTIALS environment variable, gcloud's well known
+// file, or the metadata server.
+const hasDefaultCredentials = async (googleAuth: GoogleAuth) =>
+  (await googleAuth._tryGetApplicationCredentialsFromEnvironmentVariable()) !==
+    null ||
+  (await googleAuth._tryGetApplicationCredentialsFromWellKnownFile()) !==
+    null ||
+  (await googleAuth._checkIsGCE());
+
+/**
+ * @public
+ *
+ * Resolves secrets from the `latest` version of secrets of the same name in
+ * Secret Manager, through its REST API, eg. `API_KEY` resolves
+ * `projects/my-project/secrets/API_KEY/versions/latest`. Names of secret
+ * versions are accessed as is.
+ *
+ * Secrets are not held when there is no project to access them within, or
+ * when there are no credentials to access Secret Manager with, such that a
+ * chain of resolvers ends with a `SecretNotFoundError` outside of GCP. Other
+ * failures, such as credentials that are not permitted to access a secret,
+ * are rejected with.
+ */
+export class SecretManagerSecretResolver implements SecretResolver {
+  private url: string;
+  private timeoutMillis: number;
+  private googleAuth?: GoogleAuth;
+
+  constructor(private options: SecretManagerSecretResolverOptions = {}) {
+    this.url = (
+      options.url ??
+      process.env.SECRET_MANAGER_URL ??
+      defaultSecretManagerUrl
+    ).replace(/\/$/, '');
+    this.timeoutMillis = options.timeoutMillis ?? 10000;
+  }
+
+  async resolve(name: string): Promise<string | undefined> {
+    const versionName = await this.getVersionName(name);
+    if (!versionName) {
+      return undefined;
+    }
+    const accessToken = await this.getAccessToken();
+    if (!accessToken && this.url === defaultSecretManagerUrl) {
+      // Secret Manager rejects requests that are not authorized, and so it
+      // holds no secrets for environments without credentials, eg. locally.
+      return undefined;
+    }
+
+    const response = await axios.get(`${this.url}/v1/${versionName}:access`, {
+      headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : {},
+      timeout: this.timeoutMillis,
+      validateStatus: (status) => status === 200 || status === 404,
+    });
+    if (response.status === 404) {
+      return undefined;
+    }
+    return Buffer.from(response.data.payload.data, 'base64').toString('utf8');
+  }
+
+  // Names of secrets are accessed within the project of the environment,
+  // and so none are held when there is no project, eg. outside of GCP.
+  private async getVersionName(name: string): Promise<string | undefined> {
+    if (secretVersionNameRegex.test(name)) {
+      return name;
+    }
+    const projectId =
+      this.options.projectId ?? (await getEnvironmentResolver().getProjectId());
+    return projectId
+      ? `projects/${projectId}/secrets/${encodeURIComponent(
+          name
+        )}/versions/latest`
+      : undefined;
+  }
+
+  private async getAccessToken(): Promise<string | undefined> {
+    if (this.options.getAccessToken) {
+      return this.options.getAccessToken();
+    }
+
+    this.googleAuth ??= new GoogleAuth({
+      scopes: ['https://www.googleapis.com/auth/cloud-platform'],
+    });
+    // Requests are not authorized when no credentials are available, as
+    // stand-ins of Secret Manager need not be, whereas credentials that
+    // fail to provide a token are misconfigured.
+    if (!(await hasDefaultCredentials(this.googleAuth))) {
+      return undefined;
+    }
+    return (await this.googleAuth.getAccessToken()) ?? undefined;
+  }
+}
+
+const createDefaultSecretResolvers = (): SecretResolver[] => [
+  new EnvironmentSecretResolver(),
+  new FileSecretResolver(),
+  new SecretManagerSecretResolver(),
+];
+
+let secretResolvers = createDefaultSecretResolvers();
+const secretValues = new Map<string, Promise<string>>();
+const redactedValues = new Set<string>();
+
+/**
+ * @public
+ *
+ * Replaces the chain of resolvers that {@link getSecret} resolves secrets
+ * with, discarding secrets that were cached. Values of previously resolved
+ * secrets continue to be redacted.
+ *
+ * @param resolvers - Resolvers that are consulted in order. By default the
+ *                    environment, then files within `SYNTHETIC_SECRETS_DIR` or
+ *                    `/etc/secrets`, then Secret Manager.
+ */
+export function configureSecretResolvers(
+  resolvers: SecretResolver[] = createDefaultSecretResolvers()
+) {
+  secretResolvers = resolvers;
+  secretValues.clear();
+}
+
+/**
+ * @public
+ *
+ * Resolves the value of a secret, such as an API key or the password of a
+ * test user, from the first of the configured resolvers that holds it. Values
+ * are cached, and are redacted from the captured logs and the error messages
+ * of the results that are served. Rejects with a {@link SecretNotFoundError}
+ * when no resolver holds the secret.
+ *
+ * @param name - The name of the secret, eg. `API_KEY`.
+ * @returns The value of the secret.
+ */
+export function getSecret(name: string): Promise<string> {
+  let value = secretValues.get(name);
+  if (!value) {
+    value = resolveSecret(name);
+    secretValues.set(name, value);
+    value.catch(() => secretValues.delete(name));
+  }
+  return value;
+}
+
+const resolveSecret = async (name: string): Promise<string> => {
+  for (const resolver of secretResolvers) {
+    const value = await resolver.resolve(name);
+    if (value !== undefined) {
+      if (value.length >= minRedactedLength) {
+        redactedValues.add(value);
+      }
+      return value;
+    }
+  }
+  throw new SecretNotFoundError(name);
+};
+
+/**
+ * @public
+ *
+ * Replaces the values of secrets that were resolved through
+ * {@link getSecret} within `text`.
+ *
+ * @param text - The text to redact.
+ * @returns The text, with the values of secrets replaced with `[REDACTED]`.
+ */
+export function redactSecrets(text: string): string {
+  // Longer values are replaced first, in case that they contain shorter ones.
+  return Array.from(redactedValues)
+    .sort((a, b) => b.length - a.length)
+    .reduce(
+      (redacted, value) => redacted.split(value).join(redactedValue),
+      text
+    );
+}
+
+const redactGenericError = (
+  error: GenericResultV1_GenericError | undefined
+) => {
+  if (!error) {
+    return;
+  }
+  error.error_message = redactSecrets(error.error_message);
+  error.stack_trace = redactSecrets(error.stack_trace);
+  error.causes.forEach(redactGenericError);
+};
+
+const redactBaseError = (error: BaseError) => {
+  error.error_message = redactSecrets(error.error_message);
+};
+
+/**
+ * Redacts the values of resolved secrets from the captured logs, warnings and
+ * error messages of a result, in place.
+ *
+ * @param syntheticResult - The result to redact.
+ */
+export function redactSyntheticResult(syntheticResult: SyntheticResult) {
+  if (!redactedValues.size) {
+    return;
+  }
+
+  const genericResult = syntheticResult.synthetic_generic_result_v1;
+  if (genericResult) {
+    redactGenericError(genericResult.generic_error);
+    genericResult.steps.forEach((step) => redactGenericError(step.step_error));
+    genericResult.attempts.forEach((attempt) =>
+      redactGenericError(attempt.attempt_error)
+    );
+    genericResult.logs.forEach((log) => {
+      log.message = redactSecrets(log.message);
+    });
+    genericResult.warnings.forEach((warning) => {
+      warning.warning_message = redactSecrets(warning.warning_message);
+    });
+  }
+  syntheticResult.non_fatal_errors.forEach(redactBaseError);
+}
@@ -0,0 +1,125 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as fs from 'fs';
+import { SourceMap, SourceMapPayload } from 'module';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import ErrorStackParser from 'error-stack-parser';
+
+const sourceMappingUrlRegex = /\/\/[#@]\s*sourceMappingURL=(\S+)\s*$/gm;
+const inlineSourceMapRegex =
+  /^data:application\/json;(?:charset=[^;]+;)?base64,(.*)$/;
+
+interface LoadedSourceMap {
+  sourceMap: SourceMap;
+  /** Directory that the sources of the source map are relative to. */
+  sourceRoot: string;
+}
+
+const sourceMapCache = new Map<string, LoadedSourceMap | null>();
+
+/**
+ * @public
+ *
+ * Resolves a stack frame of compiled code, eg. javascript that was compiled
+ * from typescript, to the location in the original source. Source maps are
+ * read from an inline `sourceMappingURL`, a `sourceMappingURL` that refers to
+ * a file, or a `.map` file that is adjacent to the compiled file.
+ *
+ * @param frame - A stack frame, as parsed by error-stack-parser. The frame is
+ *                updated in place.
+ * @returns The frame, pointing to the original source when a source map was
+ *          found.
+ */
+export function resolveOriginalStackFrame(
+  frame: ErrorStackParser.StackFrame
+): ErrorStackParser.StackFrame {
+  const fileName = toFilePath(frame.fileName);
+  if (!fileName || !frame.lineNumber) {
+    return frame;
+  }
+
+  const loaded = loadSourceMap(fileName);
+  if (!loaded) {
+    return frame;
+  }
+
+  // Source map entries are zero-indexed, stack frames are one-indexed.
+  const entry = loaded.sourceMap.findEntry(
+    frame.lineNumber - 1,
+    (frame.columnNumber ?? 1) - 1
+  );
+  if (!('originalSource' in entry)) {
+    return frame;
+  }
+
+  const originalSource = entry.originalSource.startsWith('file://')
+    ? fileURLToPath(entry.originalSource)
+    : path.resolve(loaded.sourceRoot, entry.originalSource);
+
+  frame.fileName = originalSource;
+  frame.lineNumber = entry.originalLine + 1;
+  frame.columnNumber = entry.originalColumn + 1;
+  return frame;
+}
+
+function toFilePath(fileName: string | undefined): string | undefined {
+  if (fileName?.startsWith('file://')) {
+    return fileURLToPath(fileName);
+  }
+  return fileName && path.isAbsolute(fileName) ? fileName : undefined;
+}
+
+function loadSourceMap(fileName: string): LoadedSourceMap | null {
+  if (!sourceMapCache.has(fileName)) {
+    let loaded: LoadedSourceMap | null = null;
+    try {
+      loaded = readSourceMap(fileName);
+    } catch (e) {
+      // Files that can't be read, or malformed source maps, are left as is.
+    }
+    sourceMapCache.set(fileName, loaded);
+  }
+  return sourceMapCache.get(fileName) ?? null;
+}
+
+function readSourceMap(fileName: string): LoadedSourceMap | null {
+  const contents = fs.readFileSync(fileName, { encoding: 'utf-8' });
+  const sourceMappingUrl = [
+    ...contents.matchAll(sourceMappingUrlRegex),
+  ].pop()?.[1];
+
+  let payload: SourceMapPayload;
+  let mapDirectory = path.dirname(fileName);
+
+  const inlineSourceMap = sourceMappingUrl?.match(inlineSourceMapRegex);
+  if (inlineSourceMap) {
+    payload = JSON.parse(Buffer.from(inlineSourceMap[1], 'base64').toString());
+  } else {
+    const mapFileName = sourceMappingUrl
+      ? path.resolve(mapDirectory, decodeURIComponent(sourceMappingUrl))
+      : `${fileName}.map`;
+    if (!fs.existsSync(mapFileName)) {
+      return null;
+    }
+    payload = JSON.parse(fs.readFileSync(mapFileName, { encoding: 'utf-8' }));
+    mapDirectory = path.dirname(mapFileName);
+  }
+
+  return {
+    sourceMap: new SourceMap(payload),
+    sourceRoot: path.resolve(mapDirectory, payload.sourceRoot ?? ''),
+  };
+}
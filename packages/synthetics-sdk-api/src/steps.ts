@@ -0,0 +1,88 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  GenericResultV1_GenericError,
+  GenericResultV1_GenericStep,
+} from './generated/proto/synthetic_response';
+import { serializeGenericError } from './generic_error';
+
+/**
+ * Runs `fn` as a named step of a synthetic. The step is timed, and whether or
+ * not it passed is recorded in the synthetic's result. Errors thrown by `fn`
+ * are recorded against the step and then rethrown.
+ */
+export type StepFunction = <T>(
+  name: string,
+  fn: () => T | Promise<T>
+) => Promise<T>;
+
+/**
+ * Creates a {@link StepFunction} that records each step that it runs.
+ *
+ * @param steps - Array that step results are pushed onto, in the order in
+ *                which the steps were started.
+ * @returns A step function to be provided to user written synthetic code.
+ */
+export function createStepFunction(
+  steps: GenericResultV1_GenericStep[]
+): StepFunction {
+  return async <T>(name: string, fn: () => T | Promise<T>): Promise<T> => {
+    const start = Date.now();
+    const step = GenericResultV1_GenericStep.create({
+      name,
+      step_start_time: new Date(start).toISOString(),
+    });
+    steps.push(step);
+
+    const finish = (ok: boolean) => {
+      const end = Date.now();
+      step.ok = ok;
+      step.step_end_time = new Date(end).toISOString();
+      step.duration_millis = end - start;
+    };
+
+    try {
+      const result = await fn();
+      finish(true);
+      return result;
+    } catch (err: unknown) {
+      finish(false);
+      step.step_error = serializeGenericError(err);
+      throw err;
+    }
+  };
+}
+
+/**
+ * Fails all steps that have not yet finished running with the provided error,
+ * eg. when the synthetic's execution deadline has been exceeded.
+ *
+ * @param steps - Steps that have been recorded so far.
+ * @param error - The error to report against unfinished steps.
+ */
+export function failUnfinishedSteps(
+  steps: GenericResultV1_GenericStep[],
+  error: GenericResultV1_GenericError
+) {
+  const end = Date.now();
+  steps
+    .filter((step) => step.ok === undefined)
+    .forEach((step) => {
+      step.ok = false;
+      step.step_end_time = new Date(end).toISOString();
+      step.duration_millis = end - new Date(step.step_start_time).getTime();
+      step.step_error = error;
+    });
+}
@@ -0,0 +1,94 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { SpanContext, TraceFlags } from '@opentelemetry/api';
+
+const LOGGING_TRACE_KEY = 'logging.googleapis.com/trace';
+const LOGGING_SPAN_KEY = 'logging.googleapis.com/spanId';
+const LOGGING_SAMPLED_KEY = 'logging.googleapis.com/trace_sampled';
+const LOGGING_SEVERITY_KEY = 'severity';
+
+// Fields that OpenTelemetry log instrumentations add to records, which are
+// replaced by their structured logging equivalents.
+const OTEL_LOGGING_KEYS = ['trace_id', 'span_id', 'trace_flags'];
+
+// Levels of both winston and pino.
+const levelToSeverityMap: { [key: string]: string } = {
+  fatal: 'CRITICAL',
+  error: 'ERROR',
+  warn: 'WARNING',
+  info: 'INFO',
+  http: 'INFO',
+  verbose: 'DEBUG',
+  debug: 'DEBUG',
+  silly: 'DEBUG',
+  trace: 'DEBUG',
+};
+
+// Cloud Logging severities, from least to most severe.
+const severities = [
+  'DEFAULT',
+  'DEBUG',
+  'INFO',
+  'NOTICE',
+  'WARNING',
+  'ERROR',
+  'CRITICAL',
+  'ALERT',
+  'EMERGENCY',
+];
+
+/**
+ * Converts the level of a log record to a Cloud Logging severity.
+ *
+ * @param level - A winston or pino level, eg. `warn`.
+ * @returns The severity, `DEFAULT` if the level is not known.
+ */
+export const levelToSeverity = (level: string): string =>
+  levelToSeverityMap[level] ?? 'DEFAULT';
+
+/**
+ * Whether or not a record of `level` is at least as severe as `minimumLevel`.
+ */
+export const isAtLeastAsSevere = (level: string, minimumLevel: string) =>
+  severities.indexOf(levelToSeverity(level)) >=
+  severities.indexOf(levelToSeverity(minimumLevel));
+
+/**
+ * Rewrites a log record that an OpenTelemetry log instrumentation has added
+ * trace fields to, so that it uses gcp's
+ * {@link https://cloud.google.com/logging/docs/structured-logging|structured logging}
+ * fields instead, correlating the record with its trace.
+ *
+ * @param record - The record to rewrite, in place.
+ * @param spanContext - The context of the span that was active when logging.
+ * @param gcpProjectId - The project that traces are written to.
+ * @param level - The level of the record, converted to its severity.
+ */
+export function applyStructuredLoggingFields(
+  record: Record<string, unknown>,
+  spanContext: SpanContext,
+  gcpProjectId: string,
+  level: string
+) {
+  record[
+    LOGGING_TRACE_KEY
+  ] = `projects/${gcpProjectId}/traces/${spanContext.traceId}`;
+  record[LOGGING_SPAN_KEY] = spanContext.spanId;
+  record[LOGGING_SAMPLED_KEY] = spanContext.traceFlags === TraceFlags.SAMPLED;
+  record[LOGGING_SEVERITY_KEY] = levelToSeverity(level);
+  for (const key of OTEL_LOGGING_KEYS) {
+    delete record[key];
+  }
+}
@@ -0,0 +1,65 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * @public
+ *
+ * Error that a synthetic fails with when it does not complete within its
+ * configured execution deadline.
+ */
+export class SyntheticTimeoutError extends Error {
+  constructor(readonly timeoutMillis: number) {
+    super(
+      `Synthetic did not complete within the execution deadline of ${timeoutMillis} milliseconds`
+    );
+    this.name = 'SyntheticTimeoutError';
+  }
+}
+
+/**
+ * Runs `fn`, rejecting with a {@link SyntheticTimeoutError} if it does not
+ * settle within `timeoutMillis`. When the deadline is hit, `controller` is
+ * aborted with the timeout error as its reason, so that user code listening to
+ * its signal may stop any outstanding work.
+ *
+ * @param fn - The function to run.
+ * @param controller - Controller whose signal has been provided to `fn`.
+ * @param timeoutMillis - The deadline, no deadline is applied if undefined.
+ * @returns The value that `fn` resolves with.
+ */
+export async function runWithDeadline<T>(
+  fn: () => T | Promise<T>,
+  controller: AbortController,
+  timeoutMillis?: number
+): Promise<T> {
+  const run = (async () => fn())();
+  if (timeoutMillis === undefined) {
+    return run;
+  }
+
+  let deadlineTimeout: NodeJS.Timeout | undefined;
+  const deadline = new Promise<never>((_, reject) => {
+    deadlineTimeout = setTimeout(() => {
+      const error = new SyntheticTimeoutError(timeoutMillis);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMillis);
+  });
+
+  try {
+    return await Promise.race([run, deadline]);
+  } finally {
+    clearTimeout(deadlineTimeout);
+  }
+}
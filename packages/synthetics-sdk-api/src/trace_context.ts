@@ -0,0 +1,87 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  Context,
+  defaultTextMapSetter,
+  ROOT_CONTEXT,
+  SpanContext,
+  TextMapGetter,
+  trace,
+} from '@opentelemetry/api';
+import { W3CTraceContextPropagator } from '@opentelemetry/core';
+
+/**
+ * Request headers, or environment variables, that a trace context is carried
+ * by.
+ */
+export type TraceContextCarrier = {
+  [key: string]: string | string[] | undefined;
+};
+
+// The W3C propagator is used directly, rather than the globally registered
+// propagator, as the latter may have been registered through a different copy
+// of `@opentelemetry/api` than the one that this sdk loads.
+const propagator = new W3CTraceContextPropagator();
+
+// Reads lower case headers, or the upper case environment variables that trace
+// context is propagated to child processes with.
+const carrierGetter: TextMapGetter<TraceContextCarrier> = {
+  keys: (carrier) => Object.keys(carrier),
+  get: (carrier, key) => carrier[key] ?? carrier[key.toUpperCase()],
+};
+
+/**
+ * @public
+ *
+ * Extracts the W3C trace context that is carried by the `traceparent` and
+ * `tracestate` headers of a request, or by the `TRACEPARENT` and `TRACESTATE`
+ * environment variables of a child process.
+ *
+ * @param carrier - Request headers, or environment variables.
+ * @returns A context whose span is the remote parent, or the root context if
+ *          no valid trace context is carried.
+ */
+export const extractTraceContext = (carrier: TraceContextCarrier): Context =>
+  propagator.extract(ROOT_CONTEXT, carrier, carrierGetter);
+
+/**
+ * @public
+ *
+ * Returns the `TRACEPARENT`, and when present `TRACESTATE`, environment
+ * variables that propagate a span's context to a child process, where it may
+ * be read with {@link extractTraceContext}.
+ *
+ * @param spanContext - The context of the span that the child process
+ *                      continues, by default that of the active span.
+ * @returns The environment variables, which are empty if there is no span.
+ */
+export const traceContextEnv = (
+  spanContext: SpanContext | undefined = trace.getActiveSpan()?.spanContext()
+): { [key: string]: string } => {
+  if (!spanContext) {
+    return {};
+  }
+
+  const headers: { [key: string]: string } = {};
+  propagator.inject(
+    trace.setSpanContext(ROOT_CONTEXT, spanContext),
+    headers,
+    defaultTextMapSetter
+  );
+  return Object.keys(headers).reduce(
+    (env, header) => ({ ...env, [header.toUpperCase()]: headers[header] }),
+    {}
+  );
+};
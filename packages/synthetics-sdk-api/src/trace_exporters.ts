@@ -0,0 +1,131 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  BatchSpanProcessor,
+  ConsoleSpanExporter,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+  SpanExporter,
+  SpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import { TraceExporter } from '@google-cloud/opentelemetry-cloud-trace-exporter';
+
+/**
+ * @public
+ *
+ * Exporters that traces may be written with:
+ *
+ * * `cloud_trace`: Google Cloud Trace, the default.
+ * * `otlp_http`: An OpenTelemetry collector, over OTLP/HTTP.
+ * * `otlp_grpc`: An OpenTelemetry collector, over OTLP/gRPC.
+ * * `console`: Spans are written to stdout.
+ * * `in_memory`: Spans are kept in memory, eg. for tests.
+ */
+export type TraceExporterName =
+  | 'cloud_trace'
+  | 'otlp_http'
+  | 'otlp_grpc'
+  | 'console'
+  | 'in_memory';
+
+/**
+ * @public
+ *
+ * Options for the `otlp_http` and `otlp_grpc` exporters. When not provided,
+ * the standard `OTEL_EXPORTER_OTLP_*` environment variables are respected.
+ */
+export interface OtlpExporterOptions {
+  /** The url of the collector, eg. `http://localhost:4318/v1/traces`. */
+  url?: string;
+  /**
+   * Headers that are sent to the collector. Only supported by `otlp_http`,
+   * use `OTEL_EXPORTER_OTLP_HEADERS` for `otlp_grpc`.
+   */
+  headers?: { [key: string]: string };
+}
+
+const traceExporterNames: TraceExporterName[] = [
+  'cloud_trace',
+  'otlp_http',
+  'otlp_grpc',
+  'console',
+  'in_memory',
+];
+
+/**
+ * Creates the span exporter that is selected by `traceExporter`, throwing a
+ * TypeError if its name is not known.
+ *
+ * @param traceExporter - The name of an exporter, or an exporter instance
+ *                        which is returned as is.
+ * @param otlpExporterOptions - Options for OTLP exporters.
+ * @returns The span exporter.
+ */
+export function createTraceExporter(
+  traceExporter: TraceExporterName | SpanExporter = 'cloud_trace',
+  otlpExporterOptions: OtlpExporterOptions = {}
+): SpanExporter {
+  if (typeof traceExporter !== 'string') {
+    return traceExporter;
+  }
+
+  // OTLP exporters are only required when selected, so that their transports,
+  // such as grpc, are not loaded otherwise.
+  switch (traceExporter) {
+    case 'cloud_trace':
+      return new TraceExporter();
+    case 'otlp_http': {
+      const {
+        OTLPTraceExporter,
+      } = require('@opentelemetry/exporter-trace-otlp-http');
+      return new OTLPTraceExporter({
+        url: otlpExporterOptions.url,
+        headers: otlpExporterOptions.headers,
+      });
+    }
+    case 'otlp_grpc': {
+      const {
+        OTLPTraceExporter,
+      } = require('@opentelemetry/exporter-trace-otlp-grpc');
+      return new OTLPTraceExporter({ url: otlpExporterOptions.url });
+    }
+    case 'console':
+      return new ConsoleSpanExporter();
+    case 'in_memory':
+      return new InMemorySpanExporter();
+    default:
+      throw new TypeError(
+        `Unknown trace exporter '${traceExporter}', expected one of: ` +
+          `${traceExporterNames.join(', ')}.`
+      );
+  }
+}
+
+/**
+ * Creates the span processor that spans are exported through. Exporters that
+ * write to a remote backend are batched, while local exporters are written to
+ * synchronously so that spans are available as soon as they end.
+ *
+ * @param exporter - The exporter to write spans to.
+ * @returns A span processor for the exporter.
+ */
+export function createExportingSpanProcessor(
+  exporter: SpanExporter
+): SpanProcessor {
+  return exporter instanceof ConsoleSpanExporter ||
+    exporter instanceof InMemorySpanExporter
+    ? new SimpleSpanProcessor(exporter)
+    : new BatchSpanProcessor(exporter);
+}
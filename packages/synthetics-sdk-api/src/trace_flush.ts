@@ -0,0 +1,95 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { ProxyTracerProvider, TracerProvider } from '@opentelemetry/api';
+import {
+  BaseError,
+  SyntheticResult,
+} from './generated/proto/synthetic_response';
+import { getTracerProvider } from './auto_instrumentation';
+
+export const DEFAULT_TRACE_FLUSH_TIMEOUT_MILLIS = 5000;
+
+const TRACE_FLUSH_ERROR_TYPE = 'TraceFlushError';
+
+/** A tracer provider that buffers spans, such as the NodeTracerProvider. */
+interface FlushableTracerProvider extends TracerProvider {
+  forceFlush(): Promise<void>;
+}
+
+const isFlushable = (
+  provider: TracerProvider
+): provider is FlushableTracerProvider =>
+  typeof (provider as Partial<FlushableTracerProvider>).forceFlush ===
+  'function';
+
+// Span processors reject a flush with either an error, or a list of errors.
+const describeFlushFailure = (err: unknown): string =>
+  (Array.isArray(err) ? err : [err])
+    .map((error) => (error instanceof Error ? error.message : String(error)))
+    .join('; ');
+
+/**
+ * @public
+ *
+ * Force flushes spans that are buffered by the tracer provider, so that they
+ * are exported before a response is served, after which the cpu of a cloud
+ * function may be throttled. Waits at most `timeoutMillis`, and resolves
+ * either way; a flush that fails or times out is reported as a
+ * `TraceFlushError` within the result's `non_fatal_errors`.
+ *
+ * @param syntheticResult - The result that flush failures are reported in.
+ * @param timeoutMillis - The maximum amount of time to wait for the flush.
+ * @param tracerProvider - The provider to flush, by default the one that
+ *                         {@link instantiateAutoInstrumentation} registered.
+ */
+export async function flushTraces(
+  syntheticResult: SyntheticResult,
+  timeoutMillis: number = DEFAULT_TRACE_FLUSH_TIMEOUT_MILLIS,
+  tracerProvider: TracerProvider = getTracerProvider()
+): Promise<void> {
+  const provider =
+    tracerProvider instanceof ProxyTracerProvider
+      ? tracerProvider.getDelegate()
+      : tracerProvider;
+  if (!isFlushable(provider)) {
+    return;
+  }
+
+  let flushTimeout: NodeJS.Timeout | undefined;
+  const deadline = new Promise<never>((_, reject) => {
+    flushTimeout = setTimeout(
+      () =>
+        reject(
+          new Error(
+            `Traces were not flushed within ${timeoutMillis} milliseconds`
+          )
+        ),
+      timeoutMillis
+    );
+  });
+
+  try {
+    await Promise.race([provider.forceFlush(), deadline]);
+  } catch (err: unknown) {
+    syntheticResult.non_fatal_errors.push(
+      BaseError.create({
+        error_type: TRACE_FLUSH_ERROR_TYPE,
+        error_message: `Unable to flush traces: ${describeFlushFailure(err)}`,
+      })
+    );
+  } finally {
+    clearTimeout(flushTimeout);
+  }
+}
@@ -0,0 +1,67 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { GenericResultV1_GenericWarning } from './generated/proto/synthetic_response';
+
+/**
+ * @public
+ *
+ * The part of a logger that warnings are written with, which the loggers of
+ * every {@link LoggerAdapter} must provide.
+ */
+export interface WarnLogger {
+  warn(message: string): void;
+}
+
+/**
+ * Flags a degradation, such as a slow response, that is reported in the
+ * synthetic's result without failing it. Throws a TypeError if the type or
+ * message are not non-empty strings.
+ */
+export type WarnFunction = (type: string, message: string) => void;
+
+/**
+ * Creates a {@link WarnFunction} that pushes warnings onto `warnings`, and
+ * writes them to the logs of the synthetic.
+ *
+ * @param warnings - Array that warnings are pushed onto, in order.
+ * @param logger - Logger that warnings are written to at the warn level.
+ * @returns A warn function to be provided to user written synthetic code.
+ */
+export function createWarnFunction(
+  warnings: GenericResultV1_GenericWarning[],
+  logger: WarnLogger
+): WarnFunction {
+  return (type, message) => {
+    if (typeof type !== 'string' || !type) {
+      throw new TypeError(
+        `Invalid warning type '${type}': expected a non-empty string.`
+      );
+    }
+    if (typeof message !== 'string' || !message) {
+      throw new TypeError(
+        `Invalid message for warning '${type}': expected a non-empty string.`
+      );
+    }
+
+    warnings.push(
+      GenericResultV1_GenericWarning.create({
+        warning_type: type,
+        warning_message: message,
+        warning_time: new Date().toISOString(),
+      })
+    );
+    logger.warn(`Warning ${type}: ${message}`);
+  };
+}
@@ -0,0 +1,34 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+
+const { runSyntheticHandler } = require('../../src/index');
+const functions = require('@google-cloud/functions-framework');
+
+exports.SyntheticOk = runSyntheticHandler(async ({executionId, query, body}) => {
+  if (!executionId) {
+    throw new Error('No execution id was provided');
+  }
+  if (Object.keys(query).length || body !== undefined) {
+    throw new Error('Unexpected query parameters or body were provided');
+  }
+});
+
+exports.SyntheticNotOk = runSyntheticHandler(async () => {
+  throw new Error('Did not pass');
+});
+
+exports.NotSynthetic = (req, res) => res.send({});
+
+functions.http('SyntheticRegistered', runSyntheticHandler(async () => true));
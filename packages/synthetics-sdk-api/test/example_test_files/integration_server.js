@@ -13,7 +13,7 @@
 // limitations under the License.
 
 const { runSyntheticHandler, instantiateAutoInstrumentation } = require('../../src/index');
-instantiateAutoInstrumentation();
+instantiateAutoInstrumentation({ traceExporter: 'in_memory' });
 const functions = require('@google-cloud/functions-framework');
 import { AssertionError } from 'chai';
 
@@ -20,9 +20,10 @@ import supertest from 'supertest';
 import { Writable } from 'stream';
 import * as sinon from 'sinon';
 import winston, { Logger } from 'winston';
+import { ReadableSpan } from '@opentelemetry/sdk-trace-base';
 
 const { getTestServer } = require('@google-cloud/functions-framework/testing');
-const { getInstrumentedLogger } = require('../../src/auto_instrumentation');
+const { getInMemorySpanExporter, getInstrumentedLogger } = require('../../src/auto_instrumentation');
 
 let logger: Logger;
 let writeSpy: sinon.SinonSpy;
@@ -65,11 +66,21 @@ describe('CloudFunctionV2 Running Synthetics', async () => {
     const record = JSON.parse(writeSpy.firstCall.args[0].toString());
     expect(record['severity']).to.equal('INFO');
     expect(record['message']).to.equal('This is a log');
-    expect(record['logging.googleapis.com/spanId']).to.equal('1234567890123456');
     expect(record['logging.googleapis.com/trace']).to.equal('projects/project-id/traces/12345678901234567890123456789012');
     expect(record['logging.googleapis.com/trace_sampled']).to.equal(true);
 
     const output: SyntheticResult = response.body as SyntheticResult;
+    // Logs are written within the execution's span, which continues the trace
+    // of the request.
+    expect(output.trace_id).to.equal(traceId);
+    expect(output.span_id).to.not.equal(traceParentId);
+    expect(record['logging.googleapis.com/spanId']).to.equal(output.span_id);
+    expect(output.non_fatal_errors).to.deep.equal([]);
+
+    const executionSpan = getInMemorySpanExporter().getFinishedSpans().find(
+      (span: ReadableSpan) => span.spanContext().spanId === output.span_id);
+    expect(executionSpan?.attributes['synthetic.outcome']).to.equal('passed');
+    expect(executionSpan?.parentSpanId).to.equal(traceParentId);
     const start_time = output.start_time;
     const end_time = output.end_time;
     const generic_result = output?.synthetic_generic_result_v1;
@@ -99,11 +110,15 @@ describe('CloudFunctionV2 Running Synthetics', async () => {
     const record = JSON.parse(writeSpy.firstCall.args[0].toString());
     expect(record['message']).to.equal('This is an error log');
     expect(record['severity']).to.equal('ERROR');
-    expect(record['logging.googleapis.com/spanId']).to.equal('1234567890123456');
     expect(record['logging.googleapis.com/trace']).to.equal('projects/project-id/traces/12345678901234567890123456789012');
     expect(record['logging.googleapis.com/trace_sampled']).to.equal(true);
 
     const output: SyntheticResult = response.body as SyntheticResult;
+    // Logs are written within the execution's span, which continues the trace
+    // of the request.
+    expect(output.trace_id).to.equal(traceId);
+    expect(output.span_id).to.not.equal(traceParentId);
+    expect(record['logging.googleapis.com/spanId']).to.equal(output.span_id);
     const start_time = output.start_time;
     const end_time = output.end_time;
     const generic_result = output?.synthetic_generic_result_v1;
@@ -0,0 +1,215 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as sinon from 'sinon';
+import { pathToFileURL } from 'url';
+import { Bucket } from '@google-cloud/storage';
+import {
+  artifactDirectoryName,
+  ArtifactStorage,
+  createArtifactStorage,
+  createAttachFunction,
+  GcsArtifactStorage,
+  LocalArtifactStorage,
+} from '../../src/artifacts';
+import { SyntheticAttachment } from '../../src/generated/proto/synthetic_response';
+
+describe('LocalArtifactStorage', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'artifacts-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes artifacts within its directory', async () => {
+    const storage: ArtifactStorage = new LocalArtifactStorage(dir);
+    const uri = await storage.save(
+      'execution/page.html',
+      Buffer.from('<html></html>'),
+      'text/html'
+    );
+
+    const filePath = path.join(dir, 'execution', 'page.html');
+    expect(uri).to.equal(pathToFileURL(filePath).href);
+    expect(fs.readFileSync(filePath, { encoding: 'utf-8' })).to.equal(
+      '<html></html>'
+    );
+  });
+
+  it('rejects artifacts outside of its directory', async () => {
+    const storage: ArtifactStorage = new LocalArtifactStorage(
+      path.join(dir, 'artifacts')
+    );
+
+    for (const objectName of ['../escape.txt', '../../../tmp/x/page.html']) {
+      await storage.save(objectName, Buffer.from('text'), 'text/plain').then(
+        () => expect.fail(`'${objectName}' should have been rejected`),
+        (err) => expect(err).to.be.instanceOf(TypeError)
+      );
+    }
+    expect(fs.readdirSync(dir)).to.be.empty;
+  });
+});
+
+describe('artifactDirectoryName', () => {
+  it('names directories after valid execution ids', () => {
+    expect(artifactDirectoryName('execution-id_1.2')).to.equal(
+      'execution-id_1.2'
+    );
+  });
+
+  it('uses a random directory for invalid or missing execution ids', () => {
+    for (const executionId of [undefined, '', '../../../tmp/x', 'a/b', '..']) {
+      expect(artifactDirectoryName(executionId)).to.match(
+        /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+      );
+    }
+  });
+});
+
+describe('GcsArtifactStorage', () => {
+  it('saves artifacts under its prefix', async () => {
+    const save = sinon.stub().resolves();
+    const file = sinon.stub().returns({ save });
+    const bucket = { name: 'my-bucket', file } as unknown as Bucket;
+
+    const storage = new GcsArtifactStorage(bucket, 'artifacts');
+    const uri = await storage.save(
+      'execution/screenshot.png',
+      Buffer.from([1, 2, 3]),
+      'image/png'
+    );
+
+    expect(uri).to.equal('gs://my-bucket/artifacts/execution/screenshot.png');
+    sinon.assert.calledWith(file, 'artifacts/execution/screenshot.png');
+    sinon.assert.calledWith(save, Buffer.from([1, 2, 3]), {
+      contentType: 'image/png',
+    });
+  });
+});
+
+describe('createArtifactStorage', () => {
+  it('creates gcs storage for gs:// locations', () => {
+    const storage = createArtifactStorage('gs://my-bucket/some/prefix');
+    expect(storage).to.be.instanceOf(GcsArtifactStorage);
+    expect((storage as GcsArtifactStorage).bucket.name).to.equal('my-bucket');
+    expect((storage as GcsArtifactStorage).prefix).to.equal('some/prefix');
+  });
+
+  it('creates local storage for other locations', () => {
+    const storage = createArtifactStorage('/tmp/artifacts');
+    expect(storage).to.be.instanceOf(LocalArtifactStorage);
+    expect((storage as LocalArtifactStorage).directory).to.equal(
+      '/tmp/artifacts'
+    );
+  });
+});
+
+describe('createAttachFunction', () => {
+  const memoryStorage = (): ArtifactStorage => ({
+    save: async (objectName) => `memory://${objectName}`,
+  });
+
+  it('saves artifacts within the directory and records them', async () => {
+    const attachments: SyntheticAttachment[] = [];
+    const attach = createAttachFunction(
+      attachments,
+      memoryStorage(),
+      'execution'
+    );
+
+    const attachment = await attach(
+      'screenshot.png',
+      new Uint8Array([1, 2, 3]),
+      'image/png'
+    );
+
+    expect(attachments).to.deep.equal([attachment]);
+    expect(attachment.name).to.equal('screenshot.png');
+    expect(attachment.content_type).to.equal('image/png');
+    expect(attachment.uri).to.equal('memory://execution/screenshot.png');
+    expect(attachment.size_bytes).to.equal(3);
+    expect(attachment.attach_time).to.not.be.empty;
+  });
+
+  it('rejects invalid names and content types', async () => {
+    const attach = createAttachFunction([], memoryStorage(), 'execution');
+
+    for (const name of ['', '../escape.txt', 'a/b.txt', '.hidden']) {
+      await attach(name, 'text', 'text/plain').then(
+        () => expect.fail(`'${name}' should have been rejected`),
+        (err) => expect(err).to.be.instanceOf(TypeError)
+      );
+    }
+    await attach('file.txt', 'text', '').then(
+      () => expect.fail('an empty content type should have been rejected'),
+      (err) => expect(err).to.be.instanceOf(TypeError)
+    );
+  });
+
+  it('rejects names that have already been attached', async () => {
+    const attachments: SyntheticAttachment[] = [];
+    const attach = createAttachFunction(
+      attachments,
+      memoryStorage(),
+      'execution'
+    );
+
+    await attach('file.txt', 'text', 'text/plain');
+    await attach('file.txt', 'text', 'text/plain').then(
+      () => expect.fail('a duplicate name should have been rejected'),
+      (err) => expect(err).to.be.instanceOf(TypeError)
+    );
+    expect(attachments).to.have.length(1);
+  });
+
+  it('rejects when no storage has been configured', async () => {
+    const attachments: SyntheticAttachment[] = [];
+    const attach = createAttachFunction(attachments, undefined, 'execution');
+
+    await attach('file.txt', 'text', 'text/plain').then(
+      () => expect.fail('attaching without storage should have been rejected'),
+      (err) => expect(err.message).to.contain('no artifact storage')
+    );
+    expect(attachments).to.be.empty;
+  });
+
+  it('does not record artifacts that failed to save', async () => {
+    const attachments: SyntheticAttachment[] = [];
+    const save = sinon
+      .stub()
+      .onFirstCall()
+      .rejects(new Error('upload failed'))
+      .onSecondCall()
+      .resolves('memory://execution/file.txt');
+    const attach = createAttachFunction(attachments, { save }, 'execution');
+
+    await attach('file.txt', 'text', 'text/plain').then(
+      () => expect.fail('a failed save should have been rejected'),
+      (err) => expect(err.message).to.equal('upload failed')
+    );
+    expect(attachments).to.be.empty;
+
+    await attach('file.txt', 'text', 'text/plain');
+    expect(attachments).to.have.length(1);
+  });
+});
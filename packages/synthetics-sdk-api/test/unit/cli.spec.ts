@@ -0,0 +1,158 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { expect } from 'chai';
+import * as path from 'path';
+import { runCli } from '../../src/cli';
+
+const exampleFiles = path.join(__dirname, '..', 'example_test_files');
+const multipleSynthetics = path.join(exampleFiles, 'cli_synthetics.js');
+const singleSynthetic = path.join(exampleFiles, 'cli_single_export.js');
+
+const run = async (...args: string[]) => {
+  let stdout = '';
+  let stderr = '';
+  const exitCode = await runCli(args, {
+    stdout: { write: (chunk: string) => (stdout += chunk) },
+    stderr: { write: (chunk: string) => (stderr += chunk) },
+  });
+  return { exitCode, stdout, stderr };
+};
+
+describe('synthetics cli', () => {
+  it('runs the only function that a module exports', async () => {
+    const { exitCode, stdout } = await run(singleSynthetic);
+    expect(exitCode).to.equal(0);
+    expect(stdout).to.match(/^Synthetic PASSED/);
+  });
+
+  it('runs a passing synthetic and prints its result as json', async () => {
+    const { exitCode, stdout } = await run(
+      multipleSynthetics,
+      '--target',
+      'SyntheticOk',
+      '--format',
+      'json'
+    );
+
+    expect(exitCode).to.equal(0);
+    const syntheticResult = JSON.parse(stdout);
+    expect(syntheticResult.synthetic_generic_result_v1.ok).to.be.true;
+  });
+
+  it('runs a failing synthetic and prints a summary', async () => {
+    const { exitCode, stdout } = await run(
+      multipleSynthetics,
+      '--target',
+      'SyntheticNotOk'
+    );
+
+    expect(exitCode).to.equal(1);
+    expect(stdout).to.match(/^Synthetic FAILED/);
+    expect(stdout).to.contain('Error: Did not pass');
+  });
+
+  it('prints results as junit xml', async () => {
+    const { exitCode, stdout } = await run(
+      multipleSynthetics,
+      '--target',
+      'SyntheticNotOk',
+      '--format',
+      'junit'
+    );
+
+    expect(exitCode).to.equal(1);
+    expect(stdout).to.match(/^<\?xml/);
+    expect(stdout).to.contain('<failure message="Did not pass" type="Error">');
+  });
+
+  it('runs a function registered with the functions framework', async () => {
+    const { exitCode } = await run(
+      multipleSynthetics,
+      '--target',
+      'SyntheticRegistered'
+    );
+    expect(exitCode).to.equal(0);
+  });
+
+  it('runs a synthetic against an emulated metadata server', async () => {
+    const { exitCode, stdout } = await run(
+      multipleSynthetics,
+      '--target',
+      'SyntheticOk',
+      '--format',
+      'json',
+      '--emulate-metadata-server',
+      '--region',
+      'europe-west1'
+    );
+
+    expect(exitCode).to.equal(0);
+    expect(JSON.parse(stdout).runtime_metadata.region).to.equal('europe-west1');
+    expect(process.env.GCE_METADATA_HOST).to.be.undefined;
+  });
+
+  it('requires the emulator when its region is provided', async () => {
+    const { exitCode, stderr } = await run(
+      singleSynthetic,
+      '--region',
+      'europe-west1'
+    );
+    expect(exitCode).to.equal(2);
+    expect(stderr).to.contain('require --emulate-metadata-server');
+  });
+
+  it('requires a target when a module exports multiple functions', async () => {
+    const { exitCode, stderr } = await run(multipleSynthetics);
+    expect(exitCode).to.equal(2);
+    expect(stderr).to.contain('SyntheticOk, SyntheticNotOk');
+  });
+
+  it('reports unknown targets', async () => {
+    const { exitCode, stderr } = await run(
+      multipleSynthetics,
+      '--target',
+      'Missing'
+    );
+    expect(exitCode).to.equal(2);
+    expect(stderr).to.contain("named 'Missing'");
+  });
+
+  it('reports functions that are not synthetics', async () => {
+    const { exitCode, stderr } = await run(
+      multipleSynthetics,
+      '--target',
+      'NotSynthetic'
+    );
+    expect(exitCode).to.equal(2);
+    expect(stderr).to.contain(
+      "Function 'NotSynthetic' of module '" +
+        multipleSynthetics +
+        "' was not created by the synthetics sdk"
+    );
+  });
+
+  it('reports invalid arguments along with its usage', async () => {
+    const { exitCode, stderr } = await run(singleSynthetic, '--format', 'xml');
+    expect(exitCode).to.equal(2);
+    expect(stderr).to.contain("Unknown format 'xml'");
+    expect(stderr).to.contain('Usage: synthetics');
+  });
+
+  it('prints its usage', async () => {
+    const { exitCode, stdout } = await run('--help');
+    expect(exitCode).to.equal(0);
+    expect(stdout).to.contain('Usage: synthetics');
+  });
+});
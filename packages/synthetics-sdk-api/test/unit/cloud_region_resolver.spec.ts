@@ -16,11 +16,13 @@ import axios from 'axios';
 import * as sinon from 'sinon';
 import { expect } from 'chai';
 import { getExecutionRegion } from '../../src/cloud_region_resolver';
+import { configureEnvironmentResolver } from '../../src/environment_resolver';
 
 describe('getExecutionRegion', () => {
   let axiosGetStub: sinon.SinonStub;
 
   beforeEach(() => {
+    configureEnvironmentResolver();
     axiosGetStub = sinon.stub(axios, 'get');
   });
 
@@ -0,0 +1,147 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { expect } from 'chai';
+import {
+  ConcurrencyPolicy,
+  withConcurrencyPolicy,
+} from '../../src/concurrency';
+import { InvokeFunction, SyntheticRequest } from '../../src/handler_adapters';
+import { SyntheticResult } from '../../src/generated/proto/synthetic_response';
+
+const requestFor = (checkId: string): SyntheticRequest => ({
+  headers: { 'check-id': checkId },
+  query: {},
+  body: undefined,
+});
+
+// Records when executions start and end, completing them once released.
+const createInvokeFunction = () => {
+  const events: string[] = [];
+  const releases: (() => void)[] = [];
+  const invoke: InvokeFunction = async (request) => {
+    const checkId = request.headers['check-id'];
+    events.push(`start ${checkId}`);
+    await new Promise<void>((resolve) => releases.push(resolve));
+    events.push(`end ${checkId}`);
+    return SyntheticResult.create({
+      synthetic_generic_result_v1: { ok: true },
+    });
+  };
+  const releaseNext = async () => {
+    await new Promise((resolve) => setImmediate(resolve));
+    releases.shift()?.();
+    await new Promise((resolve) => setImmediate(resolve));
+  };
+  return { invoke, events, releaseNext };
+};
+
+describe('withConcurrencyPolicy', () => {
+  it('runs overlapping executions alongside each other by default', async () => {
+    const { invoke, events, releaseNext } = createInvokeFunction();
+    const guarded = withConcurrencyPolicy(invoke);
+
+    const executions = [guarded(requestFor('a')), guarded(requestFor('a'))];
+    await releaseNext();
+    await releaseNext();
+    await Promise.all(executions);
+
+    expect(events).to.deep.equal(['start a', 'start a', 'end a', 'end a']);
+  });
+
+  it('queues overlapping executions of the same check', async () => {
+    const { invoke, events, releaseNext } = createInvokeFunction();
+    const guarded = withConcurrencyPolicy(invoke, 'queue');
+
+    const executions = [
+      guarded(requestFor('a')),
+      guarded(requestFor('a')),
+      guarded(requestFor('b')),
+    ];
+    await releaseNext();
+    await releaseNext();
+    await releaseNext();
+    await Promise.all(executions);
+
+    expect(events).to.deep.equal([
+      'start a',
+      'start b',
+      'end a',
+      'start a',
+      'end b',
+      'end a',
+    ]);
+  });
+
+  it('runs queued executions after one that rejected', async () => {
+    let calls = 0;
+    const guarded = withConcurrencyPolicy(async () => {
+      calls++;
+      if (calls === 1) {
+        throw new Error('failed');
+      }
+      return SyntheticResult.create();
+    }, 'queue');
+
+    const [first, second] = [
+      guarded(requestFor('a')),
+      guarded(requestFor('a')),
+    ];
+
+    await first.then(
+      () => expect.fail('should have rejected'),
+      (err) => expect(err.message).to.equal('failed')
+    );
+    expect(await second).to.deep.equal(SyntheticResult.create());
+    expect(calls).to.equal(2);
+  });
+
+  it('rejects overlapping executions of the same check', async () => {
+    const { invoke, events, releaseNext } = createInvokeFunction();
+    const guarded = withConcurrencyPolicy(invoke, 'reject');
+
+    const running = guarded(requestFor('a'));
+    const rejected = await guarded(requestFor('a'));
+    const other = guarded(requestFor('b'));
+    await releaseNext();
+    await releaseNext();
+    await Promise.all([running, other]);
+
+    expect(events).to.deep.equal(['start a', 'start b', 'end a', 'end b']);
+    const genericResult = rejected.synthetic_generic_result_v1;
+    expect(genericResult?.ok).to.be.false;
+    expect(genericResult?.generic_error?.error_type).to.equal(
+      'SyntheticConcurrencyError'
+    );
+    expect(genericResult?.generic_error?.error_message).to.equal(
+      'An execution of check a is already running on this instance'
+    );
+    expect(rejected.start_time).to.be.a('string');
+    expect(rejected.runtime_metadata).to.be.an('object');
+
+    // Once the running execution has completed, the check runs again.
+    const next = guarded(requestFor('a'));
+    await releaseNext();
+    expect((await next).synthetic_generic_result_v1?.ok).to.be.true;
+  });
+
+  it('throws on invalid policies', () => {
+    expect(() =>
+      withConcurrencyPolicy(
+        async () => SyntheticResult.create(),
+        'serial' as ConcurrencyPolicy
+      )
+    ).to.throw(TypeError, 'concurrency must be one of allow, queue, reject');
+  });
+});
@@ -0,0 +1,158 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import axios from 'axios';
+import { GoogleAuth } from 'google-auth-library';
+import * as sinon from 'sinon';
+import { expect } from 'chai';
+import {
+  configureEnvironmentResolver,
+  EnvironmentResolver,
+  getEnvironmentResolver,
+} from '../../src/environment_resolver';
+
+const metadata: { [path: string]: string } = {
+  'project/project-id': 'project-id',
+  'project/numeric-project-id': '123456789',
+  'instance/region': 'projects/123456789/regions/us-east1',
+  'instance/zone': 'projects/123456789/zones/us-east1-b',
+};
+
+// Fakes the metadata server, responding to the paths of `metadata`.
+const getMetadata = async (url: string) => {
+  const path = url.replace(/^.*\/computeMetadata\/v1\//, '');
+  if (!(path in metadata)) {
+    throw new Error('Request failed with status code 404');
+  }
+  return { data: metadata[path] };
+};
+
+describe('EnvironmentResolver', () => {
+  const env = process.env;
+  let axiosGetStub: sinon.SinonStub;
+  let getGoogleAuthProjectIdStub: sinon.SinonStub;
+
+  beforeEach(() => {
+    process.env = {};
+    getGoogleAuthProjectIdStub = sinon
+      .stub(GoogleAuth.prototype, 'getProjectId')
+      .rejects(new Error('Unable to detect a Project Id'));
+    axiosGetStub = sinon.stub(axios, 'get').callsFake(getMetadata);
+  });
+
+  afterEach(() => {
+    process.env = env;
+    sinon.restore();
+  });
+
+  it('resolves the environment from the metadata server', async () => {
+    const resolver = new EnvironmentResolver();
+
+    expect(await resolver.getProjectId()).to.equal('project-id');
+    expect(await resolver.getProjectNumber()).to.equal('123456789');
+    expect(await resolver.getRegion()).to.equal('us-east1');
+    expect(await resolver.getZone()).to.equal('us-east1-b');
+
+    sinon.assert.calledWith(
+      axiosGetStub,
+      'http://metadata.google.internal/computeMetadata/v1/instance/region',
+      { headers: { 'Metadata-Flavor': 'Google' }, timeout: 1000 }
+    );
+  });
+
+  it('caches what has been resolved', async () => {
+    const resolver = new EnvironmentResolver();
+
+    await Promise.all([resolver.getRegion(), resolver.getRegion()]);
+    expect(await resolver.getRegion()).to.equal('us-east1');
+    expect(axiosGetStub.calledOnce).to.be.true;
+  });
+
+  it('retries failures to resolve, without logging them', async () => {
+    const consoleError = sinon.stub(console, 'error');
+    axiosGetStub.rejects(new Error('timeout of 1000ms exceeded'));
+    const resolver = new EnvironmentResolver();
+
+    expect(await resolver.getProjectNumber()).to.be.null;
+    expect(await resolver.getRegion()).to.be.null;
+    sinon.assert.notCalled(consoleError);
+
+    axiosGetStub.callsFake(getMetadata);
+    expect(await resolver.getProjectNumber()).to.equal('123456789');
+    expect(await resolver.getRegion()).to.equal('us-east1');
+  });
+
+  it('resolves the project id with GoogleAuth before the metadata server', async () => {
+    getGoogleAuthProjectIdStub.resolves('google-auth-project-id');
+    const resolver = new EnvironmentResolver();
+
+    expect(await resolver.getProjectId()).to.equal('google-auth-project-id');
+    expect(axiosGetStub.notCalled).to.be.true;
+  });
+
+  it('derives the region from the zone', async () => {
+    delete metadata['instance/region'];
+    try {
+      expect(await new EnvironmentResolver().getRegion()).to.equal('us-east1');
+    } finally {
+      metadata['instance/region'] = 'projects/123456789/regions/us-east1';
+    }
+  });
+
+  it('honours environment variable overrides', async () => {
+    process.env = {
+      GOOGLE_CLOUD_PROJECT: 'override-project-id',
+      GOOGLE_CLOUD_PROJECT_NUMBER: '987654321',
+      GOOGLE_CLOUD_REGION: 'europe-west1',
+      GOOGLE_CLOUD_ZONE: 'europe-west1-c',
+    };
+    const resolver = new EnvironmentResolver();
+
+    expect(await resolver.getProjectId()).to.equal('override-project-id');
+    expect(await resolver.getProjectNumber()).to.equal('987654321');
+    expect(await resolver.getRegion()).to.equal('europe-west1');
+    expect(await resolver.getZone()).to.equal('europe-west1-c');
+    expect(axiosGetStub.notCalled).to.be.true;
+  });
+
+  it('uses the configured metadata server and timeout', async () => {
+    const resolver = new EnvironmentResolver({
+      metadataServerUrl: 'http://localhost:8080',
+      timeoutMillis: 200,
+    });
+
+    await resolver.getZone();
+    sinon.assert.calledWith(
+      axiosGetStub,
+      'http://localhost:8080/computeMetadata/v1/instance/zone',
+      { headers: { 'Metadata-Flavor': 'Google' }, timeout: 200 }
+    );
+  });
+
+  it('uses the metadata server of GCE_METADATA_HOST', async () => {
+    process.env = { GCE_METADATA_HOST: 'localhost:8080' };
+
+    await new EnvironmentResolver().getZone();
+    sinon.assert.calledWith(
+      axiosGetStub,
+      'http://localhost:8080/computeMetadata/v1/instance/zone'
+    );
+  });
+
+  it('replaces the shared resolver when configured', () => {
+    const resolver = configureEnvironmentResolver({ timeoutMillis: 200 });
+    expect(getEnvironmentResolver()).to.equal(resolver);
+    configureEnvironmentResolver();
+  });
+});
@@ -0,0 +1,146 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { expect } from 'chai';
+import { SpanStatusCode, Tracer } from '@opentelemetry/api';
+import {
+  AlwaysOffSampler,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import { runInExecutionSpan } from '../../src/execution_span';
+import { SyntheticResult } from '../../src/generated/proto/synthetic_response';
+
+describe('runInExecutionSpan', () => {
+  const exporter = new InMemorySpanExporter();
+  const provider = new NodeTracerProvider();
+  provider.addSpanProcessor(new SimpleSpanProcessor(exporter));
+  let tracer: Tracer;
+
+  before(() => {
+    // Registers a context manager, so that spans started by the synthetic are
+    // parented to the execution's span.
+    provider.register();
+    tracer = provider.getTracer('test');
+  });
+
+  afterEach(() => {
+    exporter.reset();
+  });
+
+  after(async () => {
+    await provider.shutdown();
+  });
+
+  it('wraps a passing execution in a span, and reports its ids', async () => {
+    const syntheticResult = await runInExecutionSpan(
+      { executionId: 'execution-id', checkId: 'check-id' },
+      async () => {
+        tracer.startSpan('GET').end();
+        return SyntheticResult.fromPartial({
+          synthetic_generic_result_v1: { ok: true },
+        });
+      },
+      tracer
+    );
+
+    const [childSpan, span] = exporter.getFinishedSpans();
+    expect(span.name).to.equal('synthetic_execution');
+    expect(span.attributes).to.deep.equal({
+      'synthetic.execution_id': 'execution-id',
+      'synthetic.check_id': 'check-id',
+      'synthetic.outcome': 'passed',
+    });
+    expect(span.status.code).to.equal(SpanStatusCode.UNSET);
+    expect(childSpan.parentSpanId).to.equal(span.spanContext().spanId);
+
+    expect(syntheticResult.trace_id).to.equal(span.spanContext().traceId);
+    expect(syntheticResult.span_id).to.equal(span.spanContext().spanId);
+  });
+
+  it('continues the trace context of the request headers', async () => {
+    await runInExecutionSpan(
+      {
+        headers: {
+          traceparent:
+            '00-12345678901234567890123456789012-1234567890123456-01',
+        },
+      },
+      async () =>
+        SyntheticResult.fromPartial({
+          synthetic_generic_result_v1: { ok: true },
+        }),
+      tracer
+    );
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.spanContext().traceId).to.equal(
+      '12345678901234567890123456789012'
+    );
+    expect(span.parentSpanId).to.equal('1234567890123456');
+  });
+
+  it('reports the outcome of a failing execution', async () => {
+    await runInExecutionSpan(
+      {},
+      async () =>
+        SyntheticResult.fromPartial({
+          synthetic_test_framework_result_v1: { failing_test_count: 1 },
+        }),
+      tracer
+    );
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.attributes).to.deep.equal({ 'synthetic.outcome': 'failed' });
+    expect(span.status.code).to.equal(SpanStatusCode.ERROR);
+  });
+
+  it('ends the span when the execution rejects', async () => {
+    let error: unknown;
+    try {
+      await runInExecutionSpan(
+        {},
+        async () => {
+          throw new Error('unexpected');
+        },
+        tracer
+      );
+    } catch (err: unknown) {
+      error = err;
+    }
+
+    expect(error).to.be.instanceOf(Error);
+    const [span] = exporter.getFinishedSpans();
+    expect(span.status.code).to.equal(SpanStatusCode.ERROR);
+    expect(span.events[0].name).to.equal('exception');
+  });
+
+  it('leaves the ids unset when the span is not recorded', async () => {
+    const unsampledProvider = new NodeTracerProvider({
+      sampler: new AlwaysOffSampler(),
+    });
+    const syntheticResult = await runInExecutionSpan(
+      {},
+      async () =>
+        SyntheticResult.fromPartial({
+          synthetic_generic_result_v1: { ok: true },
+        }),
+      unsampledProvider.getTracer('test')
+    );
+
+    expect(syntheticResult.trace_id).to.be.undefined;
+    expect(syntheticResult.span_id).to.be.undefined;
+  });
+});
@@ -0,0 +1,119 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { expect } from 'chai';
+import { serializeGenericError } from '../../src/generic_error';
+
+const withStack = <T extends Error>(err: T, location: string): T => {
+  err.stack = [
+    `${err.name}: ${err.message}`,
+    '    at internalFn (node:internal)',
+    `    at fn (${location})`,
+  ].join('\n');
+  return err;
+};
+
+// Error.cause and AggregateError are not a part of the compiled lib.
+const withCause = (err: Error, cause: unknown): Error =>
+  Object.assign(err, { cause });
+
+describe('serializeGenericError', () => {
+  it('returns undefined for values that are not errors', () => {
+    expect(serializeGenericError('a string')).to.be.undefined;
+    expect(serializeGenericError(undefined)).to.be.undefined;
+  });
+
+  it('serializes an error without causes', () => {
+    const err = withStack(new TypeError('bad type'), '/user/code/a.js:3:7');
+    const genericError = serializeGenericError(err);
+
+    expect(genericError?.error_type).to.equal('TypeError');
+    expect(genericError?.error_message).to.equal('bad type');
+    expect(genericError?.file_path).to.equal('/user/code/a.js');
+    expect(genericError?.line).to.equal(3);
+    expect(genericError?.stack_trace).to.equal(err.stack);
+    expect(genericError?.causes).to.deep.equal([]);
+  });
+
+  it('serializes a chain of Error.cause', () => {
+    const root = withStack(new Error('ECONNRESET'), '/user/code/root.js:1:1');
+    const middle = withStack(
+      withCause(new Error('request failed'), root),
+      '/user/code/middle.js:2:2'
+    );
+    const top = withStack(
+      withCause(new Error('login failed'), middle),
+      '/user/code/top.js:3:3'
+    );
+
+    const genericError = serializeGenericError(top);
+
+    expect(genericError?.error_message).to.equal('login failed');
+    expect(genericError?.causes).to.have.length(1);
+    expect(genericError?.causes[0].error_message).to.equal('request failed');
+    expect(genericError?.causes[0].file_path).to.equal('/user/code/middle.js');
+    expect(genericError?.causes[0].causes[0].error_message).to.equal('ECONNRESET');
+    expect(genericError?.causes[0].causes[0].file_path).to.equal('/user/code/root.js');
+    expect(genericError?.causes[0].causes[0].line).to.equal(1);
+  });
+
+  it('serializes the errors of an AggregateError', () => {
+    const aggregateError = new (global as any).AggregateError(
+      [
+        withStack(new Error('mirror 1 down'), '/user/code/m.js:1:1'),
+        withStack(new Error('mirror 2 down'), '/user/code/m.js:2:1'),
+      ],
+      'All promises were rejected'
+    );
+
+    const genericError = serializeGenericError(aggregateError);
+
+    expect(genericError?.error_type).to.equal('AggregateError');
+    expect(genericError?.causes.map((c) => c.error_message)).to.deep.equal([
+      'mirror 1 down',
+      'mirror 2 down',
+    ]);
+    expect(genericError?.causes.map((c) => c.line)).to.deep.equal([1, 2]);
+  });
+
+  it('serializes causes that are not errors', () => {
+    const err = withCause(new Error('failed'), { code: 'ECONNREFUSED' });
+    const genericError = serializeGenericError(err);
+
+    expect(genericError?.causes[0].error_type).to.equal('object');
+    expect(genericError?.causes[0].error_message).to.contain('ECONNREFUSED');
+  });
+
+  it('does not follow cyclic causes', () => {
+    const first = new Error('first');
+    const second = withCause(new Error('second'), first);
+    withCause(first, second);
+
+    const genericError = serializeGenericError(first);
+
+    expect(genericError?.causes).to.have.length(1);
+    expect(genericError?.causes[0].error_message).to.equal('second');
+    expect(genericError?.causes[0].causes).to.deep.equal([]);
+  });
+
+  it('serializes errors whose stack cannot be parsed', () => {
+    const err = new Error('no stack');
+    err.stack = undefined;
+
+    const genericError = serializeGenericError(err);
+
+    expect(genericError?.error_message).to.equal('no stack');
+    expect(genericError?.file_path).to.equal('');
+  });
+});
@@ -0,0 +1,323 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import axios from 'axios';
+import { expect } from 'chai';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { Response } from 'express';
+import { createRequest, createResponse } from 'node-mocks-http';
+import {
+  FetchRequest,
+  getRequestHeader,
+  InvokeFunction,
+  KoaContextLike,
+  SyntheticRequest,
+  toExpressHandler,
+  toFastifyHandler,
+  toFetchHandler,
+  toKoaMiddleware,
+  toNodeHandler,
+} from '../../src/handler_adapters';
+import { SyntheticResult } from '../../src/generated/proto/synthetic_response';
+import { decodeSyntheticResult } from '../../src/result_encoding';
+
+const syntheticResult = SyntheticResult.create({
+  synthetic_generic_result_v1: { ok: true },
+});
+
+// Records the requests that it is invoked with.
+const createInvokeFunction = () => {
+  const requests: SyntheticRequest[] = [];
+  const invoke: InvokeFunction = async (request) => {
+    requests.push(request);
+    return syntheticResult;
+  };
+  return { invoke, requests };
+};
+
+const expectedRequest = {
+  query: { environment: 'staging', tenant: ['acme', 'globex'] },
+  body: { target: 'https://example.com' },
+};
+
+describe('handler adapters', () => {
+  it('reads headers case insensitively', () => {
+    const request = {
+      headers: { 'check-id': ['first', 'second'] },
+      query: {},
+      body: undefined,
+    };
+    expect(getRequestHeader(request, 'Check-Id')).to.equal('first');
+    expect(getRequestHeader(request, 'Synthetic-Execution-Id')).to.be.undefined;
+  });
+
+  it('serves express requests', async () => {
+    const { invoke, requests } = createInvokeFunction();
+    let sent: unknown;
+
+    await toExpressHandler(invoke)(
+      createRequest({
+        method: 'POST',
+        headers: { 'Check-Id': 'check-id' },
+        query: expectedRequest.query,
+        body: expectedRequest.body,
+      }),
+      { send: (body: unknown) => (sent = body) } as unknown as Response
+    );
+
+    expect(getRequestHeader(requests[0], 'Check-Id')).to.equal('check-id');
+    expect(requests[0]).to.deep.include(expectedRequest);
+    expect(sent).to.equal(syntheticResult);
+  });
+
+  it('serves fetch requests', async () => {
+    const { invoke, requests } = createInvokeFunction();
+    const FetchRequestConstructor = (
+      global as unknown as {
+        Request: new (url: string, init: object) => FetchRequest;
+      }
+    ).Request;
+
+    const response = await toFetchHandler(invoke)(
+      new FetchRequestConstructor(
+        'http://localhost/?environment=staging&tenant=acme&tenant=globex',
+        {
+          method: 'POST',
+          headers: { 'Check-Id': 'check-id' },
+          body: JSON.stringify(expectedRequest.body),
+        }
+      )
+    );
+
+    expect(getRequestHeader(requests[0], 'Check-Id')).to.equal('check-id');
+    expect(requests[0]).to.deep.include(expectedRequest);
+    expect(response.status).to.equal(200);
+    expect(response.headers.get('Content-Type')).to.equal('application/json');
+    expect(await response.json()).to.deep.equal(
+      JSON.parse(JSON.stringify(syntheticResult))
+    );
+  });
+
+  it('serves node http requests', async () => {
+    const { invoke, requests } = createInvokeFunction();
+    const server = http.createServer(toNodeHandler(invoke));
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve)
+    );
+
+    try {
+      const { port } = server.address() as AddressInfo;
+      const response = await axios.post(
+        `http://127.0.0.1:${port}/?environment=staging&tenant=acme&tenant=globex`,
+        JSON.stringify(expectedRequest.body),
+        { headers: { 'Check-Id': 'check-id', 'Content-Type': 'text/plain' } }
+      );
+
+      expect(getRequestHeader(requests[0], 'Check-Id')).to.equal('check-id');
+      expect(requests[0]).to.deep.include(expectedRequest);
+      expect(response.data).to.deep.equal(
+        JSON.parse(JSON.stringify(syntheticResult))
+      );
+    } finally {
+      server.close();
+    }
+  });
+
+  it('serves fastify requests', async () => {
+    const { invoke, requests } = createInvokeFunction();
+    let sent: unknown;
+    const reply = {
+      code: () => reply,
+      header: () => reply,
+      send: (payload: unknown) => (sent = payload),
+    };
+
+    const returned = await toFastifyHandler(invoke)(
+      {
+        headers: { 'check-id': 'check-id' },
+        query: expectedRequest.query,
+        body: expectedRequest.body,
+      },
+      reply
+    );
+
+    expect(requests[0]).to.deep.include(expectedRequest);
+    expect(sent).to.equal(syntheticResult);
+    expect(returned).to.equal(reply);
+  });
+
+  it('serves koa requests', async () => {
+    const { invoke, requests } = createInvokeFunction();
+    const ctx: KoaContextLike = {
+      request: {
+        headers: { 'check-id': 'check-id' },
+        query: expectedRequest.query,
+        body: expectedRequest.body,
+      },
+    };
+
+    await toKoaMiddleware(invoke)(ctx);
+
+    expect(requests[0]).to.deep.include(expectedRequest);
+    expect(ctx.body).to.equal(syntheticResult);
+  });
+
+  it('serves protobuf to callers that accept it', async () => {
+    const { invoke } = createInvokeFunction();
+    const accept = 'application/x-protobuf';
+
+    const expressResponse = createResponse();
+    await toExpressHandler(invoke)(
+      createRequest({ headers: { Accept: accept } }),
+      expressResponse
+    );
+    expect(expressResponse.getHeader('Content-Type')).to.equal(accept);
+    expect(
+      decodeSyntheticResult(expressResponse._getData(), accept)
+    ).to.deep.equal(syntheticResult);
+
+    const FetchRequestConstructor = (
+      global as unknown as {
+        Request: new (url: string, init: object) => FetchRequest;
+      }
+    ).Request;
+    const fetchResponse = await toFetchHandler(invoke)(
+      new FetchRequestConstructor('http://localhost/', {
+        headers: { Accept: accept },
+      })
+    );
+    expect(fetchResponse.headers.get('Content-Type')).to.equal(accept);
+    expect(
+      decodeSyntheticResult(
+        new Uint8Array(await fetchResponse.arrayBuffer()),
+        accept
+      )
+    ).to.deep.equal(syntheticResult);
+
+    const server = http.createServer(toNodeHandler(invoke));
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve)
+    );
+    try {
+      const { port } = server.address() as AddressInfo;
+      const nodeResponse = await axios.get(`http://127.0.0.1:${port}/`, {
+        headers: { Accept: accept },
+        responseType: 'arraybuffer',
+      });
+      expect(nodeResponse.headers['content-type']).to.equal(accept);
+      expect(
+        decodeSyntheticResult(new Uint8Array(nodeResponse.data), accept)
+      ).to.deep.equal(syntheticResult);
+    } finally {
+      server.close();
+    }
+
+    const replyHeaders: { [name: string]: string } = {};
+    let sent: unknown;
+    const reply = {
+      code: () => reply,
+      header: (name: string, value: string) => (replyHeaders[name] = value),
+      send: (payload: unknown) => (sent = payload),
+    };
+    await toFastifyHandler(invoke)({ headers: { accept }, query: {} }, reply);
+    expect(replyHeaders['Content-Type']).to.equal(accept);
+    expect(decodeSyntheticResult(sent as Buffer, accept)).to.deep.equal(
+      syntheticResult
+    );
+
+    const ctx: KoaContextLike = {
+      request: { headers: { accept }, query: {} },
+    };
+    await toKoaMiddleware(invoke)(ctx);
+    expect(ctx.type).to.equal(accept);
+    expect(decodeSyntheticResult(ctx.body as Buffer, accept)).to.deep.equal(
+      syntheticResult
+    );
+  });
+
+  it('serves json to callers that prefer it', async () => {
+    const { invoke } = createInvokeFunction();
+
+    const response = createResponse();
+    await toExpressHandler(invoke)(
+      createRequest({
+        headers: { Accept: 'application/json, application/x-protobuf;q=0.5' },
+      }),
+      response
+    );
+    expect(response._getData()).to.equal(syntheticResult);
+  });
+
+  it('serves a failed result with a 500 status when invoke rejects', async () => {
+    const invoke: InvokeFunction = async () => {
+      throw new Error('Unable to collect the result');
+    };
+    const expectFailedResult = (result: unknown) =>
+      expect(
+        SyntheticResult.fromJSON(JSON.parse(JSON.stringify(result)))
+          .synthetic_generic_result_v1?.generic_error
+      ).to.deep.include({
+        error_type: 'Error',
+        error_message: 'Unable to collect the result',
+      });
+
+    const expressResponse = createResponse();
+    await toExpressHandler(invoke)(createRequest(), expressResponse);
+    expect(expressResponse.statusCode).to.equal(500);
+    expectFailedResult(expressResponse._getData());
+
+    const FetchRequestConstructor = (
+      global as unknown as {
+        Request: new (url: string, init: object) => FetchRequest;
+      }
+    ).Request;
+    const fetchResponse = await toFetchHandler(invoke)(
+      new FetchRequestConstructor('http://localhost/', {})
+    );
+    expect(fetchResponse.status).to.equal(500);
+    expectFailedResult(await fetchResponse.json());
+
+    const server = http.createServer(toNodeHandler(invoke));
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve)
+    );
+    try {
+      const { port } = server.address() as AddressInfo;
+      const nodeResponse = await axios.get(`http://127.0.0.1:${port}/`, {
+        validateStatus: () => true,
+      });
+      expect(nodeResponse.status).to.equal(500);
+      expectFailedResult(nodeResponse.data);
+    } finally {
+      server.close();
+    }
+
+    let replyCode: unknown;
+    let sent: unknown;
+    const reply = {
+      code: (statusCode: number) => (replyCode = statusCode),
+      header: () => reply,
+      send: (payload: unknown) => (sent = payload),
+    };
+    await toFastifyHandler(invoke)({ headers: {}, query: {} }, reply);
+    expect(replyCode).to.equal(500);
+    expectFailedResult(sent);
+
+    const ctx: KoaContextLike = { request: { headers: {}, query: {} } };
+    await toKoaMiddleware(invoke)(ctx);
+    expect(ctx.status).to.equal(500);
+    expectFailedResult(ctx.body);
+  });
+});
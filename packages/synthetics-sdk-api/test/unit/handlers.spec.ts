@@ -12,12 +12,30 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-import { SyntheticResult, runSyntheticHandler } from '../../src/index';
+import {
+  configureSecretResolvers,
+  createSyntheticInvokeFunction,
+  getSecret,
+  SyntheticResult,
+  runSyntheticHandler,
+} from '../../src/index';
 import { AssertionError, expect } from 'chai';
 import { Request, Response } from 'express';
 import { createRequest } from 'node-mocks-http';
 import { firstUserErrorStackFrame } from '../../src/handlers';
 import ErrorStackParser = require('error-stack-parser');
+import * as sinon from 'sinon';
+import * as winston from 'winston';
+import * as autoInstrumentation from '../../src/auto_instrumentation';
+
+// Runs a handler for a request, resolving with the result that it sends.
+const invokeHandler = (
+  handler: (req: Request, res: Response) => unknown,
+  request: Request = createRequest({})
+) =>
+  new Promise<SyntheticResult>((resolve) => {
+    handler(request, { send: resolve } as unknown as Response);
+  });
 
 describe('GCM Synthetics Handler', async () => {
   it('runs a passing synthetic function', async () => {
@@ -123,6 +141,282 @@ describe('GCM Synthetics Handler', async () => {
     expect(syntheticResult?.synthetic_generic_result_v1?.generic_error?.stack_trace).to.equal((e as Error).stack);
   });
 
+  it('reports the steps that were ran', async () => {
+    const handler = runSyntheticHandler(async ({ step }) => {
+      await step('login', () => true);
+      await step('checkout', () => {
+        throw new Error('Cart is empty');
+      });
+    });
+
+    const syntheticResult = await invokeHandler(handler);
+    const genericResult = syntheticResult?.synthetic_generic_result_v1;
+
+    expect(genericResult?.ok).to.be.false;
+    expect(genericResult?.generic_error?.error_message).to.equal('Cart is empty');
+    expect(genericResult?.steps.map((s) => s.name)).to.deep.equal(['login', 'checkout']);
+    expect(genericResult?.steps[0].ok).to.be.true;
+    expect(genericResult?.steps[1].ok).to.be.false;
+    expect(genericResult?.steps[1].step_error?.error_message).to.equal('Cart is empty');
+  });
+
+  it('reports the metrics that were recorded', async () => {
+    const handler = runSyntheticHandler(({ recordMetric }) => {
+      recordMetric('search_result_count', 12, { tenant: 'acme' });
+    });
+
+    const syntheticResult = await invokeHandler(handler);
+
+    expect(syntheticResult?.synthetic_generic_result_v1?.ok).to.be.true;
+    expect(syntheticResult?.metrics).to.have.length(1);
+    expect(syntheticResult?.metrics[0].name).to.equal('search_result_count');
+    expect(syntheticResult?.metrics[0].int64_value).to.equal(12);
+    expect(syntheticResult?.metrics[0].labels).to.deep.equal({ tenant: 'acme' });
+  });
+
+  it('reports the warnings that were raised without failing', async () => {
+    const handler = runSyntheticHandler(({ warn }) => {
+      warn('SlowResponse', 'The home page took 4200 ms');
+    }, { captureLogs: true });
+
+    const syntheticResult = await invokeHandler(handler);
+    const genericResult = syntheticResult?.synthetic_generic_result_v1;
+
+    expect(genericResult?.ok).to.be.true;
+    expect(genericResult?.warnings).to.have.length(1);
+    expect(genericResult?.warnings[0].warning_type).to.equal('SlowResponse');
+    expect(genericResult?.warnings[0].warning_message).to.equal('The home page took 4200 ms');
+    expect(genericResult?.logs.map((log) => [log.level, log.message])).to.deep.equal([
+      ['warn', 'Warning SlowResponse: The home page took 4200 ms'],
+    ]);
+  });
+
+  it('reports the logs that were captured', async () => {
+    const handler = runSyntheticHandler(({ logger }) => {
+      logger.info('Loading the home page');
+      logger.warn('The home page is slow');
+      throw new Error('The home page failed to load');
+    }, { captureLogs: { level: 'warn' } });
+
+    const syntheticResult = await invokeHandler(handler);
+    const genericResult = syntheticResult?.synthetic_generic_result_v1;
+
+    expect(genericResult?.ok).to.be.false;
+    expect(genericResult?.logs).to.have.length(1);
+    expect(genericResult?.logs[0].level).to.equal('warn');
+    expect(genericResult?.logs[0].message).to.equal('The home page is slow');
+    expect(genericResult?.dropped_log_count).to.equal(0);
+  });
+
+  it('captures only the logs of its own execution', async () => {
+    // Instrumented loggers are shared by every execution on an instance.
+    const logger = winston.createLogger({
+      transports: [new winston.transports.Console({ silent: true })],
+    });
+    const getInstrumentedLogger = sinon
+      .stub(autoInstrumentation, 'getInstrumentedLogger')
+      .resolves(logger);
+    try {
+      let resumeFirst = () => {};
+      const firstResumed = new Promise<void>((resolve) => (resumeFirst = resolve));
+      const invoke = createSyntheticInvokeFunction(async ({ logger, checkId }) => {
+        logger.info(`${checkId} started`);
+        if (checkId === 'first') {
+          await firstResumed;
+        }
+        logger.info(`${checkId} finished`);
+      }, { captureLogs: true });
+
+      const first = invoke({ headers: { 'check-id': 'first' }, query: {}, body: undefined });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      const second = await invoke({ headers: { 'check-id': 'second' }, query: {}, body: undefined });
+      resumeFirst();
+
+      expect(second?.synthetic_generic_result_v1?.logs.map((log) => log.message)).to.deep.equal([
+        'second started',
+        'second finished',
+      ]);
+      expect((await first)?.synthetic_generic_result_v1?.logs.map((log) => log.message)).to.deep.equal([
+        'first started',
+        'first finished',
+      ]);
+    } finally {
+      getInstrumentedLogger.restore();
+    }
+  });
+
+  it('rejects invalid log capture options', () => {
+    expect(() => runSyntheticHandler(() => true, { captureLogs: { maxEntries: 0 } })).to.throw(
+      TypeError, 'maxEntries must be an integer of at least 1');
+  });
+
+  it('reports the artifacts that were attached', async () => {
+    const saved: string[] = [];
+    const artifactStorage = {
+      save: async (objectName: string) => {
+        saved.push(objectName);
+        return `memory://${objectName}`;
+      },
+    };
+    const handler = runSyntheticHandler(async ({ attach }) => {
+      await attach('page.html', '<html></html>', 'text/html');
+    }, { artifactStorage });
+
+    const syntheticResult = await invokeHandler(handler, createRequest({
+        headers: {"Synthetic-Execution-Id": 'execution-id'}
+      }));
+
+    expect(syntheticResult?.synthetic_generic_result_v1?.ok).to.be.true;
+    expect(saved).to.deep.equal(['execution-id/attempt_1/page.html']);
+    expect(syntheticResult?.attachments).to.have.length(1);
+    expect(syntheticResult?.attachments[0].uri).to.equal('memory://execution-id/attempt_1/page.html');
+    expect(syntheticResult?.attachments[0].content_type).to.equal('text/html');
+    expect(syntheticResult?.attachments[0].size_bytes).to.equal(13);
+  });
+
+  it('stores the artifacts of invalid execution ids in a random directory', async () => {
+    const saved: string[] = [];
+    const artifactStorage = {
+      save: async (objectName: string) => {
+        saved.push(objectName);
+        return `memory://${objectName}`;
+      },
+    };
+    const invoke = createSyntheticInvokeFunction(async ({ attach }) => {
+      await attach('page.html', '<html></html>', 'text/html');
+    }, { artifactStorage });
+
+    await invoke({
+      headers: { 'synthetic-execution-id': '../../../tmp/x' },
+      query: {},
+      body: undefined,
+    });
+
+    expect(saved).to.have.length(1);
+    expect(saved[0]).to.not.include('..');
+    expect(saved[0]).to.match(/^[0-9a-f-]{36}\/attempt_1\/page\.html$/);
+  });
+
+  it('stores the artifacts of each attempt apart', async () => {
+    const saved: string[] = [];
+    const artifactStorage = {
+      save: async (objectName: string) => {
+        saved.push(objectName);
+        return `memory://${objectName}`;
+      },
+    };
+    const invoke = createSyntheticInvokeFunction(async ({ attach, attemptNumber }) => {
+      await attach('page.html', '<html></html>', 'text/html');
+      if (attemptNumber === 1) {
+        throw new Error('Failed to load the page');
+      }
+    }, { artifactStorage, retries: { maxRetries: 1, backoffMillis: 0 } });
+
+    const syntheticResult = await invoke({
+      headers: { 'synthetic-execution-id': 'execution-id' },
+      query: {},
+      body: undefined,
+    });
+
+    expect(saved).to.deep.equal([
+      'execution-id/attempt_1/page.html',
+      'execution-id/attempt_2/page.html',
+    ]);
+    expect(syntheticResult.attachments.map((attachment) => attachment.uri)).to.deep.equal([
+      'memory://execution-id/attempt_2/page.html',
+    ]);
+  });
+
+  it('serves partial results when the execution deadline is exceeded', async () => {
+    let signal: AbortSignal | undefined;
+    const handler = runSyntheticHandler(async (args) => {
+      signal = args.signal;
+      args.recordMetric('before_hang', 1);
+      await args.step('login', () => true);
+      await args.step('hangs', () => new Promise(() => {}));
+    }, { timeoutMillis: 50 });
+
+    const syntheticResult = await invokeHandler(handler);
+    const genericResult = syntheticResult?.synthetic_generic_result_v1;
+
+    expect(signal?.aborted).to.be.true;
+    expect(genericResult?.ok).to.be.false;
+    expect(genericResult?.generic_error?.error_type).to.equal('SyntheticTimeoutError');
+    expect(genericResult?.generic_error?.error_message).to.contain('50 milliseconds');
+    expect(genericResult?.steps.map((s) => [s.name, s.ok])).to.deep.equal([
+      ['login', true],
+      ['hangs', false],
+    ]);
+    expect(genericResult?.steps[1].step_error?.error_type).to.equal('SyntheticTimeoutError');
+    expect(syntheticResult?.metrics.map((m) => m.name)).to.deep.equal(['before_hang']);
+  });
+
+  it('does not report writes that are made after the execution deadline', async () => {
+    let wroteAfterDeadline = () => {};
+    const afterDeadline = new Promise<void>((resolve) => (wroteAfterDeadline = resolve));
+    const invoke = createSyntheticInvokeFunction(async ({ step, recordMetric, warn }) => {
+      await step('outlives the deadline', () => new Promise((resolve) => setTimeout(resolve, 100)));
+      recordMetric('after_deadline', 1);
+      warn('AfterDeadline', 'written after the deadline');
+      await step('after the deadline', () => true);
+      wroteAfterDeadline();
+    }, { timeoutMillis: 50 });
+
+    const syntheticResult = await invoke({ headers: {}, query: {}, body: undefined });
+    await afterDeadline;
+    const genericResult = syntheticResult?.synthetic_generic_result_v1;
+
+    expect(genericResult?.generic_error?.error_type).to.equal('SyntheticTimeoutError');
+    expect(genericResult?.steps.map((s) => [s.name, s.ok])).to.deep.equal([
+      ['outlives the deadline', false],
+    ]);
+    expect(genericResult?.steps[0].step_error?.error_type).to.equal('SyntheticTimeoutError');
+    expect(genericResult?.attempts.map((a) => a.ok)).to.deep.equal([false]);
+    expect(genericResult?.warnings).to.be.empty;
+    expect(syntheticResult?.metrics).to.be.empty;
+  });
+
+  it('rejects an invalid execution deadline', () => {
+    expect(() => runSyntheticHandler(() => true, { timeoutMillis: 0 })).to.throw(TypeError);
+    expect(() => runSyntheticHandler(() => true, { timeoutMillis: NaN })).to.throw(TypeError);
+  });
+
+  it('rejects an invalid trace flush timeout', () => {
+    expect(() => runSyntheticHandler(() => true, { traceFlushTimeoutMillis: -1 })).to.throw(
+      TypeError, 'traceFlushTimeoutMillis must be a number greater than 0');
+  });
+
+  it('rejects an invalid concurrency policy', () => {
+    expect(() => runSyntheticHandler(() => true, { concurrency: 'serial' as any })).to.throw(
+      TypeError, 'concurrency must be one of allow, queue, reject');
+  });
+
+  it('rejects invalid result size options', () => {
+    expect(() => runSyntheticHandler(() => true, { resultSize: { maxBytes: 0 } })).to.throw(
+      TypeError, 'maxBytes must be an integer greater than 0');
+  });
+
+  it('retries a failing synthetic function and reports every attempt', async () => {
+    const handler = runSyntheticHandler(async ({ attemptNumber, step, recordMetric }) => {
+      recordMetric('attempt', attemptNumber);
+      await step(`attempt ${attemptNumber}`, () => {
+        if (attemptNumber === 1) {
+          throw new Error('Transient network blip');
+        }
+      });
+    }, { retries: { maxRetries: 2 } });
+
+    const syntheticResult = await invokeHandler(handler);
+    const genericResult = syntheticResult?.synthetic_generic_result_v1;
+
+    expect(genericResult?.ok).to.be.true;
+    expect(genericResult?.generic_error).to.be.undefined;
+    expect(genericResult?.attempts.map((a) => a.ok)).to.deep.equal([false, true]);
+    expect(genericResult?.attempts[0].attempt_error?.error_message).to.equal('Transient network blip');
+    expect(genericResult?.steps.map((s) => s.name)).to.deep.equal(['attempt 2']);
+    expect(syntheticResult?.metrics.map((m) => m.int64_value)).to.deep.equal([2]);
+  });
+
   describe('firstUserErrorStackFrame', () => {
     it('returns the first user location in a stack frame', () => {
       const err = new Error();
@@ -183,4 +477,95 @@ describe('GCM Synthetics Handler', async () => {
     expect(syntheticResult?.synthetic_generic_result_v1?.ok).to.be.true;
     expect(syntheticResult?.synthetic_generic_result_v1?.generic_error).to.be.undefined;
   });
+
+  it('has the check id, query parameters and body of the request', async () => {
+    const handler = runSyntheticHandler(({ checkId, query, body }) => {
+      expect(checkId).to.equal('check-id');
+      expect(query).to.deep.equal({ environment: 'staging' });
+      expect(body).to.deep.equal({ tenant: 'acme' });
+    });
+
+    const syntheticResult = await invokeHandler(handler, createRequest({
+        method: 'POST',
+        headers: { 'Check-Id': 'check-id' },
+        query: { environment: 'staging' },
+        body: { tenant: 'acme' },
+      }));
+    expect(syntheticResult?.synthetic_generic_result_v1?.generic_error).to.be.undefined;
+    expect(syntheticResult?.synthetic_generic_result_v1?.ok).to.be.true;
+  });
+
+  it('parses request bodies that hold json', async () => {
+    const bodies: unknown[] = [];
+    const handler = runSyntheticHandler(({ body }) => {
+      bodies.push(body);
+    });
+
+    for (const body of [Buffer.from('{"tenant":"acme"}'), 'not json']) {
+      await invokeHandler(handler, createRequest({ method: 'POST', body: body as any }));
+    }
+
+    expect(bodies).to.deep.equal([{ tenant: 'acme' }, 'not json']);
+  });
+
+  it('runs synthetic code for requests independent of express', async () => {
+    const invoke = createSyntheticInvokeFunction(({ executionId, query }) => {
+      expect(executionId).to.equal('execution-id');
+      expect(query).to.deep.equal({ environment: 'staging' });
+    });
+
+    const syntheticResult = await invoke({
+      headers: { 'synthetic-execution-id': 'execution-id' },
+      query: { environment: 'staging' },
+      body: undefined,
+    });
+    expect(syntheticResult?.synthetic_generic_result_v1?.generic_error).to.be.undefined;
+    expect(syntheticResult?.synthetic_generic_result_v1?.ok).to.be.true;
+  });
+
+  it('rejects executions that overlap with a running execution of the check', async () => {
+    let finish = () => {};
+    const finished = new Promise<void>((resolve) => (finish = resolve));
+    const invoke = createSyntheticInvokeFunction(() => finished, { concurrency: 'reject' });
+    const request = { headers: { 'check-id': 'check-id' }, query: {}, body: undefined };
+
+    const running = invoke(request);
+    const rejected = await invoke(request);
+    finish();
+
+    expect(rejected?.synthetic_generic_result_v1?.ok).to.be.false;
+    expect(rejected?.synthetic_generic_result_v1?.generic_error?.error_type).to.equal(
+      'SyntheticConcurrencyError');
+    expect((await running)?.synthetic_generic_result_v1?.ok).to.be.true;
+  });
+
+  it('redacts the values of secrets from the result', async () => {
+    configureSecretResolvers([{ resolve: async () => 'handler-secret-value' }]);
+    try {
+      const invoke = createSyntheticInvokeFunction(async () => {
+        const apiKey = await getSecret('API_KEY');
+        throw new Error(`Request with ${apiKey} was unauthorized`);
+      });
+
+      const syntheticResult = await invoke({ headers: {}, query: {}, body: undefined });
+      const genericError = syntheticResult?.synthetic_generic_result_v1?.generic_error;
+      expect(genericError?.error_message).to.equal('Request with [REDACTED] was unauthorized');
+      expect(genericError?.stack_trace).to.not.include('handler-secret-value');
+    } finally {
+      configureSecretResolvers();
+    }
+  });
+
+  it('truncates results that exceed their size budget', async () => {
+    const invoke = createSyntheticInvokeFunction(() => {
+      throw new Error('x'.repeat(10000));
+    }, { resultSize: { maxBytes: 4000, maxStackTraceLength: 500, maxErrorMessageLength: 100 } });
+
+    const syntheticResult = await invoke({ headers: {}, query: {}, body: undefined });
+    const genericError = syntheticResult?.synthetic_generic_result_v1?.generic_error;
+    expect(genericError?.error_message).to.equal(`${'x'.repeat(100)}... [truncated]`);
+    expect(syntheticResult.truncations.map((truncation) => truncation.field_path)).to.include(
+      'synthetic_generic_result_v1.generic_error.error_message');
+    expect(Buffer.byteLength(JSON.stringify(syntheticResult))).to.be.at.most(4000);
+  });
 });
@@ -0,0 +1,116 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { expect } from 'chai';
+import {
+  LogCapture,
+  LogCaptureOptions,
+  validateLogCaptureOptions,
+} from '../../src/log_capture';
+
+const captureLogs = (
+  options: LogCaptureOptions,
+  records: [level: string, message: unknown][]
+) => {
+  const logCapture = new LogCapture(options);
+  for (const [level, message] of records) {
+    logCapture.capture(level, message);
+  }
+  return logCapture;
+};
+
+describe('LogCapture', () => {
+  it('captures records of every level by default', () => {
+    const logCapture = captureLogs({}, [
+      ['debug', 'Resolving the home page'],
+      ['info', 'Loading the home page'],
+      ['error', 'The home page failed to load'],
+    ]);
+
+    expect(
+      logCapture.entries.map(({ level, message }) => ({ level, message }))
+    ).to.deep.equal([
+      { level: 'debug', message: 'Resolving the home page' },
+      { level: 'info', message: 'Loading the home page' },
+      { level: 'error', message: 'The home page failed to load' },
+    ]);
+    expect(new Date(logCapture.entries[0].log_time).getTime()).to.not.be.NaN;
+    expect(logCapture.droppedCount).to.equal(0);
+  });
+
+  it('captures records that are at least as severe as its level', () => {
+    const logCapture = captureLogs({ level: 'warn' }, [
+      ['info', 'not captured'],
+      ['warn', 'The home page is slow'],
+      ['fatal', 'The home page is down'],
+    ]);
+
+    expect(logCapture.entries.map(({ message }) => message)).to.deep.equal([
+      'The home page is slow',
+      'The home page is down',
+    ]);
+  });
+
+  it('keeps the most recent records, counting those that were dropped', () => {
+    const logCapture = captureLogs({ maxEntries: 2 }, [
+      ['info', 'first'],
+      ['info', 'second'],
+      ['info', 'third'],
+    ]);
+
+    expect(logCapture.entries.map(({ message }) => message)).to.deep.equal([
+      'second',
+      'third',
+    ]);
+    expect(logCapture.droppedCount).to.equal(1);
+  });
+
+  it('formats and truncates messages', () => {
+    const logCapture = captureLogs({ maxMessageLength: 5 }, [
+      ['info', 'Loading the home page'],
+      ['info', { status: 500 }],
+    ]);
+
+    expect(logCapture.entries.map(({ message }) => message)).to.deep.equal([
+      'Loadi…',
+      '{ sta…',
+    ]);
+  });
+});
+
+describe('validateLogCaptureOptions', () => {
+  it('accepts valid options', () => {
+    validateLogCaptureOptions({});
+    validateLogCaptureOptions({
+      level: 'warn',
+      maxEntries: 10,
+      maxMessageLength: 200,
+    });
+  });
+
+  it('throws on invalid options', () => {
+    expect(() => validateLogCaptureOptions({ maxEntries: 0 })).to.throw(
+      TypeError
+    );
+    expect(() => validateLogCaptureOptions({ maxEntries: 1.5 })).to.throw(
+      TypeError
+    );
+    expect(() => validateLogCaptureOptions({ maxMessageLength: -1 })).to.throw(
+      TypeError
+    );
+    expect(() =>
+      validateLogCaptureOptions({ level: 1 as unknown as string })
+    ).to.throw(TypeError);
+  });
+});
@@ -0,0 +1,191 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { expect } from 'chai';
+import * as winston from 'winston';
+import { Span, TraceFlags } from '@opentelemetry/api';
+import {
+  createLoggerAdapter,
+  LoggerAdapter,
+  LoggerAdapterName,
+  Pino,
+  PinoLogger,
+  PinoLoggerAdapter,
+  PinoOptions,
+  WinstonLoggerAdapter,
+} from '../../src/logger_adapters';
+
+const span = {
+  spanContext: () => ({
+    traceId: '12345678901234567890123456789012',
+    spanId: '1234567890123456',
+    traceFlags: TraceFlags.SAMPLED,
+  }),
+} as Span;
+
+const otelRecord = () => ({
+  message: 'Loading the home page',
+  trace_id: '12345678901234567890123456789012',
+  span_id: '1234567890123456',
+  trace_flags: '01',
+});
+
+const structuredLoggingFields = {
+  'logging.googleapis.com/trace':
+    'projects/project-id/traces/12345678901234567890123456789012',
+  'logging.googleapis.com/spanId': '1234567890123456',
+  'logging.googleapis.com/trace_sampled': true,
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type LogHook = (...args: any[]) => void;
+const getLogHook = (adapter: LoggerAdapter, gcpProjectId: string | null) =>
+  (
+    Object.values(adapter.instrumentationConfig(() => gcpProjectId))[0] as {
+      logHook: LogHook;
+    }
+  ).logHook;
+
+describe('createLoggerAdapter', () => {
+  it('creates the winston adapter by default', () => {
+    expect(createLoggerAdapter()).to.be.instanceOf(WinstonLoggerAdapter);
+    expect(createLoggerAdapter('pino')).to.be.instanceOf(PinoLoggerAdapter);
+  });
+
+  it('returns adapter instances as is', () => {
+    const adapter = new PinoLoggerAdapter();
+    expect(createLoggerAdapter(adapter)).to.equal(adapter);
+  });
+
+  it('throws on unknown adapters', () => {
+    expect(() =>
+      createLoggerAdapter('bunyan' as unknown as LoggerAdapterName)
+    ).to.throw(TypeError, "Unknown logger adapter 'bunyan'");
+  });
+});
+
+describe('WinstonLoggerAdapter', () => {
+  it('rewrites records into structured logging once a project id is known', () => {
+    const adapter = new WinstonLoggerAdapter();
+
+    const record = { ...otelRecord(), level: 'warn' };
+    getLogHook(adapter, 'project-id')(span, record);
+    expect(record).to.deep.equal({
+      message: 'Loading the home page',
+      ...structuredLoggingFields,
+      severity: 'WARNING',
+    });
+
+    const unchangedRecord = { ...otelRecord(), level: 'warn' };
+    getLogHook(adapter, null)(span, unchangedRecord);
+    expect(unchangedRecord).to.deep.equal({ ...otelRecord(), level: 'warn' });
+  });
+
+  it('provides records to log sinks until they are removed', () => {
+    const adapter = new WinstonLoggerAdapter();
+    const logger = winston.createLogger({ level: 'debug' });
+    const records: [string, unknown][] = [];
+
+    const removeLogSink = adapter.addLogSink(logger, (level, message) =>
+      records.push([level, message])
+    );
+    logger.debug('Resolving the home page');
+    logger.error('The home page failed to load');
+    removeLogSink();
+    logger.info('not captured');
+
+    expect(records).to.deep.equal([
+      ['debug', 'Resolving the home page'],
+      ['error', 'The home page failed to load'],
+    ]);
+  });
+});
+
+describe('PinoLoggerAdapter', () => {
+  // Loads a fake of pino, whose loggers call the log method hook for info and
+  // warn records, writing their arguments to `written`.
+  const loadFakePino = (written: unknown[][]) => {
+    const pino = (options: PinoOptions) => {
+      const log =
+        (level: number) =>
+        (...args: unknown[]) =>
+          options.hooks.logMethod.call(
+            logger,
+            args,
+            (...methodArgs) => written.push(methodArgs),
+            level
+          );
+      const logger = {
+        options,
+        levels: { labels: { 30: 'info', 40: 'warn' } },
+        info: log(30),
+        warn: log(40),
+      };
+      return logger;
+    };
+    return () => pino as Pino;
+  };
+
+  it('rewrites records into structured logging once a project id is known', () => {
+    const adapter = new PinoLoggerAdapter(loadFakePino([]));
+
+    const record: Record<string, unknown> = otelRecord();
+    getLogHook(adapter, 'project-id')(span, record, 50);
+    expect(record).to.deep.equal({
+      message: 'Loading the home page',
+      ...structuredLoggingFields,
+      severity: 'ERROR',
+    });
+  });
+
+  it('creates loggers that write messages where cloud logging reads them', () => {
+    const logger = new PinoLoggerAdapter(loadFakePino([])).createLogger();
+    expect(
+      (logger as PinoLogger & { options: PinoOptions }).options.messageKey
+    ).to.equal('message');
+  });
+
+  it('provides records to log sinks until they are removed', () => {
+    const written: unknown[][] = [];
+    const adapter = new PinoLoggerAdapter(loadFakePino(written));
+    const logger = adapter.createLogger() as PinoLogger & {
+      info: (...args: unknown[]) => void;
+      warn: (...args: unknown[]) => void;
+    };
+    const records: [string, unknown][] = [];
+
+    const removeLogSink = adapter.addLogSink(logger, (level, message) =>
+      records.push([level, message])
+    );
+    logger.info('Loaded %d results', 3);
+    logger.warn({ durationMillis: 1200 }, 'The home page is slow');
+    logger.warn(new Error('The home page failed to load'));
+    removeLogSink();
+    logger.info('not captured');
+
+    expect(records).to.deep.equal([
+      ['info', 'Loaded 3 results'],
+      ['warn', 'The home page is slow'],
+      ['warn', 'The home page failed to load'],
+    ]);
+    expect(written).to.have.length(4);
+  });
+
+  it('rejects log sinks for loggers that it did not create', () => {
+    const adapter = new PinoLoggerAdapter(loadFakePino([]));
+    expect(() =>
+      adapter.addLogSink({ levels: { labels: {} }, warn: () => {} }, () => {})
+    ).to.throw(TypeError);
+  });
+});
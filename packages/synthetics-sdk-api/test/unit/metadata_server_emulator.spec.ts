@@ -0,0 +1,79 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import axios from 'axios';
+import { expect } from 'chai';
+import { GoogleAuth } from 'google-auth-library';
+import { getEnvironmentResolver } from '../../src/environment_resolver';
+import {
+  MetadataServerEmulator,
+  startMetadataServerEmulator,
+} from '../../src/metadata_server_emulator';
+
+describe('MetadataServerEmulator', () => {
+  let emulator: MetadataServerEmulator;
+
+  beforeEach(async () => {
+    emulator = await startMetadataServerEmulator({
+      projectId: 'emulated-project',
+      region: 'europe-west1',
+    });
+  });
+
+  afterEach(async () => {
+    await emulator.stop();
+  });
+
+  const get = (
+    path: string,
+    headers: { [name: string]: string } = { 'Metadata-Flavor': 'Google' }
+  ) =>
+    axios.get(`${emulator.url}/computeMetadata/v1/${path}`, {
+      headers,
+      validateStatus: () => true,
+    });
+
+  it('is used by the environment resolver', async () => {
+    expect(process.env.GCE_METADATA_HOST).to.equal(emulator.host);
+
+    const resolver = getEnvironmentResolver();
+    expect(await resolver.getProjectId()).to.equal('emulated-project');
+    expect(await resolver.getProjectNumber()).to.equal('123456789012');
+    expect(await resolver.getRegion()).to.equal('europe-west1');
+    expect(await resolver.getZone()).to.equal('europe-west1-a');
+  });
+
+  it('provides access tokens to google-auth-library', async () => {
+    const auth = new GoogleAuth({
+      scopes: ['https://www.googleapis.com/auth/cloud-platform'],
+    });
+    expect(await auth.getAccessToken()).to.equal('emulated-access-token');
+  }).timeout(5000);
+
+  it('lists the entries of directories', async () => {
+    const response = await get('instance/service-accounts/default/');
+    expect(response.status).to.equal(200);
+    expect(response.data).to.equal('email\ntoken\n');
+  });
+
+  it('rejects requests without the Metadata-Flavor header', async () => {
+    expect((await get('project/project-id', {})).status).to.equal(403);
+    expect((await get('instance/hostname')).status).to.equal(404);
+  });
+
+  it('restores GCE_METADATA_HOST once stopped', async () => {
+    await emulator.stop();
+    expect(process.env.GCE_METADATA_HOST).to.be.undefined;
+  });
+});
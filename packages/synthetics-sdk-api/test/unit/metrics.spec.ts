@@ -0,0 +1,86 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { expect } from 'chai';
+import { SyntheticMetric } from '../../src/index';
+import { createRecordMetricFunction } from '../../src/metrics';
+
+describe('createRecordMetricFunction', () => {
+  let metrics: SyntheticMetric[];
+  let recordMetric: ReturnType<typeof createRecordMetricFunction>;
+
+  beforeEach(() => {
+    metrics = [];
+    recordMetric = createRecordMetricFunction(metrics);
+  });
+
+  it('records integer, floating point and boolean values', () => {
+    recordMetric('search_result_count', 12);
+    recordMetric('cart/total_latency', 120.5);
+    recordMetric('queue_drained', true);
+
+    expect(metrics.map((m) => m.name)).to.deep.equal([
+      'search_result_count',
+      'cart/total_latency',
+      'queue_drained',
+    ]);
+    expect(metrics[0].int64_value).to.equal(12);
+    expect(metrics[0].double_value).to.be.undefined;
+    expect(metrics[1].double_value).to.equal(120.5);
+    expect(metrics[1].int64_value).to.be.undefined;
+    expect(metrics[2].bool_value).to.be.true;
+    expect(metrics[0].record_time).to.not.be.empty;
+  });
+
+  it('records labels', () => {
+    recordMetric('queue_depth', 3, { tenant: 'acme', env: 'staging' });
+
+    expect(metrics[0].labels).to.deep.equal({ tenant: 'acme', env: 'staging' });
+  });
+
+  it('throws on invalid metric names', () => {
+    expect(() => recordMetric('', 1)).to.throw(TypeError);
+    expect(() => recordMetric('1st_metric', 1)).to.throw(TypeError);
+    expect(() => recordMetric('has spaces', 1)).to.throw(TypeError);
+    expect(() => recordMetric('a'.repeat(101), 1)).to.throw(TypeError);
+    expect(metrics).to.be.empty;
+  });
+
+  it('throws on invalid values', () => {
+    expect(() => recordMetric('metric', NaN)).to.throw(TypeError);
+    expect(() => recordMetric('metric', Infinity)).to.throw(TypeError);
+    expect(() => recordMetric('metric', '12' as unknown as number)).to.throw(
+      TypeError
+    );
+    expect(() =>
+      recordMetric('metric', undefined as unknown as number)
+    ).to.throw(TypeError);
+    expect(metrics).to.be.empty;
+  });
+
+  it('throws on invalid labels', () => {
+    expect(() => recordMetric('metric', 1, { 'bad key': 'v' })).to.throw(
+      TypeError
+    );
+    expect(() =>
+      recordMetric('metric', 1, { key: 1 as unknown as string })
+    ).to.throw(TypeError);
+    const tooManyLabels: { [key: string]: string } = {};
+    for (let i = 0; i < 11; i++) {
+      tooManyLabels[`label_${i}`] = 'v';
+    }
+    expect(() => recordMetric('metric', 1, tooManyLabels)).to.throw(TypeError);
+    expect(metrics).to.be.empty;
+  });
+});
@@ -0,0 +1,350 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { expect } from 'chai';
+import {
+  isSyntheticResultPassing,
+  renderJUnit,
+  renderMarkdown,
+  renderText,
+} from '../../src/renderers';
+import {
+  SyntheticAttachment,
+  SyntheticResult,
+} from '../../src/generated/proto/synthetic_response';
+
+const timing = {
+  start_time: '2023-01-01T00:00:00.000Z',
+  end_time: '2023-01-01T00:00:01.500Z',
+};
+
+const passingResultWithWarnings = SyntheticResult.fromPartial({
+  ...timing,
+  synthetic_generic_result_v1: {
+    ok: true,
+    warnings: [
+      {
+        warning_type: 'SlowResponse',
+        warning_message: 'The home page took 4200 ms',
+        warning_time: '2023-01-01T00:00:01.000Z',
+      },
+    ],
+  },
+});
+
+const genericResult = SyntheticResult.fromPartial({
+  ...timing,
+  synthetic_generic_result_v1: {
+    ok: false,
+    generic_error: {
+      error_type: 'AssertionError',
+      error_message: 'expected <b>200</b> & got 500',
+      function_name: 'checkout',
+      file_path: '/user/code/index.js',
+      line: 12,
+      column: 5,
+      stack_trace: 'AssertionError: expected 200\n    at checkout',
+    },
+    steps: [
+      { name: 'login', ok: true, duration_millis: 100 },
+      {
+        name: 'checkout',
+        ok: false,
+        duration_millis: 200,
+        step_error: {
+          error_type: 'AssertionError',
+          error_message: 'expected <b>200</b> & got 500',
+        },
+      },
+    ],
+  },
+  metrics: [
+    { name: 'cart_total', double_value: 12.5, labels: { tenant: 'acme' } },
+  ],
+  attachments: [
+    {
+      name: 'checkout.png',
+      content_type: 'image/png',
+      uri: 'gs://bucket/execution/checkout.png',
+      size_bytes: 3,
+    },
+  ],
+});
+
+const testFrameworkResult = SyntheticResult.fromPartial({
+  ...timing,
+  synthetic_test_framework_result_v1: {
+    passing_test_count: 1,
+    failing_test_count: 1,
+    pending_test_count: 0,
+    test_results: [
+      {
+        title: 'loads',
+        title_paths: ['home page', 'loads'],
+        test_passed: true,
+        test_start_time: timing.start_time,
+        test_end_time: timing.end_time,
+      },
+      {
+        title: 'searches',
+        title_paths: ['home page', 'searches'],
+        test_passed: false,
+        test_error: {
+          error_type: 'Error',
+          error_message: 'no results',
+          stack_frames: [{ file_path: '/user/test.spec.js', line: 4 }],
+        },
+      },
+    ],
+  },
+});
+
+const brokenLinksResult = SyntheticResult.fromPartial({
+  ...timing,
+  synthetic_broken_links_result_v1: {
+    link_count: 2,
+    passing_link_count: 1,
+    failing_link_count: 1,
+    origin_link_result: {
+      target_uri: 'https://example.com',
+      link_passed: true,
+      status_code: 200,
+    },
+    followed_link_results: [
+      {
+        source_uri: 'https://example.com',
+        target_uri: 'https://example.com/missing',
+        link_passed: false,
+        status_code: 404,
+        error_type: 'BrokenLinksSynthetic_IncorrectStatusCode',
+        error_message: 'expected 2xx',
+      },
+    ],
+  },
+});
+
+describe('renderers', () => {
+  describe('isSyntheticResultPassing', () => {
+    it('reports whether each variant of result passed', () => {
+      expect(isSyntheticResultPassing(genericResult)).to.be.false;
+      expect(isSyntheticResultPassing(testFrameworkResult)).to.be.false;
+      expect(isSyntheticResultPassing(brokenLinksResult)).to.be.false;
+      expect(
+        isSyntheticResultPassing(
+          SyntheticResult.fromPartial({
+            synthetic_generic_result_v1: { ok: true },
+          })
+        )
+      ).to.be.true;
+      expect(isSyntheticResultPassing(SyntheticResult.create())).to.be.false;
+    });
+  });
+
+  describe('renderText', () => {
+    it('renders a generic result', () => {
+      const text = renderText(genericResult);
+      expect(text).to.equal(
+        [
+          'Synthetic FAILED in 1500 ms',
+          '1 of 2 steps passed',
+          '',
+          'AssertionError: expected <b>200</b> & got 500',
+          '    at checkout (/user/code/index.js:12:5)',
+          '',
+          '  ✔ login (100 ms)',
+          '  ✘ checkout (200 ms)',
+          '      AssertionError: expected <b>200</b> & got 500',
+          '',
+          'Metrics:',
+          '  cart_total = 12.5 {tenant=acme}',
+          '',
+          'Attachments:',
+          '  checkout.png (image/png, 3 bytes): gs://bucket/execution/checkout.png',
+          '',
+        ].join('\n')
+      );
+    });
+
+    it('escapes the names and uris of attachments', () => {
+      const markdown = renderMarkdown({
+        ...genericResult,
+        attachments: [
+          SyntheticAttachment.create({
+            name: 'page](1).html',
+            content_type: 'text/html',
+            uri: 'file:///tmp/my artifacts/page (1).html',
+          }),
+        ],
+      });
+      expect(markdown).to.contain(
+        '* [page\\](1).html](file:///tmp/my%20artifacts/page%20%281%29.html) (text/html)'
+      );
+    });
+
+    it('renders the warnings of a generic result', () => {
+      const text = renderText(passingResultWithWarnings);
+      expect(text).to.contain(
+        ['Warnings:', '  ⚠ SlowResponse: The home page took 4200 ms', ''].join(
+          '\n'
+        )
+      );
+      expect(text).to.contain('Synthetic PASSED');
+    });
+
+    it('renders a test framework result', () => {
+      const text = renderText(testFrameworkResult);
+      expect(text).to.contain('Test suite FAILED in 1500 ms');
+      expect(text).to.contain('1 passing, 1 failing, 0 pending');
+      expect(text).to.contain('  ✔ home page › loads (1500 ms)');
+      expect(text).to.contain('  ✘ home page › searches');
+      expect(text).to.contain('      Error: no results');
+      expect(text).to.contain('          at /user/test.spec.js:4');
+    });
+
+    it('renders a broken links result', () => {
+      const text = renderText(brokenLinksResult);
+      expect(text).to.contain('Broken links check FAILED');
+      expect(text).to.contain('1 of 2 links passed');
+      expect(text).to.contain('  ✔ https://example.com [200]');
+      expect(text).to.contain('  ✘ https://example.com/missing [404]');
+      expect(text).to.contain(
+        '      BrokenLinksSynthetic_IncorrectStatusCode: expected 2xx'
+      );
+    });
+  });
+
+  describe('renderMarkdown', () => {
+    it('renders a generic result with escaped tables', () => {
+      const markdown = renderMarkdown(genericResult);
+      expect(markdown).to.contain('### ❌ Synthetic failed in 1500 ms');
+      expect(markdown).to.contain(
+        '**AssertionError**: expected \\<b\\>200\\</b\\> & got 500 ' +
+          '(`checkout (/user/code/index.js:12:5)`)'
+      );
+      expect(markdown).to.contain('| ✅ | login | 100 ms |  |');
+      expect(markdown).to.contain(
+        '| ❌ | checkout | 200 ms | AssertionError: expected \\<b\\>200\\</b\\> & got 500 |'
+      );
+      expect(markdown).to.contain('| cart\\_total | 12.5 | {tenant=acme} |');
+      expect(markdown).to.contain(
+        '* [checkout.png](gs://bucket/execution/checkout.png) (image/png)'
+      );
+    });
+
+    it('renders the warnings of a generic result', () => {
+      const markdown = renderMarkdown(passingResultWithWarnings);
+      expect(markdown).to.contain(
+        '* ⚠️ **SlowResponse**: The home page took 4200 ms'
+      );
+    });
+
+    it('renders a test framework result', () => {
+      const markdown = renderMarkdown(testFrameworkResult);
+      expect(markdown).to.contain('### ❌ Test suite failed');
+      expect(markdown).to.contain(
+        '| ❌ | home page › searches |  | Error: no results |'
+      );
+    });
+  });
+
+  describe('renderJUnit', () => {
+    it('renders steps of a generic result as testcases', () => {
+      const xml = renderJUnit(genericResult);
+      expect(xml).to.contain(
+        '<testsuite name="Synthetic" tests="2" failures="1" errors="0" ' +
+          'time="1.500" timestamp="2023-01-01T00:00:00.000Z">'
+      );
+      expect(xml).to.contain(
+        '<testcase name="login" classname="Synthetic" time="0.100"/>'
+      );
+      expect(xml).to.contain(
+        '<failure message="expected &lt;b&gt;200&lt;/b&gt; &amp; got 500" ' +
+          'type="AssertionError"/>'
+      );
+      expect(xml).to.contain(
+        '[[ATTACHMENT|gs://bucket/execution/checkout.png]]'
+      );
+    });
+
+    it('preserves line breaks and tabs of attributes', () => {
+      const xml = renderJUnit(
+        SyntheticResult.fromPartial({
+          ...timing,
+          synthetic_generic_result_v1: {
+            ok: false,
+            generic_error: {
+              error_type: 'AssertionError',
+              error_message: 'expected:\r\n\t200\nactual:\r\n\t500',
+            },
+          },
+        })
+      );
+      expect(xml).to.contain(
+        '<failure message="expected:&#13;&#10;&#9;200&#10;actual:&#13;&#10;&#9;500" ' +
+          'type="AssertionError"/>'
+      );
+    });
+
+    it('renders a generic result without steps as a single testcase', () => {
+      const xml = renderJUnit(
+        SyntheticResult.fromPartial({
+          ...timing,
+          synthetic_generic_result_v1: {
+            ok: false,
+            generic_error: {
+              error_type: 'Error',
+              error_message: 'failed',
+              stack_trace: 'Error: failed\n    at fn (/a.js:1:1)',
+            },
+          },
+        })
+      );
+      expect(xml).to.contain('tests="1" failures="1"');
+      expect(xml).to.contain(
+        '<failure message="failed" type="Error">Error: failed\n    at fn (/a.js:1:1)</failure>'
+      );
+    });
+
+    it('reports a generic result that failed outside of its steps', () => {
+      const xml = renderJUnit(
+        SyntheticResult.fromPartial({
+          synthetic_generic_result_v1: {
+            ok: false,
+            generic_error: { error_type: 'Error', error_message: 'teardown' },
+            steps: [{ name: 'login', ok: true }],
+          },
+        })
+      );
+      expect(xml).to.contain('tests="2" failures="1"');
+      expect(xml).to.contain('<failure message="teardown" type="Error"/>');
+    });
+
+    it('renders tests and links as testcases', () => {
+      const testsXml = renderJUnit(testFrameworkResult);
+      expect(testsXml).to.contain(
+        '<testcase name="loads" classname="home page" time="1.500"/>'
+      );
+      expect(testsXml).to.contain(
+        '<failure message="no results" type="Error">at /user/test.spec.js:4</failure>'
+      );
+
+      const linksXml = renderJUnit(brokenLinksResult);
+      expect(linksXml).to.contain('tests="2" failures="1"');
+      expect(linksXml).to.contain(
+        '<testcase name="https://example.com/missing [404]" ' +
+          'classname="https://example.com" time="0.000">'
+      );
+    });
+  });
+});
@@ -0,0 +1,94 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { expect } from 'chai';
+import {
+  acceptsProtobuf,
+  decodeSyntheticResult,
+  encodeSyntheticResult,
+  negotiateResultEncoding,
+} from '../../src/result_encoding';
+import { SyntheticResult } from '../../src/generated/proto/synthetic_response';
+
+const syntheticResult = SyntheticResult.fromPartial({
+  synthetic_generic_result_v1: {
+    ok: false,
+    generic_error: { error_type: 'Error', error_message: 'failed' },
+    steps: [{ name: 'login', ok: true, duration_millis: 120 }],
+  },
+  runtime_metadata: { node_version: 'v18.0.0' },
+  start_time: '2023-01-01T00:00:00.000Z',
+  end_time: '2023-01-01T00:00:01.500Z',
+  metrics: [{ name: 'search_result_count', int64_value: 12 }],
+});
+
+describe('result encoding', () => {
+  describe('acceptsProtobuf', () => {
+    it('accepts protobuf when it is preferred', () => {
+      expect(acceptsProtobuf('application/x-protobuf')).to.be.true;
+      expect(acceptsProtobuf('Application/X-Protobuf; charset=binary')).to.be
+        .true;
+      expect(acceptsProtobuf('application/json;q=0.5, application/x-protobuf'))
+        .to.be.true;
+    });
+
+    it('defaults to json', () => {
+      expect(acceptsProtobuf(undefined)).to.be.false;
+      expect(acceptsProtobuf('')).to.be.false;
+      expect(acceptsProtobuf('*/*')).to.be.false;
+      expect(acceptsProtobuf('application/json, application/x-protobuf')).to.be
+        .false;
+      expect(acceptsProtobuf('application/x-protobuf;q=0')).to.be.false;
+    });
+  });
+
+  it('negotiates the encoding of results', () => {
+    expect(negotiateResultEncoding(syntheticResult, undefined)).to.deep.equal({
+      contentType: 'application/json',
+      body: JSON.stringify(syntheticResult),
+    });
+    expect(
+      negotiateResultEncoding(syntheticResult, 'application/x-protobuf')
+    ).to.deep.equal({
+      contentType: 'application/x-protobuf',
+      body: encodeSyntheticResult(syntheticResult),
+    });
+  });
+
+  it('decodes protobuf encoded results', () => {
+    const bytes = encodeSyntheticResult(syntheticResult);
+    expect(
+      decodeSyntheticResult(bytes, 'application/x-protobuf')
+    ).to.deep.equal(syntheticResult);
+    expect(() =>
+      decodeSyntheticResult('not bytes', 'application/x-protobuf')
+    ).to.throw(
+      TypeError,
+      'Protobuf encoded results must be decoded from bytes'
+    );
+  });
+
+  it('decodes json encoded results', () => {
+    const json = JSON.stringify(syntheticResult);
+    expect(
+      decodeSyntheticResult(json, 'application/json; charset=utf-8')
+    ).to.deep.equal(syntheticResult);
+    expect(decodeSyntheticResult(Buffer.from(json))).to.deep.equal(
+      syntheticResult
+    );
+    expect(decodeSyntheticResult(JSON.parse(json))).to.deep.equal(
+      syntheticResult
+    );
+  });
+});
@@ -0,0 +1,163 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { expect } from 'chai';
+import {
+  limitResultSize,
+  validateResultSizeOptions,
+} from '../../src/result_size';
+import {
+  SyntheticResult,
+  TestResult,
+} from '../../src/generated/proto/synthetic_response';
+
+const byteLength = (value: unknown) => Buffer.byteLength(JSON.stringify(value));
+
+const createGenericResult = (errorMessage: string, stackTrace: string) =>
+  SyntheticResult.create({
+    synthetic_generic_result_v1: {
+      ok: false,
+      generic_error: {
+        error_type: 'Error',
+        error_message: errorMessage,
+        stack_trace: stackTrace,
+        causes: [],
+      },
+      steps: [],
+      attempts: [],
+      logs: [],
+    },
+  });
+
+const createTestFrameworkResult = (testCount: number) =>
+  SyntheticResult.create({
+    synthetic_test_framework_result_v1: {
+      test_count: testCount,
+      test_results: Array.from({ length: testCount }, (_, index) =>
+        TestResult.create({
+          title: `test ${index}`,
+          test_passed: false,
+          title_paths: ['suite', `test ${index}`],
+          test_error: {
+            error_type: 'AssertionError',
+            error_message: `expected ${index} to equal ${index + 1}`,
+            stack_frames: [],
+            stack_trace: 'x'.repeat(100),
+          },
+        })
+      ),
+    },
+  });
+
+describe('limitResultSize', () => {
+  it('leaves results that fit within the budget as is', () => {
+    const syntheticResult = createGenericResult('failed', 'x'.repeat(5000));
+    const expected = JSON.parse(JSON.stringify(syntheticResult));
+
+    limitResultSize(syntheticResult);
+    expect(JSON.parse(JSON.stringify(syntheticResult))).to.deep.equal(expected);
+  });
+
+  it('truncates stack traces first', () => {
+    const syntheticResult = createGenericResult('failed', 'x'.repeat(5000));
+
+    limitResultSize(syntheticResult, {
+      maxBytes: 2000,
+      maxStackTraceLength: 1000,
+    });
+
+    const genericError =
+      syntheticResult.synthetic_generic_result_v1?.generic_error;
+    expect(genericError?.stack_trace).to.equal(
+      `${'x'.repeat(1000)}... [truncated]`
+    );
+    expect(genericError?.error_message).to.equal('failed');
+    expect(syntheticResult.truncations).to.deep.equal([
+      {
+        field_path: 'synthetic_generic_result_v1.generic_error.stack_trace',
+        original_length: 5000,
+        truncated_length: 1000 + '... [truncated]'.length,
+      },
+    ]);
+    expect(byteLength(syntheticResult)).to.be.at.most(2000);
+  });
+
+  it('truncates error messages once stack traces have been truncated', () => {
+    const syntheticResult = createGenericResult(
+      'm'.repeat(3000),
+      'x'.repeat(3000)
+    );
+
+    limitResultSize(syntheticResult, {
+      maxBytes: 2000,
+      maxStackTraceLength: 500,
+      maxErrorMessageLength: 500,
+    });
+
+    expect(
+      syntheticResult.truncations.map((truncation) => truncation.field_path)
+    ).to.deep.equal([
+      'synthetic_generic_result_v1.generic_error.stack_trace',
+      'synthetic_generic_result_v1.generic_error.error_message',
+    ]);
+    expect(byteLength(syntheticResult)).to.be.at.most(2000);
+  });
+
+  it('halves lists until the result fits, recording them once', () => {
+    const syntheticResult = createTestFrameworkResult(100);
+    const options = { maxBytes: 5000, maxStackTraceLength: 50 };
+
+    limitResultSize(syntheticResult, options);
+
+    const testResults =
+      syntheticResult.synthetic_test_framework_result_v1?.test_results ?? [];
+    // 100 halved to 50, 25, 12 and then 6.
+    expect(testResults.length).to.equal(6);
+    expect(testResults.map((testResult) => testResult.title)).to.deep.equal(
+      Array.from({ length: 6 }, (_, index) => `test ${index}`)
+    );
+    expect(syntheticResult.truncations).to.deep.equal([
+      ...Array.from({ length: 6 }, (_, index) => ({
+        field_path: `synthetic_test_framework_result_v1.test_results[${index}].test_error.stack_trace`,
+        original_length: 100,
+        truncated_length: 50 + '... [truncated]'.length,
+      })),
+      {
+        field_path: 'synthetic_test_framework_result_v1.test_results',
+        original_length: 100,
+        truncated_length: 6,
+      },
+    ]);
+    expect(byteLength(syntheticResult)).to.be.at.most(5000);
+
+    // Truncation is deterministic.
+    const again = createTestFrameworkResult(100);
+    limitResultSize(again, options);
+    expect(again).to.deep.equal(syntheticResult);
+  });
+
+  it('validates its options', () => {
+    expect(() => validateResultSizeOptions({ maxBytes: 1024 })).to.not.throw();
+    expect(() => validateResultSizeOptions({ maxBytes: 0 })).to.throw(
+      TypeError,
+      'maxBytes must be an integer greater than 0'
+    );
+    expect(() =>
+      validateResultSizeOptions({ maxStackTraceLength: 1.5 })
+    ).to.throw(TypeError, 'maxStackTraceLength must be an integer');
+    expect(() =>
+      validateResultSizeOptions({ maxErrorMessageLength: -1 })
+    ).to.throw(TypeError, 'maxErrorMessageLength must be an integer');
+  });
+});
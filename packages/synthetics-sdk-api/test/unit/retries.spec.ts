@@ -0,0 +1,163 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { expect } from 'chai';
+import { GenericResultV1_GenericAttempt } from '../../src/index';
+import { runWithRetries, validateRetryOptions } from '../../src/retries';
+
+describe('runWithRetries', () => {
+  let attempts: GenericResultV1_GenericAttempt[];
+  let controller: AbortController;
+
+  beforeEach(() => {
+    attempts = [];
+    controller = new AbortController();
+  });
+
+  it('attempts once when no retry options are provided', async () => {
+    const value = await runWithRetries(() => 'ok', attempts, controller.signal);
+
+    expect(value).to.equal('ok');
+    expect(attempts).to.have.length(1);
+    expect(attempts[0].attempt_number).to.equal(1);
+    expect(attempts[0].ok).to.be.true;
+    expect(attempts[0].attempt_error).to.be.undefined;
+  });
+
+  it('retries until an attempt passes', async () => {
+    const value = await runWithRetries(
+      (attemptNumber) => {
+        if (attemptNumber < 3) {
+          throw new Error(`attempt ${attemptNumber} failed`);
+        }
+        return attemptNumber;
+      },
+      attempts,
+      controller.signal,
+      { maxRetries: 5, backoffMillis: 1 }
+    );
+
+    expect(value).to.equal(3);
+    expect(attempts.map((a) => a.ok)).to.deep.equal([false, false, true]);
+    expect(attempts[0].attempt_error?.error_message).to.equal(
+      'attempt 1 failed'
+    );
+    expect(attempts[1].attempt_error?.error_message).to.equal(
+      'attempt 2 failed'
+    );
+    expect(attempts[2].duration_millis).to.be.at.least(0);
+  });
+
+  it('rejects with the last error once retries are exhausted', async () => {
+    let thrown: unknown;
+    try {
+      await runWithRetries(
+        (attemptNumber) => {
+          throw new Error(`attempt ${attemptNumber} failed`);
+        },
+        attempts,
+        controller.signal,
+        { maxRetries: 2 }
+      );
+    } catch (err) {
+      thrown = err;
+    }
+
+    expect((thrown as Error).message).to.equal('attempt 3 failed');
+    expect(attempts).to.have.length(3);
+  });
+
+  it('does not retry errors that retryOn rejects', async () => {
+    let thrown: unknown;
+    try {
+      await runWithRetries(
+        () => {
+          throw new TypeError('not transient');
+        },
+        attempts,
+        controller.signal,
+        { maxRetries: 2, retryOn: (err) => !(err instanceof TypeError) }
+      );
+    } catch (err) {
+      thrown = err;
+    }
+
+    expect(thrown).to.be.instanceOf(TypeError);
+    expect(attempts).to.have.length(1);
+  });
+
+  it('waits with an increasing backoff between attempts', async () => {
+    const startTimes: number[] = [];
+    try {
+      await runWithRetries(
+        () => {
+          startTimes.push(Date.now());
+          throw new Error('failed');
+        },
+        attempts,
+        controller.signal,
+        { maxRetries: 2, backoffMillis: 20, backoffMultiplier: 2 }
+      );
+    } catch (err) {
+      // expected
+    }
+
+    expect(startTimes[1] - startTimes[0]).to.be.at.least(15);
+    expect(startTimes[2] - startTimes[1]).to.be.at.least(35);
+  });
+
+  it('stops retrying once aborted', async () => {
+    let thrown: unknown;
+    try {
+      await runWithRetries(
+        () => {
+          controller.abort(new Error('aborted'));
+          throw new Error('failed');
+        },
+        attempts,
+        controller.signal,
+        { maxRetries: 2 }
+      );
+    } catch (err) {
+      thrown = err;
+    }
+
+    expect((thrown as Error).message).to.equal('failed');
+    expect(attempts).to.have.length(1);
+  });
+});
+
+describe('validateRetryOptions', () => {
+  it('accepts valid options', () => {
+    expect(() =>
+      validateRetryOptions({
+        maxRetries: 2,
+        backoffMillis: 100,
+        backoffMultiplier: 1.5,
+        retryOn: () => true,
+      })
+    ).to.not.throw();
+  });
+
+  it('throws on invalid options', () => {
+    expect(() => validateRetryOptions({ maxRetries: -1 })).to.throw(TypeError);
+    expect(() => validateRetryOptions({ maxRetries: 1.5 })).to.throw(TypeError);
+    expect(() =>
+      validateRetryOptions({ maxRetries: 1, backoffMillis: -1 })
+    ).to.throw(TypeError);
+    expect(() =>
+      validateRetryOptions({ maxRetries: 1, backoffMultiplier: 0.5 })
+    ).to.throw(TypeError);
+  });
+});
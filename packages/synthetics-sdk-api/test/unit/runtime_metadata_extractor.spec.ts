@@ -12,12 +12,17 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
+import axios from 'axios';
+import * as sinon from 'sinon';
 import { expect } from 'chai';
 
 import {
+  collectRuntimeMetadata,
   getRuntimeMetadata,
   instantiateMetadata,
+  registerRuntimeMetadataProvider,
 } from '../../src/runtime_metadata_extractor';
+import { configureEnvironmentResolver } from '../../src/environment_resolver';
 
 describe('runtimeMetadata', () => {
   const env = process.env;
@@ -45,7 +50,6 @@ describe('runtimeMetadata', () => {
     expect(metadata['@google-cloud/synthetics-sdk-api']).to.not.be.empty;
   });
 
-
   it('allows for sub-package information to be provided', () => {
     process.env = {
       K_SERVICE: 'service_name',
@@ -57,7 +61,7 @@ describe('runtimeMetadata', () => {
     };
     instantiateMetadata({
       name: 'subpackage',
-      version: '0.5.0'
+      version: '0.5.0',
     });
 
     const metadata = getRuntimeMetadata();
@@ -71,7 +75,98 @@ describe('runtimeMetadata', () => {
   it('sets only metadata thats present and relevant', () => {
     process.env = { other: 'fields', that: 'dont', matter: 'at all' };
     instantiateMetadata();
-    expect(Object.keys(getRuntimeMetadata()))
-      .to.deep.equal(['@google-cloud/synthetics-sdk-api']);
+    expect(Object.keys(getRuntimeMetadata())).to.deep.equal([
+      '@google-cloud/synthetics-sdk-api',
+    ]);
+  });
+});
+
+describe('runtime metadata providers', () => {
+  const env = process.env;
+  const removeProviders: (() => void)[] = [];
+
+  afterEach(() => {
+    process.env = env;
+    removeProviders.splice(0).forEach((removeProvider) => removeProvider());
+    sinon.restore();
+  });
+
+  it('collects the metadata of the sdk providers', async () => {
+    process.env = {
+      K_SERVICE: 'service_name',
+      CLOUD_RUN_JOB: 'job_name',
+      CLOUD_RUN_TASK_INDEX: '0',
+      FUNCTION_MEMORY_MB: '512',
+    };
+    instantiateMetadata();
+    configureEnvironmentResolver();
+    const axiosGetStub = sinon
+      .stub(axios, 'get')
+      .resolves({ data: 'projects/123456789/regions/us-east1' });
+
+    const metadata = await collectRuntimeMetadata();
+    expect(metadata.K_SERVICE).to.equal('service_name');
+    expect(metadata['@google-cloud/synthetics-sdk-api']).to.not.be.empty;
+    expect(metadata.node_version).to.equal(process.version);
+    expect(metadata.platform).to.equal(process.platform);
+    expect(metadata.memory_limit_mb).to.match(/^\d+$/);
+    expect(metadata.CLOUD_RUN_JOB).to.equal('job_name');
+    expect(metadata.CLOUD_RUN_TASK_INDEX).to.equal('0');
+    expect(metadata.region).to.equal('us-east1');
+    expect(metadata.cold_start).to.be.oneOf(['true', 'false']);
+
+    const subsequentMetadata = await collectRuntimeMetadata();
+    expect(subsequentMetadata.cold_start).to.equal('false');
+    expect(subsequentMetadata.region).to.equal('us-east1');
+    expect(axiosGetStub.calledOnce).to.be.true;
+  });
+
+  it('merges the metadata of registered providers and labels', async () => {
+    removeProviders.push(
+      registerRuntimeMetadataProvider('labels', { team: 'checkout' }),
+      registerRuntimeMetadataProvider('deployment', async () => ({
+        deployment: 'canary',
+        team: 'payments',
+      }))
+    );
+
+    const metadata = await collectRuntimeMetadata();
+    expect(metadata.team).to.equal('payments');
+    expect(metadata.deployment).to.equal('canary');
+    expect(metadata.node_version).to.equal(process.version);
+  });
+
+  it('replaces and removes providers', async () => {
+    const removeFirstProvider = registerRuntimeMetadataProvider('labels', {
+      team: 'checkout',
+    });
+    removeProviders.push(
+      registerRuntimeMetadataProvider('labels', { team: 'payments' })
+    );
+    removeFirstProvider();
+    expect((await collectRuntimeMetadata()).team).to.equal('payments');
+
+    removeProviders.splice(0).forEach((removeProvider) => removeProvider());
+    expect(await collectRuntimeMetadata()).to.not.have.property('team');
+  });
+
+  it('omits the metadata of providers that fail', async () => {
+    sinon.stub(console, 'error');
+    removeProviders.push(
+      registerRuntimeMetadataProvider('failing', async () => {
+        throw new Error('provider failed');
+      })
+    );
+
+    const metadata = await collectRuntimeMetadata();
+    expect(metadata.node_version).to.equal(process.version);
+  });
+
+  it('rejects labels that are not strings', () => {
+    expect(() =>
+      registerRuntimeMetadataProvider('labels', {
+        replicas: 3 as unknown as string,
+      })
+    ).to.throw(TypeError, 'Runtime metadata label replicas must be a string');
   });
 });
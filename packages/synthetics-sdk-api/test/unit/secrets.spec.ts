@@ -0,0 +1,299 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import * as sinon from 'sinon';
+import { AddressInfo } from 'net';
+import { GoogleAuth } from 'google-auth-library';
+import { EnvironmentResolver } from '../../src/environment_resolver';
+import {
+  configureSecretResolvers,
+  EnvironmentSecretResolver,
+  FileSecretResolver,
+  getSecret,
+  redactSecrets,
+  redactSyntheticResult,
+  SecretManagerSecretResolver,
+  SecretNotFoundError,
+  SecretResolver,
+} from '../../src/secrets';
+import { SyntheticResult } from '../../src/generated/proto/synthetic_response';
+import { startMetadataServerEmulator } from '../../src/metadata_server_emulator';
+
+// A stand-in of the Secret Manager API, that records the requests it serves.
+const startSecretManager = async (secrets: { [name: string]: string }) => {
+  const requests: http.IncomingMessage[] = [];
+  const server = http.createServer((req, res) => {
+    requests.push(req);
+    const match = (req.url ?? '').match(
+      /^\/v1\/(projects\/[^/]+\/secrets\/[^/]+\/versions\/[^/]+):access$/
+    );
+    if (!match || !(match[1] in secrets)) {
+      res.writeHead(404).end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        name: match[1],
+        payload: { data: Buffer.from(secrets[match[1]]).toString('base64') },
+      })
+    );
+  });
+  await new Promise<void>((resolve) =>
+    server.listen(0, '127.0.0.1', () => resolve())
+  );
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const close = () =>
+    new Promise<void>((resolve) => server.close(() => resolve()));
+  return { url, requests, close };
+};
+
+const staticResolver = (secrets: {
+  [name: string]: string;
+}): SecretResolver => ({
+  resolve: async (name) => secrets[name],
+});
+
+// Stubs the sources that GoogleAuth loads application default credentials
+// from, where only the metadata server provides them when they are available.
+const stubCredentialSources = (available: boolean) => {
+  sinon
+    .stub(
+      GoogleAuth.prototype,
+      '_tryGetApplicationCredentialsFromEnvironmentVariable'
+    )
+    .resolves(null);
+  sinon
+    .stub(
+      GoogleAuth.prototype,
+      '_tryGetApplicationCredentialsFromWellKnownFile'
+    )
+    .resolves(null);
+  sinon.stub(GoogleAuth.prototype, '_checkIsGCE').resolves(available);
+};
+
+describe('secrets', () => {
+  afterEach(() => {
+    configureSecretResolvers();
+    sinon.restore();
+  });
+
+  it('resolves secrets from environment variables', async () => {
+    process.env.SECRETS_SPEC_API_KEY = 'environment-api-key';
+    try {
+      const resolver = new EnvironmentSecretResolver();
+      expect(await resolver.resolve('SECRETS_SPEC_API_KEY')).to.equal(
+        'environment-api-key'
+      );
+      expect(await resolver.resolve('SECRETS_SPEC_MISSING')).to.be.undefined;
+    } finally {
+      delete process.env.SECRETS_SPEC_API_KEY;
+    }
+  });
+
+  it('resolves secrets from files within a directory', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'secrets-'));
+    fs.writeFileSync(path.join(directory, 'API_KEY'), 'file-api-key\n');
+
+    const resolver = new FileSecretResolver(directory);
+    expect(await resolver.resolve('API_KEY')).to.equal('file-api-key');
+    expect(await resolver.resolve('MISSING')).to.be.undefined;
+    expect(await resolver.resolve('../API_KEY')).to.be.undefined;
+  });
+
+  it('resolves secrets from a Secret Manager compatible backend', async () => {
+    const secretManager = await startSecretManager({
+      'projects/local-project/secrets/API_KEY/versions/latest':
+        'secret-manager-api-key',
+      'projects/other-project/secrets/API_KEY/versions/3': 'pinned-api-key',
+    });
+    const emulator = await startMetadataServerEmulator({
+      accessToken: 'emulated-token',
+    });
+
+    try {
+      const resolver = new SecretManagerSecretResolver({
+        url: secretManager.url,
+      });
+      expect(await resolver.resolve('API_KEY')).to.equal(
+        'secret-manager-api-key'
+      );
+      expect(
+        await resolver.resolve(
+          'projects/other-project/secrets/API_KEY/versions/3'
+        )
+      ).to.equal('pinned-api-key');
+      expect(await resolver.resolve('MISSING')).to.be.undefined;
+      expect(secretManager.requests[0].headers.authorization).to.equal(
+        'Bearer emulated-token'
+      );
+    } finally {
+      await emulator.stop();
+      await secretManager.close();
+    }
+  });
+
+  it('does not hold secrets without a project or credentials', async () => {
+    sinon.stub(EnvironmentResolver.prototype, 'getProjectId').resolves(null);
+    expect(
+      await new SecretManagerSecretResolver({
+        getAccessToken: async () => 'token',
+      }).resolve('API_KEY')
+    ).to.be.undefined;
+
+    stubCredentialSources(false);
+    const getAccessToken = sinon.stub(GoogleAuth.prototype, 'getAccessToken');
+    expect(
+      await new SecretManagerSecretResolver({
+        projectId: 'local-project',
+      }).resolve('API_KEY')
+    ).to.be.undefined;
+    sinon.assert.notCalled(getAccessToken);
+
+    configureSecretResolvers([
+      new EnvironmentSecretResolver(),
+      new SecretManagerSecretResolver(),
+    ]);
+    await getSecret('SECRETS_SPEC_MISSING').then(
+      () => expect.fail('should have rejected'),
+      (err) => expect(err).to.be.instanceOf(SecretNotFoundError)
+    );
+  });
+
+  it('sends requests without credentials to stand-ins', async () => {
+    const secretManager = await startSecretManager({
+      'projects/local-project/secrets/API_KEY/versions/latest': 'local-api-key',
+    });
+    stubCredentialSources(false);
+
+    try {
+      const resolver = new SecretManagerSecretResolver({
+        url: secretManager.url,
+        projectId: 'local-project',
+      });
+      expect(await resolver.resolve('API_KEY')).to.equal('local-api-key');
+      expect(secretManager.requests[0].headers.authorization).to.be.undefined;
+    } finally {
+      await secretManager.close();
+    }
+  });
+
+  it('rejects when credentials are misconfigured', async () => {
+    stubCredentialSources(true);
+    sinon
+      .stub(GoogleAuth.prototype, 'getAccessToken')
+      .rejects(new Error('invalid_grant'));
+
+    await new SecretManagerSecretResolver({ projectId: 'local-project' })
+      .resolve('API_KEY')
+      .then(
+        () => expect.fail('should have rejected'),
+        (err) => expect(err.message).to.equal('invalid_grant')
+      );
+  });
+
+  it('resolves secrets from the first resolver that holds them', async () => {
+    configureSecretResolvers([
+      staticResolver({ API_KEY: 'first-api-key' }),
+      staticResolver({ API_KEY: 'second-api-key', PASSWORD: 'hunter22' }),
+    ]);
+
+    expect(await getSecret('API_KEY')).to.equal('first-api-key');
+    expect(await getSecret('PASSWORD')).to.equal('hunter22');
+  });
+
+  it('caches the secrets that were resolved', async () => {
+    let resolutions = 0;
+    configureSecretResolvers([
+      {
+        resolve: async () => {
+          resolutions++;
+          return 'cached-api-key';
+        },
+      },
+    ]);
+
+    await getSecret('API_KEY');
+    await getSecret('API_KEY');
+    expect(resolutions).to.equal(1);
+  });
+
+  it('rejects secrets that are not found', async () => {
+    configureSecretResolvers([staticResolver({})]);
+
+    await getSecret('MISSING').then(
+      () => expect.fail('should have rejected'),
+      (err) => {
+        expect(err).to.be.instanceOf(SecretNotFoundError);
+        expect(err.message).to.equal('Secret MISSING was not found');
+      }
+    );
+  });
+
+  it('redacts the values of resolved secrets', async () => {
+    configureSecretResolvers([
+      staticResolver({ TOKEN: 'abc123', LONG_TOKEN: 'abc123xyz', PIN: '42' }),
+    ]);
+    await getSecret('TOKEN');
+    await getSecret('LONG_TOKEN');
+    await getSecret('PIN');
+
+    expect(
+      redactSecrets('token abc123, long token abc123xyz, pin 42')
+    ).to.equal('token [REDACTED], long token [REDACTED], pin 42');
+
+    const syntheticResult = SyntheticResult.create({
+      synthetic_generic_result_v1: {
+        generic_error: {
+          error_message: 'Unauthorized: abc123',
+          stack_trace: 'Error: Unauthorized: abc123\n    at main',
+          causes: [{ error_message: 'token abc123 expired', causes: [] }],
+        },
+        steps: [
+          {
+            name: 'login',
+            step_error: { error_message: 'abc123', causes: [] },
+          },
+        ],
+        attempts: [],
+        logs: [{ log_time: '', level: 'info', message: 'Using abc123' }],
+      },
+      non_fatal_errors: [{ error_type: 'Error', error_message: 'abc123' }],
+    });
+    redactSyntheticResult(syntheticResult);
+
+    const genericResult = syntheticResult.synthetic_generic_result_v1;
+    expect(genericResult?.generic_error?.error_message).to.equal(
+      'Unauthorized: [REDACTED]'
+    );
+    expect(genericResult?.generic_error?.stack_trace).to.equal(
+      'Error: Unauthorized: [REDACTED]\n    at main'
+    );
+    expect(genericResult?.generic_error?.causes[0].error_message).to.equal(
+      'token [REDACTED] expired'
+    );
+    expect(genericResult?.steps[0].step_error?.error_message).to.equal(
+      '[REDACTED]'
+    );
+    expect(genericResult?.logs[0].message).to.equal('Using [REDACTED]');
+    expect(syntheticResult.non_fatal_errors[0].error_message).to.equal(
+      '[REDACTED]'
+    );
+  });
+});
@@ -0,0 +1,138 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import ErrorStackParser from 'error-stack-parser';
+import { resolveOriginalStackFrame } from '../../src/source_maps';
+import { serializeGenericError } from '../../src/generic_error';
+
+// Maps the first column of line 1 to line 1 column 1 of src/synthetic.ts, and
+// the first column of line 2 to line 3 column 3.
+const sourceMap = {
+  version: 3,
+  file: 'synthetic.js',
+  sourceRoot: '',
+  sources: ['../src/synthetic.ts'],
+  names: [],
+  mappings: 'AAAA;AAEE',
+};
+
+const frame = (fileName: string, lineNumber = 2, columnNumber = 1) =>
+  ({
+    fileName,
+    lineNumber,
+    columnNumber,
+    functionName: 'fn',
+  } as ErrorStackParser.StackFrame);
+
+describe('resolveOriginalStackFrame', () => {
+  let dir: string;
+  let compiled: string;
+  let original: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'source-maps-'));
+    fs.mkdirSync(path.join(dir, 'build'));
+    compiled = path.join(dir, 'build', 'synthetic.js');
+    original = path.join(dir, 'src', 'synthetic.ts');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('resolves frames through an adjacent .map file', () => {
+    fs.writeFileSync(compiled, 'a;\nb;\n');
+    fs.writeFileSync(`${compiled}.map`, JSON.stringify(sourceMap));
+
+    const resolved = resolveOriginalStackFrame(frame(compiled));
+    expect(resolved.fileName).to.equal(original);
+    expect(resolved.lineNumber).to.equal(3);
+    expect(resolved.columnNumber).to.equal(3);
+    expect(resolved.functionName).to.equal('fn');
+  });
+
+  it('resolves frames through a sourceMappingURL that refers to a file', () => {
+    fs.mkdirSync(path.join(dir, 'maps'));
+    fs.writeFileSync(
+      path.join(dir, 'maps', 'synthetic.js.map'),
+      JSON.stringify(sourceMap)
+    );
+    fs.writeFileSync(
+      compiled,
+      'a;\nb;\n//# sourceMappingURL=../maps/synthetic.js.map\n'
+    );
+
+    const resolved = resolveOriginalStackFrame(frame(compiled));
+    expect(resolved.fileName).to.equal(original);
+    expect(resolved.lineNumber).to.equal(3);
+  });
+
+  it('resolves frames through an inline sourceMappingURL', () => {
+    const encoded = Buffer.from(JSON.stringify(sourceMap)).toString('base64');
+    fs.writeFileSync(
+      compiled,
+      `a;\nb;\n//# sourceMappingURL=data:application/json;base64,${encoded}\n`
+    );
+
+    const resolved = resolveOriginalStackFrame(frame(`file://${compiled}`));
+    expect(resolved.fileName).to.equal(original);
+    expect(resolved.lineNumber).to.equal(3);
+    expect(resolved.columnNumber).to.equal(3);
+  });
+
+  it('leaves frames without a source map as is', () => {
+    fs.writeFileSync(compiled, 'a;\nb;\n');
+
+    const resolved = resolveOriginalStackFrame(frame(compiled));
+    expect(resolved.fileName).to.equal(compiled);
+    expect(resolved.lineNumber).to.equal(2);
+    expect(resolved.columnNumber).to.equal(1);
+  });
+
+  it('leaves frames with a malformed source map as is', () => {
+    fs.writeFileSync(compiled, 'a;\nb;\n');
+    fs.writeFileSync(`${compiled}.map`, '{ not json');
+
+    const resolved = resolveOriginalStackFrame(frame(compiled));
+    expect(resolved.fileName).to.equal(compiled);
+    expect(resolved.lineNumber).to.equal(2);
+  });
+
+  it('leaves frames of relative or missing files as is', () => {
+    expect(resolveOriginalStackFrame(frame('node:internal')).fileName).to.equal(
+      'node:internal'
+    );
+    expect(
+      resolveOriginalStackFrame(frame(path.join(dir, 'missing.js'))).fileName
+    ).to.equal(path.join(dir, 'missing.js'));
+  });
+
+  it('reports the original location of errors thrown by compiled code', () => {
+    fs.writeFileSync(compiled, 'a;\nb;\n');
+    fs.writeFileSync(`${compiled}.map`, JSON.stringify(sourceMap));
+
+    const err = new Error('failed');
+    err.stack = `Error: failed\n    at fn (${compiled}:2:1)`;
+    const genericError = serializeGenericError(err);
+
+    expect(genericError?.file_path).to.equal(original);
+    expect(genericError?.line).to.equal(3);
+    expect(genericError?.column).to.equal(3);
+    expect(genericError?.function_name).to.equal('fn');
+  });
+});
@@ -0,0 +1,73 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { expect } from 'chai';
+import { GenericResultV1_GenericStep } from '../../src/index';
+import { createStepFunction } from '../../src/steps';
+
+describe('createStepFunction', () => {
+  it('records a passing step and returns its value', async () => {
+    const steps: GenericResultV1_GenericStep[] = [];
+    const step = createStepFunction(steps);
+
+    const value = await step('login', async () => 'logged in');
+
+    expect(value).to.equal('logged in');
+    expect(steps).to.have.length(1);
+    expect(steps[0].name).to.equal('login');
+    expect(steps[0].ok).to.be.true;
+    expect(steps[0].step_error).to.be.undefined;
+    expect(steps[0].duration_millis).to.be.at.least(0);
+    expect(
+      new Date(steps[0].step_end_time) >= new Date(steps[0].step_start_time)
+    ).to.be.true;
+  });
+
+  it('records a failing step and rethrows its error', async () => {
+    const steps: GenericResultV1_GenericStep[] = [];
+    const step = createStepFunction(steps);
+    const error = new TypeError('search returned nothing');
+
+    let thrown: unknown;
+    try {
+      await step('search', () => {
+        throw error;
+      });
+    } catch (err) {
+      thrown = err;
+    }
+
+    expect(thrown).to.equal(error);
+    expect(steps).to.have.length(1);
+    expect(steps[0].name).to.equal('search');
+    expect(steps[0].ok).to.be.false;
+    expect(steps[0].step_error?.error_type).to.equal('TypeError');
+    expect(steps[0].step_error?.error_message).to.equal(
+      'search returned nothing'
+    );
+    expect(steps[0].step_error?.stack_trace).to.equal(error.stack);
+  });
+
+  it('records steps in the order they were started', async () => {
+    const steps: GenericResultV1_GenericStep[] = [];
+    const step = createStepFunction(steps);
+
+    await step('outer', async () => {
+      await step('inner', () => true);
+    });
+    await step('last', () => true);
+
+    expect(steps.map((s) => s.name)).to.deep.equal(['outer', 'inner', 'last']);
+  });
+});
@@ -0,0 +1,66 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { expect } from 'chai';
+import { TraceFlags } from '@opentelemetry/api';
+import {
+  applyStructuredLoggingFields,
+  isAtLeastAsSevere,
+  levelToSeverity,
+} from '../../src/structured_logging';
+
+describe('structured logging', () => {
+  it('converts winston and pino levels to severities', () => {
+    expect(levelToSeverity('silly')).to.equal('DEBUG');
+    expect(levelToSeverity('info')).to.equal('INFO');
+    expect(levelToSeverity('warn')).to.equal('WARNING');
+    expect(levelToSeverity('fatal')).to.equal('CRITICAL');
+    expect(levelToSeverity('custom')).to.equal('DEFAULT');
+  });
+
+  it('compares the severity of levels', () => {
+    expect(isAtLeastAsSevere('error', 'warn')).to.be.true;
+    expect(isAtLeastAsSevere('warn', 'warn')).to.be.true;
+    expect(isAtLeastAsSevere('trace', 'info')).to.be.false;
+  });
+
+  it('replaces otel fields with structured logging fields', () => {
+    const record: Record<string, unknown> = {
+      message: 'Loading the home page',
+      trace_id: '12345678901234567890123456789012',
+      span_id: '1234567890123456',
+      trace_flags: '00',
+    };
+
+    applyStructuredLoggingFields(
+      record,
+      {
+        traceId: '12345678901234567890123456789012',
+        spanId: '1234567890123456',
+        traceFlags: TraceFlags.NONE,
+      },
+      'project-id',
+      'info'
+    );
+
+    expect(record).to.deep.equal({
+      message: 'Loading the home page',
+      'logging.googleapis.com/trace':
+        'projects/project-id/traces/12345678901234567890123456789012',
+      'logging.googleapis.com/spanId': '1234567890123456',
+      'logging.googleapis.com/trace_sampled': false,
+      severity: 'INFO',
+    });
+  });
+});
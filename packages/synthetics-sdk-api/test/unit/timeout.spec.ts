@@ -0,0 +1,70 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { expect } from 'chai';
+import { runWithDeadline, SyntheticTimeoutError } from '../../src/timeout';
+
+describe('runWithDeadline', () => {
+  it('resolves with the value of the function when no deadline is set', async () => {
+    const controller = new AbortController();
+    const value = await runWithDeadline(() => 'done', controller);
+
+    expect(value).to.equal('done');
+    expect(controller.signal.aborted).to.be.false;
+  });
+
+  it('resolves with the value of the function when it completes in time', async () => {
+    const controller = new AbortController();
+    const value = await runWithDeadline(async () => 'done', controller, 1000);
+
+    expect(value).to.equal('done');
+    expect(controller.signal.aborted).to.be.false;
+  });
+
+  it('rejects with errors thrown by the function', async () => {
+    const controller = new AbortController();
+    const error = new Error('failed');
+
+    let thrown: unknown;
+    try {
+      await runWithDeadline(
+        () => {
+          throw error;
+        },
+        controller,
+        1000
+      );
+    } catch (err) {
+      thrown = err;
+    }
+
+    expect(thrown).to.equal(error);
+  });
+
+  it('rejects with a SyntheticTimeoutError and aborts when the deadline is hit', async () => {
+    const controller = new AbortController();
+
+    let thrown: unknown;
+    try {
+      await runWithDeadline(() => new Promise(() => {}), controller, 10);
+    } catch (err) {
+      thrown = err;
+    }
+
+    expect(thrown).to.be.instanceOf(SyntheticTimeoutError);
+    expect((thrown as SyntheticTimeoutError).timeoutMillis).to.equal(10);
+    expect(controller.signal.aborted).to.be.true;
+    expect(controller.signal.reason).to.equal(thrown);
+  });
+});
@@ -0,0 +1,71 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { expect } from 'chai';
+import { trace, TraceFlags } from '@opentelemetry/api';
+import { TraceState } from '@opentelemetry/core';
+import { extractTraceContext, traceContextEnv } from '../../src/trace_context';
+
+const traceparent = '00-12345678901234567890123456789012-1234567890123456-01';
+
+describe('extractTraceContext', () => {
+  it('extracts the remote parent of request headers', () => {
+    const spanContext = trace.getSpanContext(
+      extractTraceContext({ traceparent, tracestate: 'vendor=value' })
+    );
+
+    expect(spanContext?.traceId).to.equal('12345678901234567890123456789012');
+    expect(spanContext?.spanId).to.equal('1234567890123456');
+    expect(spanContext?.traceFlags).to.equal(TraceFlags.SAMPLED);
+    expect(spanContext?.isRemote).to.be.true;
+    expect(spanContext?.traceState?.get('vendor')).to.equal('value');
+  });
+
+  it('extracts the remote parent of environment variables', () => {
+    const spanContext = trace.getSpanContext(
+      extractTraceContext({ TRACEPARENT: traceparent })
+    );
+    expect(spanContext?.spanId).to.equal('1234567890123456');
+  });
+
+  it('ignores missing or invalid trace context', () => {
+    expect(trace.getSpanContext(extractTraceContext({}))).to.be.undefined;
+    expect(
+      trace.getSpanContext(extractTraceContext({ traceparent: 'invalid' }))
+    ).to.be.undefined;
+  });
+});
+
+describe('traceContextEnv', () => {
+  it('propagates a span context as environment variables', () => {
+    const env = traceContextEnv({
+      traceId: '12345678901234567890123456789012',
+      spanId: '1234567890123456',
+      traceFlags: TraceFlags.SAMPLED,
+      traceState: new TraceState('vendor=value'),
+    });
+
+    expect(env).to.deep.equal({
+      TRACEPARENT: traceparent,
+      TRACESTATE: 'vendor=value',
+    });
+    expect(trace.getSpanContext(extractTraceContext(env))?.spanId).to.equal(
+      '1234567890123456'
+    );
+  });
+
+  it('is empty when there is no span', () => {
+    expect(traceContextEnv(undefined)).to.deep.equal({});
+  });
+});
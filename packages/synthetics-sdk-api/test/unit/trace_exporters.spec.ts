@@ -0,0 +1,87 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { expect } from 'chai';
+import {
+  BatchSpanProcessor,
+  ConsoleSpanExporter,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import { TraceExporter } from '@google-cloud/opentelemetry-cloud-trace-exporter';
+import {
+  createExportingSpanProcessor,
+  createTraceExporter,
+  TraceExporterName,
+} from '../../src/trace_exporters';
+
+describe('createTraceExporter', () => {
+  it('creates the cloud trace exporter by default', () => {
+    expect(createTraceExporter()).to.be.instanceOf(TraceExporter);
+  });
+
+  it('creates local exporters', () => {
+    expect(createTraceExporter('console')).to.be.instanceOf(
+      ConsoleSpanExporter
+    );
+    expect(createTraceExporter('in_memory')).to.be.instanceOf(
+      InMemorySpanExporter
+    );
+  });
+
+  it('creates otlp exporters for the provided url', async () => {
+    const httpExporter = createTraceExporter('otlp_http', {
+      url: 'http://collector:4318/v1/traces',
+      headers: { authorization: 'token' },
+    });
+    const grpcExporter = createTraceExporter('otlp_grpc', {
+      url: 'http://collector:4317',
+    });
+
+    expect(httpExporter.constructor.name).to.equal('OTLPTraceExporter');
+    expect((httpExporter as unknown as { url: string }).url).to.equal(
+      'http://collector:4318/v1/traces'
+    );
+    expect(grpcExporter.constructor.name).to.equal('OTLPTraceExporter');
+    expect(grpcExporter).to.not.equal(httpExporter);
+
+    await Promise.all([httpExporter.shutdown(), grpcExporter.shutdown()]);
+  });
+
+  it('returns exporter instances as is', () => {
+    const exporter = new InMemorySpanExporter();
+    expect(createTraceExporter(exporter)).to.equal(exporter);
+  });
+
+  it('throws on unknown exporters', () => {
+    expect(() =>
+      createTraceExporter('jaeger' as unknown as TraceExporterName)
+    ).to.throw(TypeError, "Unknown trace exporter 'jaeger'");
+  });
+});
+
+describe('createExportingSpanProcessor', () => {
+  it('exports local spans synchronously, and remote spans in batches', async () => {
+    expect(
+      createExportingSpanProcessor(new InMemorySpanExporter())
+    ).to.be.instanceOf(SimpleSpanProcessor);
+    expect(
+      createExportingSpanProcessor(new ConsoleSpanExporter())
+    ).to.be.instanceOf(SimpleSpanProcessor);
+
+    const batchProcessor = createExportingSpanProcessor(new TraceExporter());
+    expect(batchProcessor).to.be.instanceOf(BatchSpanProcessor);
+    await batchProcessor.shutdown();
+  });
+});
@@ -0,0 +1,98 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { expect } from 'chai';
+import * as sinon from 'sinon';
+import { ProxyTracerProvider, TracerProvider } from '@opentelemetry/api';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import { flushTraces } from '../../src/trace_flush';
+import { SyntheticResult } from '../../src/generated/proto/synthetic_response';
+
+const flushableProvider = (forceFlush: () => Promise<void>) =>
+  ({
+    getTracer: () => new ProxyTracerProvider().getTracer('test'),
+    forceFlush,
+  } as TracerProvider);
+
+describe('flushTraces', () => {
+  it('flushes the spans that are buffered by the provider', async () => {
+    const forceFlush = sinon.stub().resolves();
+    const syntheticResult = SyntheticResult.create();
+
+    await flushTraces(syntheticResult, 100, flushableProvider(forceFlush));
+
+    sinon.assert.calledOnce(forceFlush);
+    expect(syntheticResult.non_fatal_errors).to.deep.equal([]);
+  });
+
+  it('flushes the delegate of a proxy provider', async () => {
+    const exporter = new InMemorySpanExporter();
+    const provider = new BasicTracerProvider();
+    provider.addSpanProcessor(new SimpleSpanProcessor(exporter));
+    const forceFlush = sinon.spy(provider, 'forceFlush');
+    const proxyProvider = new ProxyTracerProvider();
+    proxyProvider.setDelegate(provider);
+
+    await flushTraces(SyntheticResult.create(), 100, proxyProvider);
+
+    sinon.assert.calledOnce(forceFlush);
+  });
+
+  it('ignores providers that do not buffer spans', async () => {
+    const syntheticResult = SyntheticResult.create();
+    await flushTraces(syntheticResult, 100, new ProxyTracerProvider());
+    expect(syntheticResult.non_fatal_errors).to.deep.equal([]);
+  });
+
+  it('reports a flush that failed as a non fatal error', async () => {
+    const syntheticResult = SyntheticResult.create();
+
+    await flushTraces(
+      syntheticResult,
+      100,
+      flushableProvider(() =>
+        Promise.reject([new Error('export failed'), new Error('denied')])
+      )
+    );
+
+    expect(syntheticResult.non_fatal_errors).to.deep.equal([
+      {
+        error_type: 'TraceFlushError',
+        error_message: 'Unable to flush traces: export failed; denied',
+      },
+    ]);
+  });
+
+  it('stops waiting for a flush that does not complete in time', async () => {
+    const syntheticResult = SyntheticResult.create();
+
+    await flushTraces(
+      syntheticResult,
+      10,
+      flushableProvider(() => new Promise(() => {}))
+    );
+
+    expect(syntheticResult.non_fatal_errors).to.deep.equal([
+      {
+        error_type: 'TraceFlushError',
+        error_message:
+          'Unable to flush traces: Traces were not flushed within 10 milliseconds',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,65 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { expect } from 'chai';
+import * as sinon from 'sinon';
+import { GenericResultV1_GenericWarning } from '../../src/index';
+import { createWarnFunction } from '../../src/warnings';
+
+describe('createWarnFunction', () => {
+  let warnings: GenericResultV1_GenericWarning[];
+
+  beforeEach(() => {
+    warnings = [];
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('records warnings and writes them to the logger', () => {
+    const logger = { warn: sinon.spy() };
+    const warn = createWarnFunction(warnings, logger);
+
+    warn('SlowResponse', 'The home page took 4200 ms');
+    warn('DeprecatedApi', 'The Sunset header was returned');
+
+    expect(
+      warnings.map((w) => [w.warning_type, w.warning_message])
+    ).to.deep.equal([
+      ['SlowResponse', 'The home page took 4200 ms'],
+      ['DeprecatedApi', 'The Sunset header was returned'],
+    ]);
+    expect(Date.parse(warnings[0].warning_time)).to.not.be.NaN;
+    sinon.assert.calledWith(
+      logger.warn,
+      'Warning SlowResponse: The home page took 4200 ms'
+    );
+    sinon.assert.calledOn(logger.warn, logger);
+  });
+
+  it('throws on invalid types and messages', () => {
+    const warn = createWarnFunction(warnings, { warn: () => {} });
+
+    expect(() => warn('', 'slow')).to.throw(
+      TypeError,
+      "Invalid warning type '': expected a non-empty string."
+    );
+    expect(() => warn('SlowResponse', 42 as unknown as string)).to.throw(
+      TypeError,
+      "Invalid message for warning 'SlowResponse': expected a non-empty string."
+    );
+    expect(warnings).to.be.empty;
+  });
+});
@@ -17,8 +17,10 @@ import {
   BaseError,
   BrokenLinksResultV1_BrokenLinkCheckerOptions,
   BrokenLinksResultV1_SyntheticLinkResult,
-  getRuntimeMetadata,
+  ConcurrencyPolicy,
+  collectRuntimeMetadata,
   instantiateMetadata,
+  ResultSizeOptions,
   SyntheticResult,
 } from '@google-cloud/synthetics-sdk-api';
 import {
@@ -59,6 +61,9 @@ export interface BrokenLinkCheckerOptions {
   per_link_options?: { [key: string]: PerLinkOption };
   total_synthetic_timeout_millis?: number;
   screenshot_options?: ScreenshotOptions;
+  concurrency?: ConcurrencyPolicy;
+  result_size?: ResultSizeOptions;
+  trace_flush_timeout_millis?: number;
 }
 
 export interface PerLinkOption {
@@ -109,7 +114,7 @@ export async function runBrokenLinks(
 ): Promise<SyntheticResult> {
   // init
   const startTime = new Date().toISOString();
-  const runtime_metadata = getRuntimeMetadata();
+  const runtime_metadata = await collectRuntimeMetadata();
 
   let browser: Browser;
   try {
@@ -12,8 +12,18 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-// Standard Libraries
-import { Request, Response } from 'express';
+// External Dependencies
+import {
+  flushTraces,
+  getRequestHeader,
+  InvokeFunction,
+  limitResultSize,
+  runInExecutionSpan,
+  SyntheticRequest,
+  toExpressHandler,
+  validateResultSizeOptions,
+  withConcurrencyPolicy,
+} from '@google-cloud/synthetics-sdk-api';
 
 // Internal Project Files
 import { runBrokenLinks, BrokenLinkCheckerOptions } from './broken_links';
@@ -21,21 +31,50 @@ import { runBrokenLinks, BrokenLinkCheckerOptions } from './broken_links';
 const syntheticExecutionIdHeader = 'Synthetic-Execution-Id';
 const checkIdHeader = 'Check-Id';
 
+/**
+ * Creates a function that checks for broken links for a request, independent
+ * of any web framework, which may be served with an adapter such as
+ * `toFetchHandler`, `toNodeHandler`, `toFastifyHandler` or `toKoaMiddleware`.
+ * Broken links are checked within a span, which continues the W3C trace
+ * context of the request's `traceparent` header, and whose trace and span ids
+ * are reported in the result. Buffered traces are flushed before the result
+ * is resolved, waiting at most `options.trace_flush_timeout_millis`. Checks
+ * that overlap with a running check of the same check id are handled
+ * according to `options.concurrency`, so that their browsers do not compete
+ * for memory, and results are truncated to fit within `options.result_size`.
+ * @public
+ * @param options - Options for running GCM Synthetics Broken Links.
+ * @returns A function that resolves with the results of the broken links
+ * check.
+ */
+export function createBrokenLinksInvokeFunction(
+  options: BrokenLinkCheckerOptions
+): InvokeFunction {
+  if (options.result_size) {
+    validateResultSizeOptions(options.result_size);
+  }
+  return withConcurrencyPolicy(async (request: SyntheticRequest) => {
+    const executionId = getRequestHeader(request, syntheticExecutionIdHeader);
+    const checkId = getRequestHeader(request, checkIdHeader);
+    const syntheticResult = await runInExecutionSpan(
+      { executionId, checkId, headers: request.headers },
+      () => runBrokenLinks(options, { executionId, checkId })
+    );
+    await flushTraces(syntheticResult, options.trace_flush_timeout_millis);
+    return limitResultSize(syntheticResult, options.result_size);
+  }, options.concurrency);
+}
+
 /**
  * Middleware for easy invocation of SyntheticSDK broken links, and may be used to
  * register a GoogleCloudFunction http function, or express js compatible handler.
+ * Broken links are checked as described by
+ * {@link createBrokenLinksInvokeFunction}.
  * @public
  * @param options - Options for running GCM Synthetics Broken Links.
  * @returns ExpressJS compatible middleware that invokes SyntheticsSDK broken links, and
- * returns the results via res.send
+ * returns the results via res.send.
  */
 export function runBrokenLinksHandler(options: BrokenLinkCheckerOptions) {
-  // eslint-disable-next-line  @typescript-eslint/no-explicit-any
-  return async (req: Request, res: Response): Promise<any> =>
-    res.send(
-      await runBrokenLinks(options, {
-        executionId: req.get(syntheticExecutionIdHeader),
-        checkId: req.get(checkIdHeader),
-      })
-    );
+  return toExpressHandler(createBrokenLinksInvokeFunction(options));
 }
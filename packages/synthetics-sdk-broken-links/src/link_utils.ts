@@ -24,7 +24,7 @@ import {
   BrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions_CaptureCondition as ApiCaptureCondition,
   BrokenLinksResultV1_SyntheticLinkResult,
   GenericResultV1,
-  getRuntimeMetadata,
+  collectRuntimeMetadata,
   ResponseStatusCode,
   ResponseStatusCode_StatusClass,
   SyntheticResult,
@@ -249,6 +249,10 @@ export function createSyntheticResult(
     runtime_metadata: runtime_metadata,
     start_time: start_time,
     end_time: new Date().toISOString(),
+    metrics: [],
+    attachments: [],
+    non_fatal_errors: [],
+    truncations: [],
   };
 
   return synthetic_result;
@@ -396,17 +400,26 @@ const getGenericError = (genericErrorMessage: string): GenericResultV1 => ({
     file_path: '',
     line: 0,
     stack_trace: '',
+    causes: [],
   },
+  steps: [],
+  attempts: [],
+  logs: [],
+  warnings: [],
 });
 
-export const getGenericSyntheticResult = (
+export const getGenericSyntheticResult = async (
   startTime: string,
   genericErrorMessage: string
-): SyntheticResult => ({
+): Promise<SyntheticResult> => ({
   synthetic_generic_result_v1: getGenericError(genericErrorMessage),
-  runtime_metadata: getRuntimeMetadata(),
+  runtime_metadata: await collectRuntimeMetadata(),
   start_time: startTime,
   end_time: getEndTime(startTime),
+  metrics: [],
+  attachments: [],
+  non_fatal_errors: [],
+  truncations: [],
 });
 
 const getEndTime = (startTime: string): string => {
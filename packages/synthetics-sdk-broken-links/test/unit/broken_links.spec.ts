@@ -27,6 +27,7 @@ import {
   BrokenLinksResultV1_BrokenLinkCheckerOptions_ScreenshotOptions_CaptureCondition as ApiCaptureCondition,
   BrokenLinksResultV1_SyntheticLinkResult,
   BrokenLinksResultV1_SyntheticLinkResult_ScreenshotOutput as ApiScreenshotOutput,
+  registerRuntimeMetadataProvider,
   ResponseStatusCode,
   ResponseStatusCode_StatusClass,
 } from '@google-cloud/synthetics-sdk-api';
@@ -116,6 +117,25 @@ describe('runBrokenLinks', async () => {
     );
   }).timeout(15000);
 
+  it('reports the runtime metadata of registered providers', async () => {
+    const unregister = registerRuntimeMetadataProvider('deployment', {
+      deployment: 'canary',
+    });
+    try {
+      const result = await runBrokenLinks(
+        { origin_uri: 'uri-does-not-start-with-http' },
+        args
+      );
+
+      expect(result.runtime_metadata?.['deployment']).to.equal('canary');
+      expect(result.runtime_metadata?.['node_version']).to.equal(
+        process.version
+      );
+    } finally {
+      unregister();
+    }
+  });
+
   it('returns broken_links_result with origin link failure when waitForSelector exceeds deadline', async () => {
     const mockedBlc = proxyquire('../../src/broken_links', {
       './storage_func': {
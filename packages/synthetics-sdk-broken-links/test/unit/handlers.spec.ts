@@ -57,4 +57,75 @@ describe('Broken Links Synthetic Handler', async () => {
     });
     expect(res.statusCode).to.equal(200);
   }).timeout(5000);
+
+  it('checks broken links for requests independent of express', async () => {
+    const mockRunBrokenLinks = sinon.stub().resolves({
+      mocked_response: 'is unimportant',
+    });
+    const mockedBrokenLinks = proxyquire('../../src/handlers', {
+      './broken_links': { runBrokenLinks: mockRunBrokenLinks },
+    });
+    const options: BrokenLinkCheckerOptions = {
+      origin_uri: 'https://example.com',
+    };
+
+    const result = await mockedBrokenLinks.createBrokenLinksInvokeFunction(
+      options
+    )({
+      headers: {
+        'synthetic-execution-id': 'test-execution-id',
+        'check-id': 'test-check-id',
+      },
+      query: {},
+      body: undefined,
+    });
+
+    sinon.assert.calledWith(mockRunBrokenLinks, options, {
+      executionId: 'test-execution-id',
+      checkId: 'test-check-id',
+    });
+    expect(result).to.deep.equal({ mocked_response: 'is unimportant' });
+  }).timeout(5000);
+
+  it('reports the span of the check and flushes traces', async () => {
+    const mockRunBrokenLinks = sinon.stub().resolves({
+      mocked_response: 'is unimportant',
+    });
+    const runInExecutionSpan = sinon
+      .stub()
+      .callsFake(async (details, execute) => ({
+        ...(await execute()),
+        trace_id: 'trace-id',
+      }));
+    const flushTraces = sinon.stub().resolves();
+    const mockedBrokenLinks = proxyquire('../../src/handlers', {
+      './broken_links': { runBrokenLinks: mockRunBrokenLinks },
+      '@google-cloud/synthetics-sdk-api': { flushTraces, runInExecutionSpan },
+    });
+
+    const result = await mockedBrokenLinks.createBrokenLinksInvokeFunction({
+      origin_uri: 'https://example.com',
+      trace_flush_timeout_millis: 1000,
+    })({
+      headers: {
+        'synthetic-execution-id': 'test-execution-id',
+        'check-id': 'test-check-id',
+        traceparent: '00-12345678901234567890123456789012-1234567890123456-01',
+      },
+      query: {},
+      body: undefined,
+    });
+
+    expect(runInExecutionSpan.firstCall.args[0]).to.deep.equal({
+      executionId: 'test-execution-id',
+      checkId: 'test-check-id',
+      headers: {
+        'synthetic-execution-id': 'test-execution-id',
+        'check-id': 'test-check-id',
+        traceparent: '00-12345678901234567890123456789012-1234567890123456-01',
+      },
+    });
+    sinon.assert.calledWith(flushTraces, result, 1000);
+    expect(result.trace_id).to.equal('trace-id');
+  }).timeout(5000);
 });
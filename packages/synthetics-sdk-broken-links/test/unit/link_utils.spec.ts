@@ -220,8 +220,8 @@ describe('GCM Synthetics Broken Links Utilies', async () => {
     });
   });
 
-  it('getGenericSyntheticResult returns a minimum of 1 millisecond difference between start and end time', () => {
-    const genericResult = getGenericSyntheticResult(
+  it('getGenericSyntheticResult returns a minimum of 1 millisecond difference between start and end time', async () => {
+    const genericResult = await getGenericSyntheticResult(
       new Date().toISOString(),
       ''
     );
@@ -12,11 +12,18 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
+import { randomUUID } from 'crypto';
 import * as fs from 'fs';
 import * as Mocha from 'mocha';
 import * as path from 'path';
 
 import {
+  AttachFunction,
+  createArtifactStorage,
+  createAttachFunction,
+  createRecordMetricFunction,
+  RecordMetricFunction,
+  resolveOriginalStackFrame,
   TestFrameworkResultV1,
   TestResult,
   SyntheticResult,
@@ -34,12 +41,41 @@ const {
   EVENT_RUN_END,
 } = Mocha.Runner.constants;
 
+// The environment variable that `runMocha` provides the artifact location
+// with, as it may contain characters that cannot be provided through the
+// command line.
+const artifactLocationEnv = 'SYNTHETICS_ARTIFACT_LOCATION';
+
+declare module 'mocha' {
+  interface Context {
+    /**
+     * Records a custom metric that is reported in the synthetic's result, eg.
+     * `this.recordMetric('search_result_count', 12, { tenant: 'acme' })`.
+     */
+    recordMetric: RecordMetricFunction;
+    /**
+     * Stores an artifact, listing it in the synthetic's attachments, eg.
+     * `await this.attach('checkout.png', screenshot, 'image/png')`.
+     */
+    attach: AttachFunction;
+  }
+}
+
 interface GcmSyntheticsReporterOptions {
   /**
    * If provided, file location where output is written. If not provided,
    * output is logged to stdout.
    */
-  reporterOption: { output: string | null };
+  reporterOption: {
+    output: string | null;
+    /**
+     * If provided, location where attached artifacts are stored, either a
+     * Google Cloud Storage location or a path to a local directory. Read from
+     * the `SYNTHETICS_ARTIFACT_LOCATION` environment variable when not
+     * provided.
+     */
+    artifactLocation?: string;
+  };
 }
 
 class GcmSyntheticsReporter {
@@ -68,8 +104,27 @@ class GcmSyntheticsReporter {
       start_time: '',
       end_time: '',
       runtime_metadata: {},
+      metrics: [],
+      attachments: [],
+      non_fatal_errors: [],
+      truncations: [],
     };
 
+    // Test contexts inherit from the root suite's context, making
+    // `this.recordMetric` and `this.attach` available within every test and
+    // hook.
+    runner.suite.ctx.recordMetric = createRecordMetricFunction(
+      syntheticResult.metrics
+    );
+    const artifactLocation =
+      options?.reporterOption?.artifactLocation ??
+      process.env[artifactLocationEnv];
+    runner.suite.ctx.attach = createAttachFunction(
+      syntheticResult.attachments,
+      artifactLocation ? createArtifactStorage(artifactLocation) : undefined,
+      randomUUID()
+    );
+
     runner
       .on(EVENT_RUN_BEGIN, () => {
         syntheticResult.start_time = new Date().toISOString();
@@ -152,12 +207,15 @@ export function serializeTest(
       ? {
           error_type: err.name,
           error_message: err.message,
-          stack_frames: ErrorStackParser.parse(err).map((frame) => ({
-            file_path: frame.fileName ?? '',
-            line: frame.lineNumber,
-            column: frame.columnNumber,
-            function_name: frame.functionName ?? '',
-          })),
+          stack_frames: ErrorStackParser.parse(err)
+            .map((frame) => resolveOriginalStackFrame(frame))
+            .map((frame) => ({
+              file_path: frame.fileName ?? '',
+              line: frame.lineNumber,
+              column: frame.columnNumber,
+              function_name: frame.functionName ?? '',
+            })),
+          stack_trace: err.stack ?? '',
         }
       : undefined,
   };
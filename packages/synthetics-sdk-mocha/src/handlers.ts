@@ -13,18 +13,60 @@
 // limitations under the License.
 
 import { runMocha, SyntheticMochaOptions } from './mocha';
-import { Request, Response } from 'express';
+import {
+  flushTraces,
+  getRequestHeader,
+  InvokeFunction,
+  limitResultSize,
+  runInExecutionSpan,
+  SyntheticRequest,
+  toExpressHandler,
+  validateResultSizeOptions,
+  withConcurrencyPolicy,
+} from '@google-cloud/synthetics-sdk-api';
+
+/**
+ * Creates a function that runs a mocha suite for a request, independent of any
+ * web framework, which may be served with an adapter such as `toFetchHandler`,
+ * `toNodeHandler`, `toFastifyHandler` or `toKoaMiddleware`. The suite is ran
+ * within a span, which continues the W3C trace context of the request's
+ * `traceparent` header, and whose trace and span ids are reported in the
+ * result. Buffered traces are flushed before the result is resolved, which
+ * is truncated to fit within `options.resultSize`, and executions that
+ * overlap are handled according to `options.concurrency`.
+ * @public
+ * @param options - Options for running GCM Synthetics Mocha.
+ * @returns A function that resolves with the results of the mocha suite.
+ */
+export function createMochaInvokeFunction(
+  options: SyntheticMochaOptions
+): InvokeFunction {
+  if (options.resultSize) {
+    validateResultSizeOptions(options.resultSize);
+  }
+  return withConcurrencyPolicy(async (request: SyntheticRequest) => {
+    const syntheticResult = await runInExecutionSpan(
+      {
+        executionId: getRequestHeader(request, 'Synthetic-Execution-Id'),
+        checkId: getRequestHeader(request, 'Check-Id'),
+        headers: request.headers,
+      },
+      (span) => runMocha(options, span.spanContext())
+    );
+    await flushTraces(syntheticResult, options.traceFlushTimeoutMillis);
+    return limitResultSize(syntheticResult, options.resultSize);
+  }, options.concurrency);
+}
 
 /**
  * Middleware for easy invocation of SyntheticSDK mocha, and may be used to
  * register a GoogleCloudFunction http function, or express js compatible handler.
+ * The suite is ran as described by {@link createMochaInvokeFunction}.
  * @public
  * @param options - Options for running GCM Synthetics Mocha.
  * @returns ExpressJS compatible middleware that invokes SyntheticsSDK mocha, and
  * returns the results via res.send
  */
 export function runMochaHandler(options: SyntheticMochaOptions) {
-  // eslint-disable-next-line  @typescript-eslint/no-explicit-any
-  return async (req: Request, res: Response): Promise<any> =>
-    res.send(await runMocha(options));
+  return toExpressHandler(createMochaInvokeFunction(options));
 }
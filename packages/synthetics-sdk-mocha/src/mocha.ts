@@ -21,7 +21,15 @@ import {
   SyntheticResult,
   instantiateMetadata,
   getRuntimeMetadata,
+  collectRuntimeMetadata,
+  ConcurrencyPolicy,
+  ResultSizeOptions,
+  traceContextEnv,
 } from '@google-cloud/synthetics-sdk-api';
+import { SpanContext } from '@opentelemetry/api';
+
+// Read by the reporter, see gcm_synthetics_mocha_reporter.ts.
+const artifactLocationEnv = 'SYNTHETICS_ARTIFACT_LOCATION';
 
 const synthetics_sdk_mocha_package = require('../../package.json');
 
@@ -40,6 +48,38 @@ export interface SyntheticMochaOptions {
    * @example: "--file ${__dirname}/preload.js --forbid-pending"
    */
   mochaOptions?: string;
+
+  /**
+   * Where artifacts that are attached through `this.attach` are stored, either
+   * a Google Cloud Storage location or a path to a local directory.
+   * @example: "gs://my-bucket/artifacts"
+   */
+  artifactLocation?: string;
+
+  /**
+   * The maximum amount of time, in milliseconds, that `runMochaHandler` waits
+   * for buffered traces to be flushed before a response is served.
+   * @example: 5000
+   */
+  traceFlushTimeoutMillis?: number;
+
+  /**
+   * How `runMochaHandler` handles an execution while another execution of the
+   * same check is still running on this instance: `allow` it to run
+   * alongside, `queue` it until the other has completed, or `reject` it with
+   * a `SyntheticConcurrencyError`, so that overlapping suites do not compete
+   * for memory. `allow` by default.
+   * @example: "queue"
+   */
+  concurrency?: ConcurrencyPolicy;
+
+  /**
+   * The size budget of the results that `runMochaHandler` serves, beyond
+   * which their stack traces, error messages and test results are truncated,
+   * as recorded in the result's `truncations`. 1 MiB by default.
+   * @example: { maxBytes: 512000 }
+   */
+  resultSize?: ResultSizeOptions;
 }
 
 const defaultError: GenericResultV1 = {
@@ -51,7 +91,13 @@ const defaultError: GenericResultV1 = {
     function_name: '',
     file_path: '',
     line: 0,
+    stack_trace: '',
+    causes: [],
   },
+  steps: [],
+  attempts: [],
+  logs: [],
+  warnings: [],
 };
 
 const getGenericSyntheticResult = (startTime: string): SyntheticResult => ({
@@ -59,25 +105,17 @@ const getGenericSyntheticResult = (startTime: string): SyntheticResult => ({
   runtime_metadata: getRuntimeMetadata(),
   start_time: startTime,
   end_time: new Date().toISOString(),
+  metrics: [],
+  attachments: [],
+  non_fatal_errors: [],
+  truncations: [],
 });
 
-/**
- * Runs a mocha spec in a child process, returning a json object that complies
- * with the response body required by GCM Synthetics' API contract.
- * When cloud monitoring receives data from this function, it will convert
- * it to metrics, logs, and traces.
- *
- * @public
- * @param options - Options for running the mocha suite
- * @returns Results of the mocha test run, complying with the Synthetics SDK API.
- *          Errors within this function reolve, with further information within the
- *          returned object's synthetic_generic_result_v1.
- */
-export function runMocha(
-  options: SyntheticMochaOptions
-): Promise<SyntheticResult> {
+const runMochaSuite = (
+  options: SyntheticMochaOptions,
+  parentSpanContext?: SpanContext
+): Promise<SyntheticResult> => {
   const uniqueFileName = `/tmp/${crypto.randomUUID()}`;
-  const runtimeMetadata = getRuntimeMetadata();
   const genericStartTime = new Date().toISOString();
 
   return new Promise((resolve) => {
@@ -94,6 +132,15 @@ export function runMocha(
       {
         shell: true,
         stdio: 'inherit',
+        env: {
+          ...process.env,
+          ...traceContextEnv(parentSpanContext),
+          // Provided through the environment rather than the command line, as
+          // locations may contain spaces, commas or shell metacharacters.
+          ...(options.artifactLocation
+            ? { [artifactLocationEnv]: options.artifactLocation }
+            : {}),
+        },
       }
     );
     childProcess.on('exit', () => {
@@ -103,7 +150,6 @@ export function runMocha(
           JSON.parse(output)
         );
 
-        syntheticResult.runtime_metadata = runtimeMetadata;
         resolve(syntheticResult);
         fs.unlinkSync(uniqueFileName);
       } catch (err: unknown) {
@@ -115,4 +161,34 @@ export function runMocha(
       }
     });
   });
+};
+
+/**
+ * Runs a mocha spec in a child process, returning a json object that complies
+ * with the response body required by GCM Synthetics' API contract.
+ * When cloud monitoring receives data from this function, it will convert
+ * it to metrics, logs, and traces.
+ *
+ * The trace context of `parentSpanContext` is propagated to the child process
+ * through the `TRACEPARENT` and `TRACESTATE` environment variables, where it
+ * may be read with `extractTraceContext(process.env)`.
+ *
+ * @public
+ * @param options - Options for running the mocha suite
+ * @param parentSpanContext - The span that the suite continues the trace of,
+ *                            by default the active span.
+ * @returns Results of the mocha test run, complying with the Synthetics SDK API.
+ *          Errors within this function reolve, with further information within the
+ *          returned object's synthetic_generic_result_v1.
+ */
+export async function runMocha(
+  options: SyntheticMochaOptions,
+  parentSpanContext?: SpanContext
+): Promise<SyntheticResult> {
+  const [syntheticResult, runtimeMetadata] = await Promise.all([
+    runMochaSuite(options, parentSpanContext),
+    collectRuntimeMetadata(),
+  ]);
+  syntheticResult.runtime_metadata = runtimeMetadata;
+  return syntheticResult;
 }
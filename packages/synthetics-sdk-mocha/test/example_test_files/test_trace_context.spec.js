@@ -0,0 +1,23 @@
+// Copyright 2023 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+const {expect} = require('chai');
+const {trace} = require('@opentelemetry/api');
+const {extractTraceContext} = require('@google-cloud/synthetics-sdk-api');
+
+it('continues the trace of the synthetic', () => {
+  const spanContext = trace.getSpanContext(extractTraceContext(process.env));
+  expect(spanContext.traceId).to.equal('12345678901234567890123456789012');
+  expect(spanContext.spanId).to.equal('1234567890123456');
+});
@@ -15,7 +15,9 @@
 import { expect } from 'chai';
 import * as fs from 'fs';
 import Mocha from 'mocha';
+import * as os from 'os';
 import * as path from 'path';
+import { fileURLToPath } from 'url';
 
 import { SyntheticResult, TestFrameworkResultV1 } from '@google-cloud/synthetics-sdk-api';
 
@@ -188,6 +190,60 @@ describe('gcm_synthetic_reporter', () => {
     });
   });
 
+  it('Reports metrics recorded through the test context', (done) => {
+    mocha.suite.addTest(
+      new Mocha.Test('records a metric', function (this: Mocha.Context) {
+        this.recordMetric('search_result_count', 12, { tenant: 'acme' });
+        this.recordMetric('cart_total_latency', 1.5);
+      })
+    );
+
+    mocha.run(() => {
+      const syntheticResult = readOutputFile();
+      try {
+        expect(syntheticResult?.metrics).to.have.length(2);
+        expect(syntheticResult?.metrics?.[0]?.name).to.equal('search_result_count');
+        expect(syntheticResult?.metrics?.[0]?.int64_value).to.equal(12);
+        expect(syntheticResult?.metrics?.[0]?.labels).to.deep.equal({ tenant: 'acme' });
+        expect(syntheticResult?.metrics?.[1]?.name).to.equal('cart_total_latency');
+        expect(syntheticResult?.metrics?.[1]?.double_value).to.equal(1.5);
+        done();
+      } catch (e) {
+        done(e);
+      }
+    });
+  });
+
+  it('Reports artifacts attached through the test context', (done) => {
+    const artifactLocation = fs.mkdtempSync(path.join(os.tmpdir(), 'artifacts-'));
+    mocha = new Mocha({
+      reporter: reporterPath,
+      reporterOptions: { output: syntheticResultFile, artifactLocation },
+    });
+    mocha.suite.addTest(
+      new Mocha.Test('attaches an artifact', async function (this: Mocha.Context) {
+        await this.attach('page.html', '<html></html>', 'text/html');
+      })
+    );
+
+    mocha.run(() => {
+      const syntheticResult = readOutputFile();
+      try {
+        expect(syntheticResult?.attachments).to.have.length(1);
+        expect(syntheticResult?.attachments?.[0]?.name).to.equal('page.html');
+        expect(syntheticResult?.attachments?.[0]?.content_type).to.equal('text/html');
+        const filePath = fileURLToPath(syntheticResult?.attachments?.[0]?.uri);
+        expect(filePath.startsWith(artifactLocation)).to.be.true;
+        expect(fs.readFileSync(filePath, { encoding: 'utf-8' })).to.equal('<html></html>');
+        done();
+      } catch (e) {
+        done(e);
+      } finally {
+        fs.rmSync(artifactLocation, { recursive: true, force: true });
+      }
+    });
+  });
+
   it('Reports relatively accurate timings', (done) => {
     mocha.suite.addTest(failingTest);
 
@@ -52,4 +52,21 @@ describe('GCM Synthetics Mocha Handler', async () => {
 
     expect(runtime_metadata).to.not.be.undefined;
   });
+
+  it('runs a mocha suite for requests independent of express', async () => {
+    const invoke = SyntheticsSdkMocha.createMochaInvokeFunction({
+      spec: './test/example_test_files/test_passing.spec.js',
+    });
+
+    const syntheticMochaResults: SyntheticResult = await invoke({
+      headers: { 'synthetic-execution-id': 'execution-id' },
+      query: {},
+      body: undefined,
+    });
+
+    const testFrameworkResult =
+      syntheticMochaResults.synthetic_test_framework_result_v1;
+    expect(testFrameworkResult?.passing_test_count).to.equal(1);
+    expect(testFrameworkResult?.failing_test_count).to.equal(0);
+  });
 });
\ No newline at end of file
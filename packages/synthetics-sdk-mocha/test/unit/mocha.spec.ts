@@ -13,6 +13,10 @@
 // limitations under the License.
 
 import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
 const SyntheticsSdkMocha = require('synthetics-sdk-mocha');
 
 describe('GCM Synthetics Mocha', async () => {
@@ -28,6 +32,8 @@ describe('GCM Synthetics Mocha', async () => {
     );
 
     expect(runtime_metadata).to.not.be.undefined;
+    expect(runtime_metadata?.['@google-cloud/synthetics-sdk-mocha']).to.not.be.undefined;
+    expect(runtime_metadata?.node_version).to.equal(process.version);
   });
 
   it('runs passing tests in a file at the provided path', async () => {
@@ -51,6 +57,42 @@ describe('GCM Synthetics Mocha', async () => {
     expect(runtime_metadata).to.not.be.undefined;
   });
 
+  it('propagates trace context to the tests', async () => {
+    const syntheticMochaResults = await SyntheticsSdkMocha.runMocha(
+      { spec: './test/example_test_files/test_trace_context.spec.js' },
+      {
+        traceId: '12345678901234567890123456789012',
+        spanId: '1234567890123456',
+        traceFlags: 1,
+      }
+    );
+
+    const testFrameworkResult =
+      syntheticMochaResults.synthetic_test_framework_result_v1 || {};
+    expect(testFrameworkResult?.passing_test_count).to.equal(1);
+  });
+
+  it('stores artifacts at locations that contain shell metacharacters', async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'artifacts-'));
+    const artifactLocation = path.join(tmpDir, 'with spaces,commas;$(touch injected)');
+    try {
+      const syntheticMochaResults = await SyntheticsSdkMocha.runMocha({
+        spec: './test/example_test_files/test_attach.spec.js',
+        artifactLocation,
+      });
+
+      const { attachments, synthetic_test_framework_result_v1 } = syntheticMochaResults;
+      expect(synthetic_test_framework_result_v1?.passing_test_count).to.equal(1);
+      expect(attachments).to.have.length(1);
+      const filePath = fileURLToPath(attachments[0].uri);
+      expect(filePath.startsWith(artifactLocation)).to.be.true;
+      expect(fs.readFileSync(filePath, { encoding: 'utf-8' })).to.equal('<html></html>');
+      expect(fs.existsSync('injected')).to.be.false;
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+
   it('runs failing tests in a file at the provided path', async () => {
     const syntheticMochaResults = await SyntheticsSdkMocha.runMocha({
       spec: './test/example_test_files/test_failing.spec.js',